@@ -13,8 +13,16 @@
  * See the License for the specific language governing permissions and
  * limitations under the License.
  */
-import {NsApi} from "nsapi";
-import Ui from "./ui";
+import {Backend, BackendFactory, RestoreResponse} from "./backend";
+import Checkpoints, {Checkpoint} from "./checkpoint";
+import I18n from "./i18n";
+import Logger from "./logger";
+import ProgressTracker, {RunProgress} from "./progress";
+import RateLimitedBackend from "./ratelimitedbackend";
+import RateLimiter, {RequestKind} from "./ratelimiter";
+import Results, {Action, Outcome, Result} from "./results";
+import Retry, {RetryPolicy} from "./retry";
+import Snapshots, {Snapshot} from "./snapshot";
 import * as util from "util";
 
 /**
@@ -23,7 +31,8 @@ import * as util from "util";
 export enum Mode {
     Login,
     Restore,
-    Auto
+    Auto,
+    Smart
 }
 
 /**
@@ -31,21 +40,197 @@ export enum Mode {
  */
 export interface Credential {
     nation: string,
-    password: string
+    /**
+     * The password of the nation, or an empty string if it was removed in
+     * favour of an autologin token. A password is still needed to restore
+     * the nation.
+     */
+    password: string,
+    /**
+     * The autologin token issued by NationStates the last time the nation
+     * was logged into, if any. It is tried before the password.
+     */
+    autologin?: string,
+    /**
+     * The tags used to select groups of nations for a run, if any.
+     */
+    tags?: string[]
+}
+
+/**
+ * Asks the user to confirm each restore, as required by the NationStates
+ * script rules for actions that affect parts of NationStates other than the
+ * user's own nation.
+ */
+export interface RestoreConfirmation {
+    /**
+     * Waits for the user to confirm or decline restoring a nation.
+     *
+     * @param credential The name and password of the nation.
+     * @param notBefore The time, in milliseconds since the epoch, before
+     *                  which the restore form cannot be submitted because of
+     *                  the rate limit. A restore confirmed earlier is
+     *                  submitted once this time has passed.
+     *
+     * @return Whether the user confirmed the restore. If not, the nation is
+     *         skipped and the run continues.
+     */
+    confirm(credential: Credential, notBefore: number): Promise<boolean>;
+}
+
+/**
+ * Receives progress events from runs.
+ */
+export interface RunListener {
+    /**
+     * Called when a run starts and whenever a per-nation result changes.
+     *
+     * @param results The per-nation results of the run.
+     */
+    onProgress(results: Result[]): void;
+
+    /**
+     * Called whenever a nation snapshot is taken.
+     *
+     * @param snapshots The snapshots taken during the run.
+     */
+    onSnapshot(snapshots: Snapshot[]): void;
+
+    /**
+     * Called when NationStates issues an autologin token for a nation, so
+     * that it can be stored and used in later runs.
+     *
+     * @param nation The name of the nation.
+     * @param autologin The autologin token.
+     */
+    onAutologin(nation: string, autologin: string): void;
+
+    /**
+     * Called when a run finishes or is cancelled.
+     *
+     * @param results The per-nation results of the run.
+     * @param cancelled Whether the run was cancelled.
+     */
+    onFinish(results: Result[], cancelled: boolean): void;
+}
+
+/**
+ * Represents the verified outcome of restoring a nation.
+ */
+enum RestoreOutcome {
+    Restored,
+    AlreadyExisted,
+    /**
+     * The response to the restore form said that the password was wrong or
+     * that the nation cannot be restored.
+     */
+    NotRestorable,
+    /**
+     * The restore form was submitted, but the nation did not appear in the
+     * API before the verification timeout. Unless the response to the form
+     * said otherwise, the password may have been wrong.
+     */
+    TimedOut,
+    /**
+     * The restore form was submitted, but the run was cancelled before the
+     * restore could be verified.
+     */
+    Cancelled,
+    Deferred,
+    /**
+     * The nation needs to be restored, but only has an autologin token,
+     * which cannot be used to restore it.
+     */
+    NoPassword
+}
+
+/**
+ * Represents the parameters of a run.
+ */
+export interface RunParameters {
+    /**
+     * The user agent specified by the user.
+     */
+    userAgent: string,
+    /**
+     * The minimum number of milliseconds between requests to NationStates.
+     */
+    rateLimit: number,
+    mode: Mode,
+    retryPolicy: RetryPolicy,
+    /**
+     * In smart mode, nations with more than this many days left before they
+     * cease to exist are skipped.
+     */
+    smartThresholdDays: number,
+    /**
+     * Whether to mark nations that need restoring as deferred instead of
+     * waiting for the user to confirm each restore. Used by scheduled runs,
+     * which may start while nobody is watching.
+     */
+    deferRestores?: boolean,
+    /**
+     * The names of the nation shards to record in a snapshot after each
+     * successful login or restore. No snapshots are taken if this is empty
+     * or missing.
+     */
+    snapshotShards?: string[]
 }
 
 /**
  * Contains the main application logic.
  */
 export default class App {
+    /**
+     * The number of days of inactivity after which a nation ceases to
+     * exist.
+     */
+    public static readonly InactivityDays = 28;
+    /**
+     * The maximum time to wait for a restored nation to appear in the API.
+     */
+    private static readonly RestoreVerifyTimeoutMillis = 30000;
+    /**
+     * The time between checks for a restored nation in the API.
+     */
+    private static readonly RestoreVerifyIntervalMillis = 2000;
+
+    private readonly _logger: Logger;
+    private readonly _confirmation: RestoreConfirmation;
+    private readonly _backendFactory: BackendFactory;
+    private readonly _listener: RunListener;
+    private readonly _rateLimiter = new RateLimiter(
+        RateLimiter.MinIntervalMillis);
+    private readonly _progress = new ProgressTracker();
     private _cancel: boolean;
     private _pause: boolean;
-    private _userAgent: string;
+    private _results: Result[] = [];
+    private _snapshots: Snapshot[] = [];
+    /**
+     * The IDs of the nations in the current run known to need restoring.
+     */
+    private _restoresNeeded: {[id: string]: boolean} = {};
+    private _retryPolicy: RetryPolicy = Retry.DefaultPolicy;
+    private _parameters: RunParameters;
+    private _startIndex = 0;
+    private _startedAt = 0;
+    private _running = false;
 
     /**
      * Initializes a new instance of the App class.
+     *
+     * @param logger The logger used to report progress.
+     * @param confirmation Asks the user to confirm each restore.
+     * @param backendFactory Creates the backend used for each run.
+     * @param listener Receives progress events.
      */
-    constructor() {
+    constructor(logger: Logger, confirmation: RestoreConfirmation,
+                backendFactory: BackendFactory, listener: RunListener)
+    {
+        this._logger = logger;
+        this._confirmation = confirmation;
+        this._backendFactory = backendFactory;
+        this._listener = listener;
         this.reset();
     }
 
@@ -57,11 +242,11 @@ export default class App {
      *
      * @return The converted name.
      */
-    private static toId(name: string) {
-        return name.replace("_", " ")
+    public static toId(name: string) {
+        return name.replace(/_/g, " ")
                    .trim()
                    .toLowerCase()
-                   .replace(" ", "_");
+                   .replace(/ +/g, "_");
     }
 
     /**
@@ -76,78 +261,248 @@ export default class App {
         return new Promise(resolve => setTimeout(resolve, ms));
     }
 
+    /**
+     * Gets a short, human-readable reason from an error.
+     *
+     * @param err The error.
+     *
+     * @return The reason.
+     */
+    private static getReason(err: any): string {
+        if (err instanceof Error) {
+            return err.message;
+        } else if (err === undefined) {
+            return I18n.t("app.unknownError");
+        }
+        return String(err);
+    }
+
+    /**
+     * Estimates the time taken to process each nation before any have been
+     * processed, from the number of requests usually made for each nation
+     * in the specified mode and the time between them.
+     *
+     * @param parameters The parameters of the run.
+     *
+     * @return The estimated time per nation in milliseconds.
+     */
+    private static estimateNationMillis(parameters: RunParameters): number {
+        const interval = Math.max(RateLimiter.MinIntervalMillis,
+                                  parameters.rateLimit);
+        // Logging in pings the nation and then checks its last login;
+        // restoring checks whether the nation exists, submits the form and
+        // waits for the restored nation to appear
+        const login = 2 * interval;
+        const restore = interval + RateLimiter.FormIntervalMillis
+                        + App.RestoreVerifyIntervalMillis;
+        let millis: number;
+        switch (parameters.mode) {
+            case Mode.Login:
+                millis = login;
+                break;
+            case Mode.Restore:
+                millis = restore;
+                break;
+            default:
+                // Most nations still exist, so only need logging into after
+                // checking whether they exist or when they were last logged
+                // into
+                millis = interval + login;
+                break;
+        }
+        const shards = parameters.snapshotShards;
+        if (shards !== undefined && shards.length > 0) {
+            millis += interval;
+        }
+        return millis;
+    }
+
+    /**
+     * Describes the number of attempts recorded in a result, if more than
+     * one.
+     *
+     * @param result The result record.
+     *
+     * @return A description of the number of attempts, or an empty string.
+     */
+    private static formatAttempts(result: Result): string {
+        return result.attempts > 1
+            ? I18n.t("app.afterAttempts", {attempts: result.attempts}) : "";
+    }
+
     /**
      * Logs into or restores the nations given by the specified credentials,
      * depending on the mode specified.
      *
-     * @param userAgent The user agent specified by the user.
-     * @param rateLimit The rate limit to be used by the API.
-     * @param mode The operating mode of the application.
+     * @param parameters The parameters of the run.
      * @param credentials The names and passwords of the nations to log into or
      *                    restore.
-     * @param verbose Whether or not to print out detailed error messages.
+     * @param checkpoint The checkpoint of an interrupted run to resume, if
+     *                   any. The credentials must be in the same order as the
+     *                   nations in the checkpoint.
      */
-    public async start(userAgent: string, rateLimit: number, mode: Mode,
+    public async start(parameters: RunParameters,
                        credentials: Credential[],
-                       verbose: boolean): Promise<void>
+                       checkpoint: Checkpoint | null = null): Promise<void>
     {
         this.reset();
+        this._running = true;
+        this._results = [];
+        let failed = false;
+        try {
+            await this.run(parameters, credentials, checkpoint);
+        } catch (err) {
+            failed = true;
+            this._logger.error(I18n.t("app.runFailed",
+                                      {reason: App.getReason(err)}));
+            this._logger.debug(util.inspect(err));
+            throw err;
+        } finally {
+            // The listener is always notified, even if the run failed, so
+            // that the UI is not left waiting for a run that has stopped
+            const reason = this._cancel ? I18n.t("app.cancelled")
+                : failed ? I18n.t("app.stoppedByError")
+                : I18n.t("app.notProcessed");
+            for (const result of this._results) {
+                if (result.outcome === Outcome.Pending) {
+                    Results.update(result, result.action, Outcome.Skipped,
+                                   reason);
+                }
+            }
+            this._progress.finish();
+            this._running = false;
+            this.notifyProgress();
+            this._listener.onFinish(this._results, this._cancel);
+        }
+    }
 
-        this._userAgent = `nslogin-web (maintained by Auralia, currently`
-                          + ` used by "${userAgent}")`;
+    /**
+     * Returns whether a run is in progress.
+     *
+     * @return Whether a run is in progress.
+     */
+    public isRunning() {
+        return this._running;
+    }
+
+    /**
+     * Gets the per-nation results of the current or most recent run.
+     *
+     * @return The per-nation results.
+     */
+    public getResults(): Result[] {
+        return this._results;
+    }
+
+    /**
+     * Gets the nations in the current run that are known to need restoring
+     * and have not been processed yet, in the order they will be processed.
+     * In auto mode, and in smart mode for nations that could not be
+     * checked, a nation is only known to need restoring once it is reached.
+     *
+     * @return The names of the nations.
+     */
+    public getPendingRestores(): string[] {
+        return this._results.filter(
+            result => result.outcome === Outcome.Pending
+                      && this._restoresNeeded.hasOwnProperty(
+                          App.toId(result.nation)))
+            .map(result => result.nation);
+    }
 
-        const api = new NsApi(userAgent, true, rateLimit);
+    /**
+     * Gets the nation snapshots taken during the current or most recent
+     * run.
+     *
+     * @return The snapshots.
+     */
+    public getSnapshots(): Snapshot[] {
+        return this._snapshots;
+    }
 
+    /**
+     * Gets the names of the nations in the specified region.
+     *
+     * @param userAgent The user agent specified by the user.
+     * @param rateLimit The minimum number of milliseconds between requests.
+     * @param region The name of the region.
+     *
+     * @return The IDs of the nations in the region.
+     */
+    public async getRegionNations(userAgent: string, rateLimit: number,
+                                  region: string): Promise<string[]>
+    {
+        const backend = this.createBackend(userAgent, rateLimit);
         try {
-            if (mode === Mode.Auto) {
-                Ui.log("info", "Auto mode");
-                await this.auto(api, credentials, verbose);
-            } else if (mode === Mode.Login) {
-                Ui.log("info", "Login mode");
-                await this.loginNations(api, credentials, verbose);
-            } else if (mode === Mode.Restore) {
-                Ui.log("info", "Restore mode");
-                await this.restoreNations(api, credentials, verbose);
-            } else {
-                throw new Error("Unrecognized mode");
-            }
+            return await backend.getRegionNations(region);
         } finally {
-            api.cleanup();
+            backend.cleanup();
         }
+    }
 
-        if (this._cancel) {
-            Ui.log("info", "Process cancelled.");
-        } else {
-            Ui.log("info", "Process complete.");
-        }
-        await this.waitUntilUnpaused();
+    /**
+     * Gets the parameters of the current or most recent run.
+     *
+     * @return The parameters of the run.
+     */
+    public getParameters(): RunParameters {
+        return this._parameters;
+    }
 
-        Ui.handleFinish();
+    /**
+     * Gets the time at which the current or most recent run started. For a
+     * resumed run, this is when the interrupted run started.
+     *
+     * @return The start time in milliseconds since the epoch.
+     */
+    public getStartedAt(): number {
+        return this._startedAt;
+    }
+
+    /**
+     * Gets the progress of the current or most recent run.
+     *
+     * @return The progress of the run.
+     */
+    public getProgress(): RunProgress {
+        return this._progress.getProgress(this._results);
+    }
+
+    /**
+     * Gets the rate limiter that paces all requests made by the app.
+     *
+     * @return The rate limiter.
+     */
+    public getRateLimiter(): RateLimiter {
+        return this._rateLimiter;
     }
 
     /**
      * Cancels the current activity being performed by the app.
      */
     public cancel() {
-        Ui.log("info", "Cancelling...");
+        this._logger.info(I18n.t("app.cancelling"));
         this._cancel = true;
         this._pause = false;
+        this._progress.setPaused(false);
     }
 
     /**
      * Pauses the current activity.
      */
     public pause() {
-        Ui.log("info", "Pausing...");
+        this._logger.info(I18n.t("app.pausing"));
         this._pause = true;
+        this._progress.setPaused(true);
     }
 
     /**
      * Resumes the current activity.
      */
     public unpause() {
-        Ui.log("info", "Unpausing...");
+        this._logger.info(I18n.t("app.unpausing"));
         this._pause = false;
+        this._progress.setPaused(false);
     }
 
     /**
@@ -159,6 +514,100 @@ export default class App {
         return this._pause;
     }
 
+    /**
+     * Creates a backend whose requests are paced by the app's rate limiter.
+     *
+     * @param userAgent The user agent specified by the user.
+     * @param rateLimit The minimum number of milliseconds between requests.
+     *
+     * @return The backend.
+     */
+    private createBackend(userAgent: string, rateLimit: number): Backend {
+        this._rateLimiter.setInterval(rateLimit);
+        return new RateLimitedBackend(this._backendFactory(userAgent),
+                                      this._rateLimiter);
+    }
+
+    /**
+     * Performs a run. The results are kept up to date as each nation is
+     * processed.
+     *
+     * @param parameters The parameters of the run.
+     * @param credentials The names and passwords of the nations.
+     * @param checkpoint The checkpoint of an interrupted run to resume, if
+     *                   any.
+     */
+    private async run(parameters: RunParameters, credentials: Credential[],
+                      checkpoint: Checkpoint | null): Promise<void>
+    {
+        this._parameters = parameters;
+        this._retryPolicy = parameters.retryPolicy;
+
+        const {userAgent, rateLimit, mode} = parameters;
+        const backend = this.createBackend(userAgent, rateLimit);
+
+        const action = mode === Mode.Login ? Action.Login
+            : mode === Mode.Restore ? Action.Restore : Action.None;
+        this._results = credentials.map(
+            credential => Results.create(credential.nation, action));
+        this._restoresNeeded = {};
+        if (mode === Mode.Restore) {
+            for (const credential of credentials) {
+                this._restoresNeeded[App.toId(credential.nation)] = true;
+            }
+        }
+        this._snapshots = [];
+        this._startIndex = 0;
+        this._startedAt = Date.now();
+        if (checkpoint !== null) {
+            this._startIndex = checkpoint.index;
+            this._startedAt = checkpoint.startedAt;
+            for (let i = 0; i < checkpoint.results.length; i++) {
+                this._results[i] = checkpoint.results[i];
+            }
+            this._snapshots = checkpoint.snapshots || [];
+            this._logger.info(I18n.t("app.resuming", {
+                index: checkpoint.index + 1,
+                total: credentials.length
+            }));
+        }
+        this._progress.start(this._results,
+                             App.estimateNationMillis(parameters));
+        this.notifyProgress();
+        this._listener.onSnapshot(this._snapshots);
+
+        try {
+            if (mode === Mode.Auto) {
+                this._logger.info(I18n.t("app.autoMode"));
+                await this.auto(backend, credentials);
+            } else if (mode === Mode.Login) {
+                this._logger.info(I18n.t("app.loginMode"));
+                await this.loginNations(backend, credentials);
+            } else if (mode === Mode.Restore) {
+                this._logger.info(I18n.t("app.restoreMode"));
+                await this.restoreNations(backend, credentials);
+            } else if (mode === Mode.Smart) {
+                this._logger.info(I18n.t("app.smartMode"));
+                await this.smart(backend, credentials,
+                                 parameters.smartThresholdDays);
+            } else {
+                throw new Error("Unrecognized mode");
+            }
+        } finally {
+            backend.cleanup();
+        }
+
+        Checkpoints.clear();
+
+        if (this._cancel) {
+            this._logger.info(I18n.t("app.processCancelled"));
+        } else {
+            this._logger.info(I18n.t("app.processComplete"));
+        }
+        await this.waitUntilUnpaused();
+    }
+
+
     /**
      * Resets the app.
      */
@@ -171,157 +620,563 @@ export default class App {
      * Logs into or restores the nations given by the specified credentials
      * depending on whether they currently exist.
      *
-     * @param api The NsApi instance to use.
+     * @param backend The backend to use.
      * @param credentials The names and passwords of the nations to log into or
      *                    restore.
-     * @param verbose Whether or not to print out detailed error messages.
      */
-    private async auto(api: NsApi, credentials: Credential[],
-                       verbose: boolean): Promise<void> {
-        for (const credential of credentials) {
-            if (this._cancel) {
-                break;
-            }
-            await this.waitUntilUnpaused();
-            let login = true;
-            try {
-                Ui.log("info", `${credential.nation}: Nation exists`);
-                await api.nationRequest(credential.nation, ["name"]);
-            } catch (_) {
-                Ui.log("info",
-                       `${credential.nation}: Nation does not exist`);
-                login = false;
-            }
-            if (login) {
-                await this.loginNations(api, [credential], verbose);
-            } else {
-                await this.restoreNations(api, [credential], verbose);
+    private async auto(backend: Backend,
+                       credentials: Credential[]): Promise<void> {
+        await this.forEachNation(
+            credentials,
+            (credential, result) => this.autoNation(backend, credential,
+                                                    result));
+    }
+
+    /**
+     * Logs into or restores the nation given by the specified credential
+     * depending on whether it currently exists.
+     *
+     * @param backend The backend to use.
+     * @param credential The name and password of the nation.
+     * @param result The result record for the nation.
+     */
+    private async autoNation(backend: Backend, credential: Credential,
+                             result: Result): Promise<void>
+    {
+        let exists: boolean | null = null;
+        try {
+            exists = await backend.nationExists(credential.nation);
+        } catch (_) {
+            // Restoring will check again whether the nation exists
+        }
+        if (exists) {
+            this._logger.info(I18n.t("app.nationExists",
+                                     {nation: credential.nation}));
+            await this.loginNation(backend, credential, result);
+        } else {
+            if (exists === false) {
+                this._logger.info(I18n.t("app.nationDoesNotExist",
+                                         {nation: credential.nation}));
             }
+            await this.restoreNation(backend, credential, result);
         }
     }
 
     /**
-     * Logs into the nations given by the specified credentials.
+     * Logs into or restores only those nations given by the specified
+     * credentials that are close to ceasing to exist, or have already
+     * ceased to exist, in order of nearest expiry.
      *
-     * @param api The NsApi instance to use.
+     * @param backend The backend to use.
      * @param credentials The names and passwords of the nations to log into or
      *                    restore.
-     * @param verbose Whether or not to print out detailed error messages.
+     * @param thresholdDays Nations with more than this many days left are
+     *                      skipped.
      */
-    private async loginNations(api: NsApi,
-                               credentials: Credential[],
-                               verbose: boolean): Promise<void> {
-        for (const credential of credentials) {
-            if (this._cancel) {
-                break;
-            }
-            await this.waitUntilUnpaused();
-            try {
-                Ui.log("info", `${credential.nation}: Logging in...`);
-                await api.nationRequest(credential.nation,
-                                        ["ping"],
-                                        {},
-                                        {password: credential.password},
-                                        true);
-                const data = await api.nationRequest(credential.nation,
-                                                     ["lastlogin"]);
-                const now = Date.now() / 1000;
-                const lastLogin = parseInt(data["lastlogin"], 10);
-                if (now - lastLogin > 30) {
-                    Ui.log("error", `${credential.nation}: Login failed`);
-                    if (verbose) {
-                        Ui.log("error", "More than 30 seconds between now"
-                                        + " and last login");
+    private async smart(backend: Backend, credentials: Credential[],
+                        thresholdDays: number): Promise<void>
+    {
+        const exists: {[id: string]: boolean} = {};
+
+        // When resuming, the nations were already sorted and the ones that
+        // do not need processing were already skipped
+        if (this._startIndex === 0) {
+            const daysLeft: number[] = [];
+            for (let i = 0; i < credentials.length; i++) {
+                if (this._cancel) {
+                    return;
+                }
+                await this.waitUntilUnpaused();
+                const nation = credentials[i].nation;
+                const id = App.toId(nation);
+                try {
+                    const lastLogin = await backend.getLastLogin(nation);
+                    daysLeft[i] = App.InactivityDays
+                                  - (Date.now() / 1000 - lastLogin) / 86400;
+                    exists[id] = true;
+                    this._logger.info(I18n.t("app.daysLeft", {
+                        nation,
+                        days: daysLeft[i].toFixed(1)
+                    }));
+                } catch (err) {
+                    // Treat nations that do not exist or could not be
+                    // checked as the most urgent
+                    daysLeft[i] = -Infinity;
+                    if (Retry.getStatusCode(err) === 404) {
+                        exists[id] = false;
+                        this._restoresNeeded[id] = true;
+                        this._logger.info(I18n.t("app.nationDoesNotExist",
+                                                 {nation}));
+                    } else {
+                        this._logger.warn(I18n.t("app.lastLoginFailed",
+                                                 {nation}));
+                        this._logger.debug(util.inspect(err));
                     }
-                } else {
-                    Ui.log("info", `${credential.nation}: Login successful`
-                                   + ` (or nation was logged into in the`
-                                   + ` last 30 seconds)`);
                 }
-            } catch (err) {
-                Ui.log("error", `${credential.nation}: Login failed`);
-                if (verbose) {
-                    Ui.log("error", util.inspect(err));
+            }
+
+            const order = credentials.map((_, i) => i);
+            order.sort((a, b) => {
+                const skipA = daysLeft[a] > thresholdDays;
+                const skipB = daysLeft[b] > thresholdDays;
+                if (skipA !== skipB) {
+                    return skipA ? 1 : -1;
+                }
+                // Array.prototype.sort is not guaranteed to be stable
+                return daysLeft[a] - daysLeft[b] || a - b;
+            });
+            const results = this._results;
+            credentials = order.map(i => credentials[i]);
+            this._results = order.map(i => results[i]);
+            for (let i = 0; i < order.length; i++) {
+                const days = daysLeft[order[i]];
+                if (days > thresholdDays) {
+                    Results.update(this._results[i], Action.None,
+                                   Outcome.Skipped,
+                                   I18n.t("app.skippedDaysLeft",
+                                          {days: Math.floor(days)}));
                 }
             }
+            this.notifyProgress();
+            const skipped = order.filter(
+                i => daysLeft[i] > thresholdDays).length;
+            this._logger.info(I18n.t("app.smartSummary", {
+                count: credentials.length - skipped,
+                skipped
+            }));
+        }
+
+        await this.forEachNation(credentials, (credential, result) => {
+            const id = App.toId(credential.nation);
+            if (!exists.hasOwnProperty(id)) {
+                return this.autoNation(backend, credential, result);
+            } else if (exists[id]) {
+                return this.loginNation(backend, credential, result);
+            } else {
+                return this.restoreNation(backend, credential, result);
+            }
+        });
+    }
+
+    /**
+     * Logs into the nations given by the specified credentials.
+     *
+     * @param backend The backend to use.
+     * @param credentials The names and passwords of the nations to log into or
+     *                    restore.
+     */
+    private async loginNations(backend: Backend,
+                               credentials: Credential[]): Promise<void> {
+        await this.forEachNation(
+            credentials,
+            (credential, result) => this.loginNation(backend, credential,
+                                                     result));
+    }
+
+    /**
+     * Logs into the nation given by the specified credential.
+     *
+     * @param backend The backend to use.
+     * @param credential The name and password of the nation to log into.
+     * @param result The result record for the nation.
+     */
+    private async loginNation(backend: Backend, credential: Credential,
+                              result: Result): Promise<void>
+    {
+        this._logger.info(I18n.t("app.loggingIn",
+                                 {nation: credential.nation}));
+        try {
+            const lastLogin = await this.retry(
+                credential, result, Action.Login, async () => {
+                    await this.authenticate(backend, credential);
+                    return backend.getLastLogin(credential.nation);
+                });
+            const now = Date.now() / 1000;
+            if (now - lastLogin > 30) {
+                const reason = I18n.t("app.lastLoginTooOld");
+                this._logger.error(I18n.t("app.loginFailed",
+                                          {nation: credential.nation})
+                                   + App.formatAttempts(result));
+                this._logger.debug(reason);
+                this.updateResult(result, Action.Login, Outcome.Failure,
+                                  reason);
+            } else {
+                this._logger.info(I18n.t("app.loginSuccessful",
+                                         {nation: credential.nation})
+                                  + App.formatAttempts(result));
+                this.updateResult(result, Action.Login, Outcome.Success);
+                await this.takeSnapshot(backend, credential);
+            }
+        } catch (err) {
+            this._logger.error(I18n.t("app.loginFailed",
+                                      {nation: credential.nation})
+                               + App.formatAttempts(result));
+            this._logger.debug(util.inspect(err));
+            this.updateResult(result, Action.Login, Outcome.Failure,
+                              App.getReason(err));
         }
     }
 
     /**
      * Restores the nations given by the specified credentials.
      *
-     * @param api The NsApi instance to use.
+     * @param backend The backend to use.
      * @param credentials The names and passwords of the nations to log into or
      *                    restore.
-     * @param verbose Whether or not to print out detailed error messages.
      */
-    private async restoreNations(api: NsApi,
-                                 credentials: Credential[],
-                                 verbose: boolean): Promise<void> {
-        for (const credential of credentials) {
+    private async restoreNations(backend: Backend,
+                                 credentials: Credential[]): Promise<void> {
+        await this.forEachNation(
+            credentials,
+            (credential, result) => this.restoreNation(backend, credential,
+                                                       result));
+    }
+
+    /**
+     * Processes each nation that has not yet been processed in the current
+     * run in turn, stopping if the app is cancelled and waiting while it is
+     * paused. A checkpoint is saved after each nation.
+     *
+     * @param credentials The names and passwords of the nations.
+     * @param process Processes a single nation.
+     */
+    private async forEachNation(
+        credentials: Credential[],
+        process: (credential: Credential, result: Result) => Promise<void>)
+        : Promise<void>
+    {
+        for (let i = this._startIndex; i < credentials.length; i++) {
             if (this._cancel) {
                 break;
             }
             await this.waitUntilUnpaused();
-            Ui.log("info", `${credential.nation}: Waiting for confirmation...`);
-            await Ui.confirm();
-            Ui.log("info", `${credential.nation}: Confirmation received,`
-                           + ` restoring...`);
+            if (this._results[i].outcome === Outcome.Pending) {
+                await process(credentials[i], this._results[i]);
+            }
+            Checkpoints.save({
+                parameters: this._parameters,
+                nations: credentials.map(credential => credential.nation),
+                index: i + 1,
+                results: this._results,
+                snapshots: this._snapshots,
+                startedAt: this._startedAt,
+                savedAt: Date.now()
+            });
+        }
+    }
+
+    /**
+     * Logs into a nation using its autologin token, if it has one, or
+     * otherwise its password. If the token is rejected, for example because
+     * the password was changed, the password is tried instead. Any new
+     * autologin token issued by NationStates is kept for later attempts and
+     * passed to the listener.
+     *
+     * @param backend The backend to use.
+     * @param credential The name, password and autologin token of the
+     *                   nation.
+     */
+    private async authenticate(backend: Backend,
+                               credential: Credential): Promise<void>
+    {
+        let autologin: string | null = null;
+        if (credential.autologin !== undefined) {
             try {
-                await this.restoreRequest(credential);
-                await api.nationRequest(credential.nation,
-                                        ["name"]);
-                Ui.log("info", `${credential.nation}: Restore successful (or`
-                               + ` nation already existed)`);
+                autologin = await backend.ping(credential, true);
             } catch (err) {
-                Ui.log("error",
-                       `${credential.nation}: Restore failed`);
-                if (verbose) {
-                    Ui.log("error", util.inspect(err));
+                if (Retry.getStatusCode(err) !== 403
+                    || credential.password === "")
+                {
+                    throw err;
                 }
+                this._logger.warn(I18n.t("app.autologinRejected",
+                                         {nation: credential.nation}));
+                delete credential.autologin;
             }
         }
+        if (credential.autologin === undefined) {
+            autologin = await backend.ping(credential, false);
+        }
+        if (autologin !== null && autologin !== credential.autologin) {
+            credential.autologin = autologin;
+            this._listener.onAutologin(credential.nation, autologin);
+        }
     }
 
     /**
-     * Restores the specified nation using a hidden form. Waits 6 seconds
-     * after doing so in order to confirm to NationStates rate limits.
+     * Restores the nation given by the specified credential.
      *
+     * @param backend The backend to use.
      * @param credential The name and password of the nation to restore.
+     * @param result The result record for the nation.
      */
-    private restoreRequest(credential: Credential): Promise<void> {
-        return new Promise<void>((resolve, reject) => {
-            let resolved = false;
-
-            const iframe = $("#iframe");
-            iframe.off("load");
-            iframe.on("load", () => {
-                iframe.off("load");
-                iframe.contents().find("#restoreUserAgent").val(
-                    this._userAgent);
-                iframe.contents().find("#restoreLoggingIn").val(
-                    "1");
-                iframe.contents().find("#restoreNation").val(
-                    App.toId(credential.nation));
-                iframe.contents().find("#restoreRestoreNation").val(
-                    " Restore " + App.toId(credential.nation) + " ");
-                iframe.contents().find("#restoreRestorePassword").val(
-                    credential.password);
-                iframe.contents().find("#restoreSubmit").click();
-
-                setTimeout(() => {
-                    resolved = true;
-                    resolve();
-                }, 6000);
-            });
-            iframe.attr({src: "iframe.html"});
+    private async restoreNation(backend: Backend, credential: Credential,
+                                result: Result): Promise<void>
+    {
+        this._restoresNeeded[App.toId(credential.nation)] = true;
+        // Once the restore form has been submitted, retries only repeat the
+        // verification, so that a restored nation is not mistaken for one
+        // that already existed and the user is not asked to confirm again
+        let submitted = false;
+        try {
+            const outcome = await this.retry(
+                credential, result, Action.Restore, async () => {
+                    if (submitted) {
+                        return this.verifyRestore(backend, credential);
+                    }
+                    if (await backend.nationExists(credential.nation)) {
+                        return RestoreOutcome.AlreadyExisted;
+                    }
+                    if (credential.password === "") {
+                        return RestoreOutcome.NoPassword;
+                    }
+                    if (this._parameters.deferRestores) {
+                        return RestoreOutcome.Deferred;
+                    }
+                    // Each attempt submits the restore form again, so each
+                    // one needs its own confirmation
+                    this._logger.info(I18n.t("app.waitingForConfirmation",
+                                             {nation: credential.nation}));
+                    if (!await this.confirmRestore(credential)) {
+                        return RestoreOutcome.Deferred;
+                    }
+                    this._logger.info(I18n.t("app.confirmationReceived",
+                                             {nation: credential.nation}));
+                    await this.sleepUnlessCancelled(
+                        this._rateLimiter.getNextAllowed(RequestKind.Form)
+                        - Date.now());
+                    if (this._cancel) {
+                        return RestoreOutcome.Deferred;
+                    }
+                    const response = await backend.submitRestore(credential);
+                    if (response === RestoreResponse.Rejected) {
+                        return RestoreOutcome.NotRestorable;
+                    }
+                    submitted = true;
+                    return this.verifyRestore(backend, credential);
+                });
+            switch (outcome) {
+                case RestoreOutcome.Restored:
+                    this._logger.info(I18n.t("app.restoreSuccessful",
+                                             {nation: credential.nation})
+                                      + App.formatAttempts(result));
+                    this.updateResult(result, Action.Restore, Outcome.Success,
+                                      I18n.t("app.restored"));
+                    await this.takeSnapshot(backend, credential);
+                    break;
+                case RestoreOutcome.AlreadyExisted:
+                    this._logger.info(I18n.t("app.alreadyExists",
+                                             {nation: credential.nation}));
+                    this.updateResult(result, Action.Restore, Outcome.Success,
+                                      I18n.t("app.alreadyExisted"));
+                    break;
+                case RestoreOutcome.NotRestorable:
+                    this._logger.error(I18n.t("app.restoreFailed",
+                                              {nation: credential.nation})
+                                       + App.formatAttempts(result));
+                    this.updateResult(result, Action.Restore, Outcome.Failure,
+                                      I18n.t("app.notRestorable"));
+                    break;
+                case RestoreOutcome.TimedOut:
+                    this._logger.warn(I18n.t("app.restoreUnverified",
+                                             {nation: credential.nation})
+                                      + App.formatAttempts(result));
+                    this.updateResult(result, Action.Restore, Outcome.Unknown,
+                                      I18n.t("app.verifyTimedOut"));
+                    break;
+                case RestoreOutcome.Cancelled:
+                    this._logger.warn(I18n.t("app.restoreUnverified",
+                                             {nation: credential.nation})
+                                      + App.formatAttempts(result));
+                    this.updateResult(result, Action.Restore, Outcome.Unknown,
+                                      I18n.t("app.verifyCancelled"));
+                    break;
+                case RestoreOutcome.Deferred:
+                    this._logger.warn(I18n.t("app.restoreDeferred",
+                                             {nation: credential.nation}));
+                    this.updateResult(result, Action.Restore,
+                                      Outcome.Deferred,
+                                      I18n.t("app.restoreNeeded"));
+                    break;
+                case RestoreOutcome.NoPassword:
+                    this._logger.error(I18n.t("app.restoreNoPassword",
+                                              {nation: credential.nation}));
+                    this.updateResult(result, Action.Restore, Outcome.Failure,
+                                      I18n.t("app.passwordRequired"));
+                    break;
+            }
+        } catch (err) {
+            this._logger.error(
+                I18n.t("app.restoreUnknown", {nation: credential.nation})
+                + App.formatAttempts(result));
+            this._logger.debug(util.inspect(err));
+            this.updateResult(result, Action.Restore, Outcome.Failure,
+                              I18n.t("app.unknownReason",
+                                     {reason: App.getReason(err)}));
+        }
+    }
+
+    /**
+     * Records a snapshot of the specified nation's shards, if snapshots are
+     * enabled for the run. A failed snapshot is recorded as such and does
+     * not affect the outcome for the nation.
+     *
+     * @param backend The backend to use.
+     * @param credential The name and password of the nation.
+     */
+    private async takeSnapshot(backend: Backend,
+                               credential: Credential): Promise<void>
+    {
+        const names = this._parameters.snapshotShards || [];
+        const shards = Snapshots.getShards(names);
+        if (shards.length === 0) {
+            return;
+        }
+        let snapshot: Snapshot;
+        try {
+            const data = await backend.getNationShards(
+                credential, shards.map(shard => shard.shard),
+                shards.some(shard => shard.private));
+            snapshot = Snapshots.create(credential.nation, names, data);
+        } catch (err) {
+            this._logger.warn(I18n.t("app.snapshotFailed",
+                                     {nation: credential.nation}));
+            this._logger.debug(util.inspect(err));
+            snapshot = Snapshots.createFailed(credential.nation,
+                                              App.getReason(err));
+        }
+        this._snapshots.push(snapshot);
+        this._listener.onSnapshot(this._snapshots);
+    }
+
+    /**
+     * Polls the API after a restore form submission until the nation
+     * exists or the verification timeout passes.
+     *
+     * @param backend The backend to use.
+     * @param credential The name and password of the restored nation.
+     *
+     * @return Restored if the nation appeared in the API, TimedOut if it did
+     *         not appear before the timeout, or Cancelled if the run was
+     *         cancelled first.
+     */
+    private async verifyRestore(backend: Backend,
+                                credential: Credential): Promise<RestoreOutcome>
+    {
+        const deadline = Date.now() + App.RestoreVerifyTimeoutMillis;
+        while (true) {
+            if (await backend.nationExists(credential.nation)) {
+                return RestoreOutcome.Restored;
+            }
+            if (this._cancel) {
+                return RestoreOutcome.Cancelled;
+            }
+            if (Date.now() >= deadline) {
+                return RestoreOutcome.TimedOut;
+            }
+            await App.sleep(App.RestoreVerifyIntervalMillis);
+        }
+    }
 
-            setTimeout(() => {
-                if (!resolved) {
-                    reject();
+    /**
+     * Performs an action for a nation, retrying it according to the current
+     * retry policy if it fails with a transient error. The number of
+     * attempts made is recorded in the nation's result record.
+     *
+     * @param credential The name and password of the nation.
+     * @param result The result record for the nation.
+     * @param action The action being performed.
+     * @param attempt Performs a single attempt.
+     *
+     * @return The value returned by the successful attempt.
+     */
+    private async retry<T>(credential: Credential, result: Result,
+                           action: Action,
+                           attempt: () => Promise<T>): Promise<T>
+    {
+        const policy = this._retryPolicy;
+        for (let i = 1; ; i++) {
+            result.attempts = i;
+            try {
+                return await attempt();
+            } catch (err) {
+                if (i >= policy.maxAttempts || !Retry.isTransient(err)
+                    || this._cancel)
+                {
+                    throw err;
                 }
-            }, 15000);
-        });
+                const delay = Retry.getDelay(policy, i);
+                this._logger.warn(I18n.t("app.attemptFailed", {
+                    nation: credential.nation,
+                    action: I18n.t(`action.${Action[action]}`),
+                    attempt: i,
+                    maxAttempts: policy.maxAttempts,
+                    seconds: Math.round(delay / 1000)
+                }));
+                this._logger.debug(util.inspect(err));
+                this.notifyProgress();
+                await this.sleepUnlessCancelled(delay);
+                await this.waitUntilUnpaused();
+                if (this._cancel) {
+                    throw err;
+                }
+            }
+        }
+    }
+
+    /**
+     * Asks the user to confirm restoring a nation. Time spent waiting for
+     * the user does not count towards the estimated time per nation.
+     *
+     * @param credential The name and password of the nation.
+     *
+     * @return Whether the user confirmed the restore.
+     */
+    private async confirmRestore(credential: Credential): Promise<boolean> {
+        this._progress.setWaiting(true);
+        try {
+            return await this._confirmation.confirm(
+                credential,
+                this._rateLimiter.getNextAllowed(RequestKind.Form));
+        } finally {
+            this._progress.setWaiting(false);
+        }
+    }
+
+    /**
+     * Records a change in the per-nation results and notifies the listener.
+     */
+    private notifyProgress(): void {
+        this._progress.update(this._results);
+        this._listener.onProgress(this._results);
+    }
+
+    /**
+     * Updates the result record for a nation and shows it in the UI.
+     *
+     * @param result The result record to update.
+     * @param action The action taken for the nation.
+     * @param outcome The outcome of the action.
+     * @param reason The reason for the outcome, if any.
+     */
+    private updateResult(result: Result, action: Action, outcome: Outcome,
+                         reason: string = ""): void
+    {
+        Results.update(result, action, outcome, reason);
+        this.notifyProgress();
+    }
+
+    /**
+     * Sleeps for the specified number of milliseconds, or until the app is
+     * cancelled.
+     *
+     * @param ms The number of milliseconds to sleep.
+     */
+    private async sleepUnlessCancelled(ms: number) {
+        const end = Date.now() + ms;
+        while (!this._cancel && Date.now() < end) {
+            await App.sleep(Math.min(1000, end - Date.now()));
+        }
     }
 
     /**
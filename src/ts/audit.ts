@@ -0,0 +1,247 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import App, {Credential} from "./app";
+import I18n from "./i18n";
+
+/**
+ * Represents the kind of problem found with a password during an audit.
+ */
+export enum FindingKind {
+    Empty,
+    SameAsName,
+    Reused,
+    Weak
+}
+
+/**
+ * Represents how urgently a password should be replaced, from least to most
+ * urgent.
+ */
+export enum FindingSeverity {
+    Low,
+    Medium,
+    High
+}
+
+/**
+ * Represents a problem found with a nation's password during an audit.
+ */
+export interface Finding {
+    nation: string,
+    kind: FindingKind,
+    severity: FindingSeverity,
+    message: string
+}
+
+/**
+ * Checks the passwords in a list of credentials for common weaknesses and
+ * generates strong replacement passwords. Everything is computed locally;
+ * passwords are never sent anywhere.
+ */
+export default class PasswordAudit {
+    /**
+     * Passwords shorter than this are weak.
+     */
+    public static readonly MinLength = 10;
+    /**
+     * Passwords shorter than this are weak with high severity.
+     */
+    public static readonly MinAcceptableLength = 6;
+    /**
+     * Passwords shared by at least this many nations are reused with high
+     * severity.
+     */
+    public static readonly HighReuseCount = 5;
+    /**
+     * The default length of generated passwords.
+     */
+    public static readonly DefaultGeneratedLength = 20;
+
+    /**
+     * The characters used in generated passwords. Only letters and digits
+     * are used so that generated passwords never need quoting in the
+     * credentials list.
+     */
+    private static readonly GeneratorAlphabet =
+        "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+    /**
+     * Passwords that are weak regardless of their length.
+     */
+    private static readonly CommonPasswords = [
+        "password", "password1", "password123", "passw0rd", "123456",
+        "12345678", "123456789", "1234567890", "qwerty", "qwertyuiop",
+        "abc123", "letmein", "welcome", "iloveyou", "admin", "monkey",
+        "dragon", "football", "baseball", "sunshine", "princess",
+        "nationstates", "puppet", "puppets"
+    ];
+
+    /**
+     * Audits the passwords in the specified credentials. Each nation is
+     * audited once; later entries for the same nation are ignored.
+     *
+     * @param credentials The credentials to audit.
+     *
+     * @return The problems found, ordered by nation and then by descending
+     *         severity.
+     */
+    public static audit(credentials: Credential[]): Finding[] {
+        const unique: Credential[] = [];
+        const seen: {[id: string]: boolean} = {};
+        const users: {[password: string]: string[]} = {};
+        for (const credential of credentials) {
+            const id = App.toId(credential.nation);
+            if (seen.hasOwnProperty(id)) {
+                continue;
+            }
+            seen[id] = true;
+            unique.push(credential);
+            if (credential.password !== "") {
+                if (!users.hasOwnProperty(credential.password)) {
+                    users[credential.password] = [];
+                }
+                users[credential.password].push(credential.nation);
+            }
+        }
+
+        const findings: Finding[] = [];
+        for (const credential of unique) {
+            const nationFindings = PasswordAudit.check(credential);
+            const others = users.hasOwnProperty(credential.password)
+                ? users[credential.password].filter(
+                    nation => nation !== credential.nation)
+                : [];
+            if (others.length > 0) {
+                nationFindings.push({
+                    nation: credential.nation,
+                    kind: FindingKind.Reused,
+                    severity: others.length + 1 >= PasswordAudit.HighReuseCount
+                        ? FindingSeverity.High : FindingSeverity.Medium,
+                    message: I18n.t(others.length === 1
+                                        ? "audit.sharedWithNation"
+                                        : "audit.sharedWithNations", {
+                        count: others.length,
+                        nations: others.slice(0, 5).join(", ")
+                                 + (others.length > 5 ? ", ..." : "")
+                    })
+                });
+            }
+            nationFindings.sort((a, b) => b.severity - a.severity);
+            findings.push(...nationFindings);
+        }
+        return findings;
+    }
+
+    /**
+     * Generates a random password using a cryptographically secure random
+     * number generator.
+     *
+     * @param length The length of the password.
+     *
+     * @return The password.
+     */
+    public static generate(
+        length: number = PasswordAudit.DefaultGeneratedLength): string
+    {
+        const alphabet = PasswordAudit.GeneratorAlphabet;
+        // Values at or above this limit are discarded so that every
+        // character is equally likely
+        const limit = 256 - 256 % alphabet.length;
+        let password = "";
+        while (password.length < length) {
+            const bytes = crypto.getRandomValues(new Uint8Array(length));
+            for (let i = 0; i < bytes.length && password.length < length;
+                 i++)
+            {
+                if (bytes[i] < limit) {
+                    password += alphabet.charAt(bytes[i] % alphabet.length);
+                }
+            }
+        }
+        return password;
+    }
+
+    /**
+     * Checks a single nation's password for problems that do not depend on
+     * the other nations.
+     *
+     * @param credential The name and password of the nation.
+     *
+     * @return The problems found.
+     */
+    private static check(credential: Credential): Finding[] {
+        const {nation, password} = credential;
+        const finding = (kind: FindingKind, severity: FindingSeverity,
+                         message: string): Finding =>
+            ({nation, kind, severity, message});
+
+        if (password === "") {
+            return [finding(FindingKind.Empty, FindingSeverity.High,
+                            I18n.t("audit.empty"))];
+        }
+
+        const findings: Finding[] = [];
+        const simplify = (text: string) => text.toLowerCase()
+                                               .replace(/[\s_\-]/g, "");
+        const simplePassword = simplify(password);
+        const simpleNation = simplify(nation);
+        if (simplePassword === simpleNation) {
+            findings.push(finding(FindingKind.SameAsName,
+                                  FindingSeverity.High,
+                                  I18n.t("audit.sameAsName")));
+        } else if (simpleNation.length >= 3
+                   && simplePassword.indexOf(simpleNation) !== -1)
+        {
+            findings.push(finding(FindingKind.SameAsName,
+                                  FindingSeverity.Medium,
+                                  I18n.t("audit.containsName")));
+        }
+
+        if (PasswordAudit.CommonPasswords.indexOf(simplePassword) !== -1) {
+            findings.push(finding(FindingKind.Weak, FindingSeverity.High,
+                                  I18n.t("audit.common")));
+        } else if (password.length < PasswordAudit.MinAcceptableLength) {
+            findings.push(finding(FindingKind.Weak, FindingSeverity.High,
+                                  I18n.t("audit.shorterThan", {
+                                      length: PasswordAudit.MinAcceptableLength
+                                  })));
+        } else if (/^(.)\1*$/.test(password)) {
+            findings.push(finding(FindingKind.Weak, FindingSeverity.High,
+                                  I18n.t("audit.repeated")));
+        } else if (password.length < PasswordAudit.MinLength) {
+            findings.push(finding(FindingKind.Weak, FindingSeverity.Medium,
+                                  I18n.t("audit.shorterThan", {
+                                      length: PasswordAudit.MinLength
+                                  })));
+        } else if (PasswordAudit.countCharacterClasses(password) === 1) {
+            findings.push(finding(FindingKind.Weak, FindingSeverity.Low,
+                                  I18n.t("audit.oneKind")));
+        }
+        return findings;
+    }
+
+    /**
+     * Counts the kinds of characters used in a password: lowercase letters,
+     * uppercase letters, digits and other characters.
+     *
+     * @param password The password.
+     *
+     * @return The number of kinds of characters used.
+     */
+    private static countCharacterClasses(password: string): number {
+        return [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/].filter(
+            pattern => pattern.test(password)).length;
+    }
+}
@@ -0,0 +1,159 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import PasswordAudit, {Finding, FindingKind, FindingSeverity} from "./audit";
+import AutologinTokens from "./autologin";
+import I18n from "./i18n";
+import CredentialParser from "./parser";
+import * as $ from "jquery";
+
+/**
+ * Contains the UI logic for the password audit and the password generator.
+ */
+export default class AuditView {
+    /**
+     * The shortest password the generator produces.
+     */
+    private static readonly MinGeneratedLength = 12;
+    /**
+     * The longest password the generator produces.
+     */
+    private static readonly MaxGeneratedLength = 64;
+
+    /**
+     * Initializes the password audit and generator.
+     */
+    public static init(): void {
+        $("#auditButton").on("click", () => AuditView.handleAudit());
+        $("#generatePasswordButton").on("click",
+                                        () => AuditView.handleGenerate());
+        $("#copyPasswordButton").on("click", () => AuditView.handleCopy());
+    }
+
+    /**
+     * Handler for the audit button. Audits the passwords in the credentials
+     * text box and shows the problems found, most severe first. Nations
+     * whose passwords were removed in favour of autologin tokens are not
+     * audited.
+     */
+    private static handleAudit(): void {
+        const credentials = CredentialParser.parse(
+            String($("#credentials").val())).credentials.filter(
+            credential => credential.password !== ""
+                          || AutologinTokens.get(credential.nation)
+                             === undefined);
+        const findings = PasswordAudit.audit(credentials);
+
+        // Array.prototype.sort is not guaranteed to be stable
+        const order = findings.map((_, i) => i);
+        order.sort((a, b) => findings[b].severity - findings[a].severity
+                             || a - b);
+
+        const body = $("#auditTable").find("tbody");
+        body.empty();
+        for (const i of order) {
+            const finding = findings[i];
+            $("<tr>")
+                .addClass(AuditView.getRowClass(finding))
+                .append($("<td>").text(finding.nation))
+                .append($("<td>").text(I18n.t(
+                    `severity.${FindingSeverity[finding.severity]}`)))
+                .append($("<td>").text(AuditView.getKindLabel(finding.kind)))
+                .append($("<td>").text(finding.message))
+                .appendTo(body);
+        }
+
+        const affected: {[nation: string]: boolean} = {};
+        for (const finding of findings) {
+            affected[finding.nation] = true;
+        }
+        const count = (severity: FindingSeverity) => findings.filter(
+            finding => finding.severity === severity).length;
+        $("#auditSummary").text(
+            findings.length === 0
+                ? I18n.t("audit.noProblems", {count: credentials.length})
+                : I18n.t("audit.summary", {
+                    count: findings.length,
+                    nations: Object.keys(affected).length,
+                    high: count(FindingSeverity.High),
+                    medium: count(FindingSeverity.Medium),
+                    low: count(FindingSeverity.Low)
+                }));
+        $("#auditResults").toggleClass("hidden", findings.length === 0);
+    }
+
+    /**
+     * Handler for the generate button.
+     */
+    private static handleGenerate(): void {
+        const lengthInput = $("#generatedPasswordLength");
+        let length = Math.floor(Number(lengthInput.val()));
+        if (!(length >= AuditView.MinGeneratedLength)) {
+            length = AuditView.MinGeneratedLength;
+        }
+        length = Math.min(length, AuditView.MaxGeneratedLength);
+        lengthInput.val(length);
+        $("#generatedPassword").val(PasswordAudit.generate(length));
+        $("#copyPasswordButton").prop("disabled", false);
+    }
+
+    /**
+     * Handler for the copy button. Copies the generated password to the
+     * clipboard.
+     */
+    private static handleCopy(): void {
+        const input = $("#generatedPassword")[0] as HTMLInputElement;
+        input.select();
+        document.execCommand("copy");
+    }
+
+    /**
+     * Gets a short description of the specified kind of finding.
+     *
+     * @param kind The kind of finding.
+     *
+     * @return The description.
+     */
+    private static getKindLabel(kind: FindingKind): string {
+        switch (kind) {
+            case FindingKind.Empty:
+                return I18n.t("audit.kindEmpty");
+            case FindingKind.SameAsName:
+                return I18n.t("audit.kindSameAsName");
+            case FindingKind.Reused:
+                return I18n.t("audit.kindReused");
+            case FindingKind.Weak:
+                return I18n.t("audit.kindWeak");
+        }
+    }
+
+    /**
+     * Gets the Bootstrap table row class for the specified finding.
+     *
+     * @param finding The finding.
+     *
+     * @return The row class.
+     */
+    private static getRowClass(finding: Finding): string {
+        switch (finding.severity) {
+            case FindingSeverity.High:
+                return "danger";
+            case FindingSeverity.Medium:
+                return "warning";
+            default:
+                return "";
+        }
+    }
+}
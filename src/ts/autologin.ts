@@ -0,0 +1,161 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import App, {Credential} from "./app";
+import Profiles from "./profiles";
+
+/**
+ * Keeps the autologin tokens issued by NationStates for each nation, so
+ * that nations can be logged into without their passwords.
+ *
+ * Tokens are saved in the active profile, unless the credentials vault is
+ * enabled, in which case they are saved in the vault along with the
+ * credentials.
+ */
+export default class AutologinTokens {
+    /**
+     * The profile setting in which tokens are saved when the vault is not
+     * enabled.
+     */
+    public static readonly StorageKey = "autologin";
+
+    private static _tokens: {[id: string]: string} = {};
+
+    /**
+     * Gets the autologin token of a nation.
+     *
+     * @param nation The name of the nation.
+     *
+     * @return The autologin token, or undefined if there is none.
+     */
+    public static get(nation: string): string | undefined {
+        const id = App.toId(nation);
+        return AutologinTokens._tokens.hasOwnProperty(id)
+            ? AutologinTokens._tokens[id] : undefined;
+    }
+
+    /**
+     * Sets the autologin token of a nation.
+     *
+     * @param nation The name of the nation.
+     * @param autologin The autologin token.
+     */
+    public static set(nation: string, autologin: string): void {
+        AutologinTokens._tokens[App.toId(nation)] = autologin;
+    }
+
+    /**
+     * Forgets all autologin tokens.
+     */
+    public static clear(): void {
+        AutologinTokens._tokens = {};
+    }
+
+    /**
+     * Adds the known autologin tokens to the specified credentials.
+     *
+     * @param credentials The credentials.
+     *
+     * @return Copies of the credentials, with autologin tokens where known.
+     */
+    public static apply(credentials: Credential[]): Credential[] {
+        return credentials.map((credential) => {
+            const copy: Credential = {
+                nation: credential.nation,
+                password: credential.password
+            };
+            if (credential.tags !== undefined) {
+                copy.tags = credential.tags;
+            }
+            const autologin = AutologinTokens.get(credential.nation);
+            if (autologin !== undefined) {
+                copy.autologin = autologin;
+            }
+            return copy;
+        });
+    }
+
+    /**
+     * Gets all autologin tokens.
+     *
+     * @return The autologin tokens, keyed by nation ID.
+     */
+    public static getAll(): {[id: string]: string} {
+        const tokens: {[id: string]: string} = {};
+        for (const id of Object.keys(AutologinTokens._tokens)) {
+            tokens[id] = AutologinTokens._tokens[id];
+        }
+        return tokens;
+    }
+
+    /**
+     * Replaces all autologin tokens.
+     *
+     * @param tokens The autologin tokens, keyed by nation ID.
+     */
+    public static setAll(tokens: {[id: string]: string}): void {
+        AutologinTokens.clear();
+        for (const id of Object.keys(tokens)) {
+            if (typeof tokens[id] === "string") {
+                AutologinTokens._tokens[id] = tokens[id];
+            }
+        }
+    }
+
+    /**
+     * Loads the autologin tokens saved in the active profile, replacing any
+     * already loaded.
+     */
+    public static load(): void {
+        AutologinTokens.clear();
+        try {
+            const raw = Profiles.getItem(AutologinTokens.StorageKey);
+            if (raw !== null) {
+                AutologinTokens.setAll(JSON.parse(raw));
+            }
+        } catch {
+            // No local storage or invalid tokens
+        }
+    }
+
+    /**
+     * Saves the autologin tokens in the active profile.
+     */
+    public static save(): void {
+        try {
+            if (Object.keys(AutologinTokens._tokens).length === 0) {
+                Profiles.removeItem(AutologinTokens.StorageKey);
+            } else {
+                Profiles.setItem(AutologinTokens.StorageKey,
+                                 JSON.stringify(AutologinTokens._tokens));
+            }
+        } catch {
+            // No local storage
+        }
+    }
+
+    /**
+     * Deletes the autologin tokens saved in the active profile, without
+     * forgetting the loaded tokens. Used when the tokens are moved into the
+     * vault.
+     */
+    public static removeSaved(): void {
+        try {
+            Profiles.removeItem(AutologinTokens.StorageKey);
+        } catch {
+            // No local storage
+        }
+    }
+}
@@ -0,0 +1,138 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import AutologinTokens from "./autologin";
+import I18n from "./i18n";
+import CredentialParser, {Severity} from "./parser";
+import Profiles from "./profiles";
+import VaultView from "./vaultview";
+import * as $ from "jquery";
+
+/**
+ * Contains the UI logic for autologin tokens: storing the tokens issued
+ * during runs, and removing the passwords of nations that have tokens.
+ */
+export default class AutologinView {
+    /**
+     * Initializes the autologin controls.
+     */
+    public static init(): void {
+        $("#credentials").on("input change", () => AutologinView.update());
+        $("#purgePasswordsButton").on("click",
+                                      () => AutologinView.handlePurge());
+        $("#forgetAutologinButton").on("click",
+                                       () => AutologinView.handleForget());
+        AutologinView.update();
+    }
+
+    /**
+     * Stores an autologin token issued during a run and saves it straight
+     * away, in the vault if it is enabled.
+     *
+     * @param nation The name of the nation.
+     * @param autologin The autologin token.
+     */
+    public static store(nation: string, autologin: string): void {
+        AutologinTokens.set(nation, autologin);
+        AutologinView.persist();
+        AutologinView.update();
+    }
+
+    /**
+     * Shows how many nations in the credentials text box have autologin
+     * tokens, and how many of those still have passwords.
+     */
+    public static update(): void {
+        const credentials = CredentialParser.parse(
+            String($("#credentials").val())).credentials;
+        const withTokens = AutologinTokens.apply(credentials).filter(
+            credential => credential.autologin !== undefined);
+        const purgeable = withTokens.filter(
+            credential => credential.password !== "");
+        $("#autologinStatus").text(I18n.t("autologin.status", {
+            count: withTokens.length,
+            total: credentials.length,
+            passwords: purgeable.length
+        }));
+        $("#purgePasswordsButton").prop("disabled", purgeable.length === 0);
+        $("#forgetAutologinButton").prop(
+            "disabled", Object.keys(AutologinTokens.getAll()).length === 0);
+    }
+
+    /**
+     * Saves the autologin tokens, in the vault if it is enabled.
+     */
+    private static persist(): void {
+        if (VaultView.isEnabled()) {
+            VaultView.save();
+        } else {
+            AutologinTokens.save();
+        }
+    }
+
+    /**
+     * Handler for the remove passwords button. Removes the passwords of the
+     * nations that have autologin tokens from the credentials text box and
+     * the saved configuration.
+     */
+    private static handlePurge(): void {
+        const credentialsInput = $("#credentials");
+        const parsed = CredentialParser.parse(String(credentialsInput.val()));
+        if (parsed.diagnostics.some(
+                diagnostic => diagnostic.severity === Severity.Error))
+        {
+            window.alert(I18n.t("autologin.purgeInvalid"));
+            return;
+        }
+        const credentials = parsed.credentials;
+        const purgeable = credentials.filter(
+            credential => credential.password !== ""
+                          && AutologinTokens.get(credential.nation)
+                             !== undefined);
+        if (purgeable.length === 0 || !window.confirm(
+                I18n.t("autologin.purgeConfirm", {count: purgeable.length})))
+        {
+            return;
+        }
+        for (const credential of purgeable) {
+            credential.password = "";
+        }
+
+        const text = CredentialParser.format(credentials);
+        credentialsInput.val(text);
+        if (VaultView.isEnabled()) {
+            VaultView.save();
+        } else {
+            try {
+                Profiles.setItem("credentials", text);
+            } catch {
+                // No local storage
+            }
+        }
+        credentialsInput.trigger("input");
+    }
+
+    /**
+     * Handler for the forget tokens button.
+     */
+    private static handleForget(): void {
+        if (!window.confirm(I18n.t("autologin.forgetConfirm"))) {
+            return;
+        }
+        AutologinTokens.clear();
+        AutologinView.persist();
+        AutologinView.update();
+    }
+}
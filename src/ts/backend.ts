@@ -0,0 +1,158 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {Credential} from "./app";
+import {ResponseMetadata} from "./retry";
+import {NationShardData} from "./snapshot";
+
+/**
+ * Represents what the page returned by a restore form submission said about
+ * the restore.
+ */
+export enum RestoreResponse {
+    /**
+     * The page was for the logged-in nation, so the restore worked.
+     */
+    Accepted,
+    /**
+     * The page said that the password was wrong or that the nation cannot
+     * be restored.
+     */
+    Rejected,
+    /**
+     * The page could not be read or did not say either way.
+     */
+    Unknown
+}
+
+/**
+ * Provides access to NationStates, or something that behaves like it.
+ * Requests are not rate-limited; App paces them with a RateLimiter.
+ *
+ * Errors that correspond to HTTP responses are ResponseErrors, like the
+ * errors returned by the NationStates API, so that Retry.getStatusCode can
+ * read their status codes.
+ */
+export interface Backend {
+    /**
+     * Checks whether the specified nation exists, bypassing any caches.
+     *
+     * @param nation The name of the nation.
+     *
+     * @return Whether the nation exists. Errors other than the nation not
+     *         being found are thrown.
+     */
+    nationExists(nation: string): Promise<boolean>;
+
+    /**
+     * Makes an authenticated request for the specified nation, which counts
+     * as logging into it.
+     *
+     * @param credential The name, password and autologin token of the
+     *                   nation.
+     * @param useAutologin Whether to authenticate with the nation's
+     *                     autologin token instead of its password.
+     *
+     * @return The autologin token issued by NationStates, which can be used
+     *         in place of the password until the password is changed, or
+     *         null if none was issued.
+     */
+    ping(credential: Credential,
+         useAutologin: boolean): Promise<string | null>;
+
+    /**
+     * Gets the time the specified nation was last logged into, bypassing any
+     * caches.
+     *
+     * @param nation The name of the nation.
+     *
+     * @return The time of the last login in seconds since the epoch.
+     */
+    getLastLogin(nation: string): Promise<number>;
+
+    /**
+     * Submits the restore form for the specified nation. Unless the restore
+     * was rejected, whether it worked must still be checked using the API.
+     *
+     * @param credential The name and password of the nation.
+     *
+     * @return What the response to the form said about the restore.
+     */
+    submitRestore(credential: Credential): Promise<RestoreResponse>;
+
+    /**
+     * Gets the specified shards of a nation from the nation API, bypassing
+     * any caches.
+     *
+     * @param credential The name and password of the nation.
+     * @param shards The names of the shards.
+     * @param authenticate Whether to authenticate with the nation's
+     *                     autologin token, or its password if it has none,
+     *                     which is required for private shards.
+     *
+     * @return The shard data, in the form returned by the NationStates API.
+     */
+    getNationShards(credential: Credential, shards: string[],
+                    authenticate: boolean): Promise<NationShardData>;
+
+    /**
+     * Gets the nations in the specified region.
+     *
+     * @param region The name of the region.
+     *
+     * @return The IDs of the nations in the region.
+     */
+    getRegionNations(region: string): Promise<string[]>;
+
+    /**
+     * Sets a function called with the metadata of each successful response,
+     * so that its rate limit headers can be read. Backends that do not make
+     * HTTP requests need not implement this.
+     *
+     * @param listener The function to call.
+     */
+    setResponseListener?(listener: (metadata: ResponseMetadata) => void)
+        : void;
+
+    /**
+     * Releases any resources held by the backend.
+     */
+    cleanup(): void;
+}
+
+/**
+ * Creates a backend for a run.
+ *
+ * @param userAgent The user agent specified by the user.
+ *
+ * @return The backend.
+ */
+export type BackendFactory = (userAgent: string) => Backend;
+
+/**
+ * Submits the NationStates restore form.
+ */
+export interface RestoreSubmitter {
+    /**
+     * Submits the restore form for a nation.
+     *
+     * @param credential The name and password of the nation.
+     * @param userAgent The user agent to submit with the form.
+     *
+     * @return What the response to the form said about the restore.
+     */
+    submit(credential: Credential,
+           userAgent: string): Promise<RestoreResponse>;
+}
@@ -0,0 +1,95 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {RunParameters} from "./app";
+import {Result} from "./results";
+import {Snapshot} from "./snapshot";
+
+/**
+ * Represents the progress of a run, saved so that the run can be resumed if
+ * the page is closed or reloaded. Passwords are not saved; they are looked
+ * up in the credentials list when the run is resumed.
+ */
+export interface Checkpoint {
+    parameters: RunParameters,
+    /**
+     * The names of all nations in the run, in processing order.
+     */
+    nations: string[],
+    /**
+     * The number of nations processed so far.
+     */
+    index: number,
+    /**
+     * The results for all nations in the run.
+     */
+    results: Result[],
+    /**
+     * The nation snapshots taken so far. Missing from checkpoints saved
+     * before snapshots existed.
+     */
+    snapshots?: Snapshot[],
+    startedAt: number,
+    savedAt: number
+}
+
+/**
+ * Saves and loads run checkpoints in local storage.
+ */
+export default class Checkpoints {
+    private static readonly StorageKey = "checkpoint";
+
+    /**
+     * Saves the specified checkpoint, replacing any existing one.
+     *
+     * @param checkpoint The checkpoint.
+     */
+    public static save(checkpoint: Checkpoint): void {
+        try {
+            localStorage.setItem(Checkpoints.StorageKey,
+                                 JSON.stringify(checkpoint));
+        } catch {
+            // No local storage
+        }
+    }
+
+    /**
+     * Loads the saved checkpoint, if any.
+     *
+     * @return The saved checkpoint, or null if there is none.
+     */
+    public static load(): Checkpoint | null {
+        try {
+            const raw = localStorage.getItem(Checkpoints.StorageKey);
+            if (raw !== null) {
+                return JSON.parse(raw);
+            }
+        } catch {
+            // No local storage or invalid checkpoint
+        }
+        return null;
+    }
+
+    /**
+     * Deletes the saved checkpoint, if any.
+     */
+    public static clear(): void {
+        try {
+            localStorage.removeItem(Checkpoints.StorageKey);
+        } catch {
+            // No local storage
+        }
+    }
+}
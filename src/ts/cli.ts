@@ -0,0 +1,441 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import App, {Credential, Mode, RunParameters} from "./app";
+import HttpRestoreSubmitter from "./httpsubmitter";
+import Logger, {LogLevel} from "./logger";
+import NsApiBackend from "./nsapibackend";
+import CredentialParser, {Severity} from "./parser";
+import Preflight from "./preflight";
+import Results, {Action, Outcome, Result} from "./results";
+import Retry from "./retry";
+import SimulatorBackend, {SimulatorConfig} from "./simulator";
+import Snapshots, {Snapshot} from "./snapshot";
+import * as fs from "fs";
+import * as readline from "readline";
+
+/**
+ * Represents the command line options.
+ */
+interface Options {
+    file: string,
+    parameters: RunParameters,
+    logLevel: LogLevel,
+    json: boolean,
+    /**
+     * The simulator configuration, if the simulator should be used instead
+     * of NationStates.
+     */
+    simulator: SimulatorConfig | null,
+    /**
+     * The file the nation snapshot is saved to, if snapshots are enabled.
+     */
+    snapshotFile: string | null
+}
+
+/**
+ * Contains the command line front end, which processes the nations in a
+ * credentials file and prints a summary of the results.
+ */
+class Cli {
+    private static readonly Usage =
+        "Usage: node cli.js <credentials file> --user-agent <user agent>"
+        + " [options]\n"
+        + "\n"
+        + "The credentials file may be CSV, TSV or JSON, in the same format"
+        + " as the web\n"
+        + "client accepts.\n"
+        + "\n"
+        + "Options:\n"
+        + "  --user-agent <text>    identifies you to NationStates (required)\n"
+        + "  --mode <mode>          auto, login, restore or smart"
+        + " (default: auto)\n"
+        + "  --rate-limit <ms>      milliseconds between requests"
+        + " (default: 1200)\n"
+        + "  --attempts <n>         attempts for each nation (default: 3)\n"
+        + "  --retry-delay <s>      seconds before the first retry"
+        + " (default: 5)\n"
+        + "  --threshold <days>     smart mode skips nations with more days"
+        + " left\n"
+        + "                         (default: 7)\n"
+        + "  --log-level <level>    debug, info, warn or error"
+        + " (default: info)\n"
+        + "  --json                 print the results as JSON\n"
+        + "  --simulate <file>      use the offline simulator with the"
+        + " simulated nations in\n"
+        + "                         the file, one \"nation,password,days\""
+        + " on each line\n"
+        + "  --failure-rate <%>     percentage of simulated requests that"
+        + " fail (default: 0)\n"
+        + "  --snapshot <items>     after each login or restore, record the"
+        + " comma-separated\n"
+        + "                         items: "
+        + Snapshots.Shards.map(shard => shard.shard).join(", ") + "\n"
+        + "  --snapshot-file <file> save the snapshot to the file, as JSON if"
+        + " it ends in\n"
+        + "                         .json and as CSV otherwise\n"
+        + "\n"
+        + "Restores must be confirmed one at a time at the terminal. When"
+        + " input is not a\n"
+        + "terminal, for example in a cron job, nations that need to be"
+        + " restored are\n"
+        + "reported instead.\n"
+        + "\n"
+        + "The exit status is 0 if every nation succeeded or was skipped, 1"
+        + " if any failed\n"
+        + "or need to be restored, and 2 if the options are invalid.\n";
+
+    /**
+     * Runs the command line front end.
+     *
+     * @param args The command line arguments, excluding the program name.
+     *
+     * @return The exit status.
+     */
+    public static async main(args: string[]): Promise<number> {
+        let options: Options;
+        try {
+            options = Cli.parseArgs(args);
+        } catch (err) {
+            process.stderr.write(`${err.message}\n\n${Cli.Usage}`);
+            return 2;
+        }
+
+        let credentials: Credential[];
+        try {
+            credentials = Cli.readCredentials(options.file);
+        } catch (err) {
+            process.stderr.write(`${err.message}\n`);
+            return 2;
+        }
+        const report = Preflight.check(credentials);
+        for (const issue of report.issues) {
+            process.stderr.write(`${issue.nation}: ${issue.message};`
+                                 + ` skipped\n`);
+        }
+        if (report.credentials.length === 0) {
+            process.stderr.write("No nations to process.\n");
+            return 2;
+        }
+
+        const logger = new Logger();
+        logger.setLevel(options.logLevel);
+        logger.addListener(
+            entry => process.stderr.write(Logger.format(entry) + "\n"));
+
+        let results: Result[] = [];
+        let snapshots: Snapshot[] = [];
+        const app = new App(
+            logger,
+            {confirm: credential => Cli.confirm(credential)},
+            (userAgent) => {
+                if (options.simulator !== null) {
+                    return new SimulatorBackend(options.simulator);
+                }
+                return new NsApiBackend(userAgent,
+                                        new HttpRestoreSubmitter());
+            },
+            {
+                onProgress: () => undefined,
+                onSnapshot: (taken: Snapshot[]) => {
+                    snapshots = taken;
+                },
+                // Credentials files are only read, so there is nowhere to
+                // keep autologin tokens for later runs
+                onAutologin: () => undefined,
+                onFinish: finished => {
+                    results = finished;
+                }
+            });
+        process.on("SIGINT", () => app.cancel());
+        await app.start(options.parameters, report.credentials);
+
+        if (options.json) {
+            process.stdout.write(Results.toJson(results) + "\n");
+        } else {
+            Cli.printSummary(results);
+        }
+        if (options.snapshotFile !== null) {
+            fs.writeFileSync(options.snapshotFile,
+                             /\.json$/i.test(options.snapshotFile)
+                                 ? Snapshots.toJson(snapshots) + "\n"
+                                 : Snapshots.toCsv(snapshots));
+        }
+        return results.some(result => result.outcome === Outcome.Failure
+                                      || result.outcome === Outcome.Deferred
+                                      || result.outcome === Outcome.Unknown)
+            ? 1 : 0;
+    }
+
+    /**
+     * Parses the command line arguments.
+     *
+     * @param args The command line arguments, excluding the program name.
+     *
+     * @return The options.
+     */
+    private static parseArgs(args: string[]): Options {
+        let file: string | null = null;
+        let userAgent = "";
+        let mode = Mode.Auto;
+        let rateLimit = 1200;
+        let maxAttempts = Retry.DefaultPolicy.maxAttempts;
+        let retryDelay = Retry.DefaultPolicy.initialDelayMillis / 1000;
+        let smartThresholdDays = 7;
+        let logLevel = LogLevel.Info;
+        let json = false;
+        let simulatorFile: string | null = null;
+        let failurePercent = 0;
+        let snapshotShards: string[] = [];
+        let snapshotFile: string | null = null;
+
+        for (let i = 0; i < args.length; i++) {
+            const arg = args[i];
+            if (arg === "--json") {
+                json = true;
+                continue;
+            }
+            if (arg.charAt(0) !== "-") {
+                if (file !== null) {
+                    throw new Error(`Unexpected argument: ${arg}`);
+                }
+                file = arg;
+                continue;
+            }
+            if (i + 1 >= args.length) {
+                throw new Error(`Missing value for ${arg}`);
+            }
+            const value = args[++i];
+            switch (arg) {
+                case "--user-agent":
+                    userAgent = value;
+                    break;
+                case "--mode":
+                    mode = Cli.parseEnum(Mode, arg, value);
+                    break;
+                case "--rate-limit":
+                    rateLimit = Cli.parseNumber(arg, value, 600);
+                    break;
+                case "--attempts":
+                    maxAttempts = Math.floor(Cli.parseNumber(arg, value, 1));
+                    break;
+                case "--retry-delay":
+                    retryDelay = Cli.parseNumber(arg, value, 1);
+                    break;
+                case "--threshold":
+                    smartThresholdDays = Cli.parseNumber(arg, value, 0);
+                    break;
+                case "--log-level":
+                    logLevel = Cli.parseEnum(LogLevel, arg, value);
+                    break;
+                case "--simulate":
+                    simulatorFile = value;
+                    break;
+                case "--failure-rate":
+                    failurePercent = Cli.parseNumber(arg, value, 0);
+                    break;
+                case "--snapshot":
+                    snapshotShards = Cli.parseShards(arg, value);
+                    break;
+                case "--snapshot-file":
+                    snapshotFile = value;
+                    break;
+                default:
+                    throw new Error(`Unknown option: ${arg}`);
+            }
+        }
+
+        if (file === null) {
+            throw new Error("You must specify a credentials file.");
+        }
+        if (userAgent === "") {
+            throw new Error("You must specify a user agent.");
+        }
+        if ((snapshotShards.length > 0) !== (snapshotFile !== null)) {
+            throw new Error("--snapshot and --snapshot-file must be used"
+                            + " together.");
+        }
+        return {
+            file,
+            parameters: {
+                userAgent,
+                rateLimit,
+                mode,
+                retryPolicy: {
+                    maxAttempts,
+                    initialDelayMillis: retryDelay * 1000,
+                    backoffFactor: Retry.DefaultPolicy.backoffFactor,
+                    maxDelayMillis: Retry.DefaultPolicy.maxDelayMillis
+                },
+                smartThresholdDays,
+                snapshotShards
+            },
+            logLevel,
+            json,
+            simulator: simulatorFile === null ? null : {
+                nations: SimulatorBackend.parseNations(
+                    fs.readFileSync(simulatorFile, "utf8")),
+                latencyMillis: 0,
+                failureRate: Math.min(failurePercent, 100) / 100
+            },
+            snapshotFile
+        };
+    }
+
+    /**
+     * Parses a numeric option.
+     *
+     * @param name The name of the option.
+     * @param value The value of the option.
+     * @param minimum The minimum allowed value.
+     *
+     * @return The parsed value.
+     */
+    private static parseNumber(name: string, value: string,
+                               minimum: number): number
+    {
+        const parsed = Number(value);
+        if (value === "" || !(parsed >= minimum)) {
+            throw new Error(`${name} must be a number no less than`
+                            + ` ${minimum}.`);
+        }
+        return parsed;
+    }
+
+    /**
+     * Parses an option whose value is the name of an enum member, ignoring
+     * case.
+     *
+     * @param values The enum. Numeric enums also map each value back to the
+     *               name of its member; those entries are skipped.
+     * @param name The name of the option.
+     * @param value The value of the option.
+     *
+     * @return The enum member.
+     */
+    private static parseEnum<E>(values: E, name: string,
+                                value: string): E[keyof E]
+    {
+        for (const key of Object.keys(values) as Array<keyof E>) {
+            const member = values[key];
+            if (typeof member === "number"
+                && key.toLowerCase() === value.toLowerCase())
+            {
+                return member;
+            }
+        }
+        throw new Error(`Invalid value for ${name}: ${value}`);
+    }
+
+    /**
+     * Parses an option whose value is a comma-separated list of snapshot
+     * shard names.
+     *
+     * @param name The name of the option.
+     * @param value The value of the option.
+     *
+     * @return The shard names.
+     */
+    private static parseShards(name: string, value: string): string[] {
+        const shards = value.split(",").map(shard => shard.trim()
+                                                          .toLowerCase());
+        for (const shard of shards) {
+            if (Snapshots.getShards([shard]).length === 0) {
+                throw new Error(`Invalid value for ${name}: ${shard}`);
+            }
+        }
+        return shards;
+    }
+
+    /**
+     * Reads and parses the specified credentials file.
+     *
+     * @param file The path of the file.
+     *
+     * @return The credentials.
+     */
+    private static readCredentials(file: string): Credential[] {
+        const format = CredentialParser.getFileFormat(file);
+        const result = CredentialParser.parse(
+            fs.readFileSync(file, "utf8"),
+            format !== null ? format : undefined);
+        for (const diagnostic of result.diagnostics) {
+            const severity = diagnostic.severity === Severity.Error
+                ? "Error" : "Warning";
+            process.stderr.write(`${file}: ${diagnostic.location}:`
+                                 + ` ${severity}: ${diagnostic.message}\n`);
+        }
+        if (result.diagnostics.some(
+                diagnostic => diagnostic.severity === Severity.Error))
+        {
+            throw new Error(`${file} contains invalid entries.`);
+        }
+        return result.credentials;
+    }
+
+    /**
+     * Asks the user at the terminal to confirm restoring a nation. Restores
+     * are declined when input is not a terminal.
+     *
+     * @param credential The name and password of the nation.
+     *
+     * @return Whether the user confirmed the restore.
+     */
+    private static confirm(credential: Credential): Promise<boolean> {
+        if (!process.stdin.isTTY) {
+            return Promise.resolve(false);
+        }
+        return new Promise((resolve) => {
+            const rl = readline.createInterface({
+                input: process.stdin,
+                output: process.stderr
+            });
+            rl.question(`Restore ${credential.nation}? [y/N] `, (answer) => {
+                rl.close();
+                resolve(/^y(es)?$/i.test(answer.trim()));
+            });
+        });
+    }
+
+    /**
+     * Prints the number of nations with each outcome, followed by every
+     * nation that did not succeed.
+     *
+     * @param results The per-nation results.
+     */
+    private static printSummary(results: Result[]): void {
+        const count = (outcome: Outcome) => results.filter(
+            result => result.outcome === outcome).length;
+        process.stdout.write(
+            `${count(Outcome.Success)} succeeded, ${count(Outcome.Failure)}`
+            + ` failed, ${count(Outcome.Skipped)} skipped,`
+            + ` ${count(Outcome.Deferred)} need to be restored,`
+            + ` ${count(Outcome.Unknown)} could not be verified\n`);
+        for (const result of results) {
+            if (result.outcome !== Outcome.Success) {
+                process.stdout.write(
+                    `${result.nation}\t${Action[result.action]}`
+                    + `\t${Outcome[result.outcome]}\t${result.reason}\n`);
+            }
+        }
+    }
+}
+
+Cli.main(process.argv.slice(2)).then(
+    status => process.exit(status),
+    (err) => {
+        console.error(err);
+        process.exit(2);
+    });
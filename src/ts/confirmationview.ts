@@ -0,0 +1,195 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {Credential} from "./app";
+import I18n from "./i18n";
+import * as $ from "jquery";
+
+/**
+ * Contains the UI logic for the restore confirmation panel, which shows the
+ * nation awaiting confirmation and the nations waiting to be restored, and
+ * accepts keyboard shortcuts to confirm or skip each restore.
+ */
+export default class ConfirmationView {
+    /**
+     * The interval between updates of the rate limit countdown.
+     */
+    private static readonly CountdownIntervalMillis = 250;
+
+    private static _current: Credential | null = null;
+    private static _resolve: ((confirmed: boolean) => void) | null = null;
+    private static _notBefore = 0;
+    private static _submitting = false;
+    private static _timer: number | null = null;
+
+    /**
+     * Initializes the confirmation controls.
+     */
+    public static init(): void {
+        $("#confirmButton").on("click", () => ConfirmationView.answer(true));
+        $("#skipButton").on("click", () => ConfirmationView.answer(false));
+        $(document).on("keydown", (e) => {
+            if (ConfirmationView._resolve === null
+                || e.ctrlKey || e.altKey || e.metaKey
+                || $(e.target).is("input, textarea, select")
+                || $("body").hasClass("modal-open"))
+            {
+                return;
+            }
+            const key = (e.originalEvent as KeyboardEvent).key;
+            if (key === "Enter" || key === "c" || key === "C") {
+                e.preventDefault();
+                ConfirmationView.answer(true);
+            } else if (key === "s" || key === "S") {
+                e.preventDefault();
+                ConfirmationView.answer(false);
+            }
+        });
+        ConfirmationView.reset();
+    }
+
+    /**
+     * Shows the specified nation as awaiting confirmation and waits for the
+     * user to confirm or skip restoring it.
+     *
+     * @param credential The name and password of the nation.
+     * @param notBefore The time, in milliseconds since the epoch, before
+     *                  which the restore form cannot be submitted.
+     *
+     * @return A promise fired with true if the restore was confirmed, or
+     *         false if it was skipped.
+     */
+    public static confirm(credential: Credential,
+                          notBefore: number): Promise<boolean>
+    {
+        // Settle any earlier confirmation so that it is not left waiting
+        ConfirmationView.answer(false);
+        return new Promise((resolve) => {
+            ConfirmationView._current = credential;
+            ConfirmationView._resolve = resolve;
+            ConfirmationView._notBefore = notBefore;
+            $("#confirmationCurrent").text(
+                I18n.t("confirmation.current", {nation: credential.nation}));
+            $("#confirmationPanel").addClass("panel-warning")
+                                   .removeClass("panel-default");
+            $("#confirmButton").prop("disabled", false);
+            $("#skipButton").prop("disabled", false);
+            ConfirmationView.startCountdown();
+        });
+    }
+
+    /**
+     * Shows the nations waiting to be restored.
+     *
+     * @param nations The nations in the current run that are known to need
+     *                restoring and have not been processed yet.
+     */
+    public static show(nations: string[]): void {
+        const current = ConfirmationView._current;
+        const pending = nations.filter(
+            nation => current === null || nation !== current.nation);
+        const list = $("#confirmationList");
+        list.empty();
+        for (const nation of pending) {
+            $("<li>").text(nation).appendTo(list);
+        }
+        $("#confirmationPendingCount").text(pending.length);
+    }
+
+    /**
+     * Skips the nation awaiting confirmation, if any, for example when the
+     * run is cancelled.
+     */
+    public static cancel(): void {
+        ConfirmationView.answer(false);
+    }
+
+    /**
+     * Clears the confirmation panel after a run finishes.
+     */
+    public static reset(): void {
+        ConfirmationView.answer(false);
+        ConfirmationView.stopCountdown();
+        ConfirmationView._notBefore = 0;
+        ConfirmationView.show([]);
+        $("#confirmationCountdown").text("");
+    }
+
+    /**
+     * Confirms or skips the nation awaiting confirmation, if any.
+     *
+     * @param confirmed Whether the restore was confirmed.
+     */
+    private static answer(confirmed: boolean): void {
+        const resolve = ConfirmationView._resolve;
+        if (resolve === null) {
+            return;
+        }
+        ConfirmationView._current = null;
+        ConfirmationView._resolve = null;
+        ConfirmationView._submitting = confirmed;
+        $("#confirmationCurrent").text(I18n.t("page.confirmationNone"));
+        $("#confirmationPanel").addClass("panel-default")
+                               .removeClass("panel-warning");
+        $("#confirmButton").prop("disabled", true);
+        $("#skipButton").prop("disabled", true);
+        ConfirmationView.updateCountdown();
+        resolve(confirmed);
+    }
+
+    /**
+     * Starts updating the rate limit countdown, if it is not already being
+     * updated.
+     */
+    private static startCountdown(): void {
+        ConfirmationView.updateCountdown();
+        if (ConfirmationView._timer === null) {
+            ConfirmationView._timer = window.setInterval(
+                () => ConfirmationView.updateCountdown(),
+                ConfirmationView.CountdownIntervalMillis);
+        }
+    }
+
+    /**
+     * Stops updating the rate limit countdown.
+     */
+    private static stopCountdown(): void {
+        if (ConfirmationView._timer !== null) {
+            clearInterval(ConfirmationView._timer);
+            ConfirmationView._timer = null;
+        }
+    }
+
+    /**
+     * Shows the time left until the next restore can be submitted. The
+     * countdown stops once no restore is awaiting confirmation or waiting to
+     * be submitted.
+     */
+    private static updateCountdown(): void {
+        const seconds = Math.ceil(
+            (ConfirmationView._notBefore - Date.now()) / 1000);
+        const countdown = $("#confirmationCountdown");
+        if (ConfirmationView._resolve !== null) {
+            countdown.text(seconds > 0
+                ? I18n.t("confirmation.countdown", {seconds})
+                : I18n.t("confirmation.ready"));
+        } else if (ConfirmationView._submitting && seconds > 0) {
+            countdown.text(I18n.t("confirmation.submitting", {seconds}));
+        } else {
+            countdown.text("");
+            ConfirmationView.stopCountdown();
+        }
+    }
+}
@@ -0,0 +1,143 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Represents a single record parsed from delimiter-separated text.
+ */
+export interface CsvRecord {
+    /**
+     * The line number on which the record starts, starting from 1.
+     */
+    line: number,
+    fields: string[],
+    /**
+     * Whether each field was quoted.
+     */
+    quoted: boolean[]
+}
+
+/**
+ * Represents the result of parsing delimiter-separated text.
+ */
+export interface CsvParseResult {
+    records: CsvRecord[],
+    /**
+     * The line number of an unterminated quoted field, if any.
+     */
+    unterminatedLine: number | null
+}
+
+/**
+ * Contains functions for reading and writing delimiter-separated text
+ * according to RFC 4180.
+ */
+export default class Csv {
+    /**
+     * Parses delimiter-separated text. Both "\n" and "\r\n" line endings are
+     * accepted, quoted fields may contain delimiters, line breaks and
+     * doubled quotes, and blank lines are skipped.
+     *
+     * @param text The text to parse.
+     * @param delimiter The field delimiter.
+     *
+     * @return The parsed records.
+     */
+    public static parse(text: string, delimiter: string): CsvParseResult {
+        const records: CsvRecord[] = [];
+        let fields: string[] = [];
+        let quoted: boolean[] = [];
+        let field = "";
+        let fieldQuoted = false;
+        let inQuotes = false;
+        let line = 1;
+        let recordLine = 1;
+        let quoteLine = 1;
+
+        const endField = () => {
+            fields.push(field);
+            quoted.push(fieldQuoted);
+            field = "";
+            fieldQuoted = false;
+        };
+        const endRecord = () => {
+            endField();
+            if (fields.length > 1 || quoted[0] || fields[0].trim() !== "") {
+                records.push({line: recordLine, fields, quoted});
+            }
+            fields = [];
+            quoted = [];
+        };
+
+        for (let i = 0; i < text.length; i++) {
+            const c = text.charAt(i);
+            if (inQuotes) {
+                if (c === "\"") {
+                    if (text.charAt(i + 1) === "\"") {
+                        field += "\"";
+                        i++;
+                    } else {
+                        inQuotes = false;
+                    }
+                } else {
+                    if (c === "\n") {
+                        line++;
+                    }
+                    field += c;
+                }
+            } else if (c === "\"" && field.trim() === "" && !fieldQuoted) {
+                inQuotes = true;
+                fieldQuoted = true;
+                field = "";
+                quoteLine = line;
+            } else if (c === " " && fieldQuoted) {
+                // Ignore whitespace following a closing quote
+            } else if (c === delimiter) {
+                endField();
+            } else if (c === "\n" || c === "\r") {
+                if (c === "\r" && text.charAt(i + 1) === "\n") {
+                    i++;
+                }
+                endRecord();
+                line++;
+                recordLine = line;
+            } else {
+                field += c;
+            }
+        }
+        if (inQuotes) {
+            return {records, unterminatedLine: quoteLine};
+        }
+        endRecord();
+        return {records, unterminatedLine: null};
+    }
+
+    /**
+     * Escapes a field, quoting it if necessary.
+     *
+     * @param field The field to escape.
+     * @param delimiter The field delimiter.
+     *
+     * @return The escaped field.
+     */
+    public static escape(field: string, delimiter: string = ","): string {
+        if (field.indexOf(delimiter) !== -1 || /["\r\n]/.test(field)
+            || field.trim() !== field)
+        {
+            return "\"" + field.replace(/"/g, "\"\"") + "\"";
+        }
+        return field;
+    }
+}
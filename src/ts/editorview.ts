@@ -0,0 +1,437 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {Credential} from "./app";
+import AutologinTokens from "./autologin";
+import I18n from "./i18n";
+import CredentialParser, {Format, Severity} from "./parser";
+import Preflight, {IssueKind} from "./preflight";
+import * as $ from "jquery";
+
+/**
+ * Represents a sortable column of the credential editor.
+ */
+type Column = "nation" | "tags";
+
+/**
+ * Contains the UI logic for the credential editor, a grid of nation names,
+ * passwords and tags kept in sync with the credentials text box.
+ *
+ * The text box remains the source of truth: the grid is rebuilt whenever
+ * the text changes, and edits in the grid are written back to the text in
+ * the form produced by CredentialParser.format.
+ */
+export default class EditorView {
+    /**
+     * The local storage key recording whether the text box is shown instead
+     * of the grid.
+     */
+    private static readonly ModeKey = "credentialEditor";
+
+    private static _rows: Credential[] = [];
+    private static _format = Format.Csv;
+    private static _errors = 0;
+    private static _syncing = false;
+    private static _sortColumn: Column | null = null;
+    private static _sortAscending = true;
+
+    /**
+     * Initializes the credential editor.
+     */
+    public static init(): void {
+        $("#credentials").on("input change", () => {
+            if (!EditorView._syncing) {
+                EditorView.load();
+            }
+        });
+        $("#editorGridButton").on("click", () => EditorView.setMode(true));
+        $("#editorTextButton").on("click", () => EditorView.setMode(false));
+        $("#editorAddButton").on("click", () => EditorView.handleAdd());
+        $("#editorSearch").on("input", () => EditorView.render());
+        $("#editorReveal").on("change", () => EditorView.render());
+
+        const table = $("#editorTable");
+        table.find("th[data-column]").on("click", (e) => {
+            EditorView.handleSort($(e.currentTarget).data("column") as Column);
+        });
+        const body = table.find("tbody");
+        body.on("input", "input", e => EditorView.handleEdit(e, false));
+        body.on("change", "input", e => EditorView.handleEdit(e, true));
+        body.on("paste", "input", e => EditorView.handlePaste(e));
+        body.on("click", "button", e => EditorView.handleDelete(e));
+
+        let grid = true;
+        try {
+            grid = localStorage.getItem(EditorView.ModeKey) !== "text";
+        } catch {
+            // No local storage
+        }
+        EditorView.showMode(grid);
+        EditorView.load();
+    }
+
+    /**
+     * Re-renders the grid, for example after the language is changed or a
+     * run finishes.
+     */
+    public static update(): void {
+        $("#editorInvalid").text(
+            I18n.t("editor.invalidText", {count: EditorView._errors}));
+        EditorView.render();
+    }
+
+    /**
+     * Rebuilds the grid from the credentials text box. If the text contains
+     * entries that cannot be parsed, the grid is shown read-only so that
+     * editing it does not discard them.
+     */
+    private static load(): void {
+        const result = CredentialParser.parse(
+            String($("#credentials").val()));
+        EditorView._rows = result.credentials;
+        EditorView._format = result.format;
+        EditorView._errors = result.diagnostics.filter(
+            diagnostic => diagnostic.severity === Severity.Error).length;
+        EditorView._sortColumn = null;
+        $("#editorInvalid").toggleClass("hidden", EditorView._errors === 0);
+        EditorView.update();
+    }
+
+    /**
+     * Writes the grid back to the credentials text box, in the format of the
+     * text it was loaded from. Rows without a nation name cannot be written
+     * as valid entries, so they are left out; they remain in the grid,
+     * marked as problems, until a name is entered.
+     *
+     * @param commit Whether the edit is complete, in which case a change
+     *               event is triggered and the configuration may be saved.
+     */
+    private static sync(commit: boolean): void {
+        const rows = EditorView._rows.filter(row => row.nation.trim() !== "");
+        const credentialsInput = $("#credentials");
+        credentialsInput.val(
+            CredentialParser.format(rows, EditorView._format));
+        EditorView._syncing = true;
+        try {
+            credentialsInput.trigger("input");
+            if (commit) {
+                credentialsInput.trigger("change");
+            }
+        } finally {
+            EditorView._syncing = false;
+        }
+    }
+
+    /**
+     * Shows either the grid or the credentials text box.
+     *
+     * @param grid Whether to show the grid.
+     */
+    private static showMode(grid: boolean): void {
+        $("#editorGridButton").toggleClass("active", grid);
+        $("#editorTextButton").toggleClass("active", !grid);
+        $("#editorGrid").toggleClass("hidden", !grid);
+        $("#credentials").toggleClass("hidden", grid);
+    }
+
+    /**
+     * Handler for the grid and text buttons. Switches between the grid and
+     * the credentials text box and remembers the choice.
+     *
+     * @param grid Whether to show the grid.
+     */
+    private static setMode(grid: boolean): void {
+        if (grid) {
+            EditorView.load();
+        }
+        EditorView.showMode(grid);
+        try {
+            localStorage.setItem(EditorView.ModeKey, grid ? "grid" : "text");
+        } catch {
+            // No local storage
+        }
+    }
+
+    /**
+     * Re-renders the grid using the current search and password settings.
+     */
+    private static render(): void {
+        const filter = String($("#editorSearch").val()).trim().toLowerCase();
+        const reveal = $("#editorReveal").is(":checked");
+        // The grid cannot be edited while a run is in progress
+        const disabled = EditorView._errors > 0
+                         || $("#credentials").prop("disabled") === true;
+
+        const table = $("#editorTable");
+        table.find("th[data-column]").each((_, th) => {
+            const header = $(th);
+            header.toggleClass("sorted-ascending",
+                               header.data("column") === EditorView._sortColumn
+                               && EditorView._sortAscending);
+            header.toggleClass("sorted-descending",
+                               header.data("column") === EditorView._sortColumn
+                               && !EditorView._sortAscending);
+        });
+
+        const body = table.find("tbody");
+        body.empty();
+        EditorView._rows.forEach((row, index) => {
+            const tags = (row.tags || []).join(" ");
+            if (filter !== ""
+                && row.nation.toLowerCase().indexOf(filter) === -1
+                && tags.toLowerCase().indexOf(filter) === -1)
+            {
+                return;
+            }
+            const password = EditorView.createInput(
+                "password", row.password, disabled)
+                .attr("type", reveal ? "text" : "password")
+                .attr("autocomplete", "off");
+            if (row.password === ""
+                && AutologinTokens.get(row.nation) !== undefined)
+            {
+                password.attr("placeholder",
+                              I18n.t("editor.autologinPlaceholder"));
+            }
+            $("<tr>")
+                .data("index", index)
+                .append($("<td>").append(EditorView.createInput(
+                    "nation", row.nation, disabled)))
+                .append($("<td>").append(password))
+                .append($("<td>").append(EditorView.createInput(
+                    "tags", tags, disabled)))
+                .append($("<td>").addClass("editor-problem"))
+                .append($("<td>").append(
+                    $("<button>").addClass("btn btn-default btn-sm")
+                                 .prop("disabled", disabled)
+                                 .text(I18n.t("editor.delete"))))
+                .appendTo(body);
+        });
+
+        $("#editorAddButton").prop("disabled", disabled);
+        EditorView.validate();
+    }
+
+    /**
+     * Creates a text box for a cell of the grid.
+     *
+     * @param field The field edited by the text box.
+     * @param value The value of the field.
+     * @param disabled Whether the text box is disabled.
+     *
+     * @return The text box.
+     */
+    private static createInput(field: string, value: string,
+                               disabled: boolean): JQuery
+    {
+        return $("<input>").attr("type", "text")
+                           .addClass("form-control input-sm")
+                           .attr("data-field", field)
+                           .prop("disabled", disabled)
+                           .val(value);
+    }
+
+    /**
+     * Checks every row using the same pre-flight checks as a run, and shows
+     * any problems next to the rows and in the summary.
+     */
+    private static validate(): void {
+        const rows = EditorView._rows;
+        const report = Preflight.check(AutologinTokens.apply(rows));
+        const problems: string[] = rows.map(() => "");
+        const warnings: boolean[] = rows.map(() => false);
+        for (const issue of report.issues) {
+            problems[issue.index] = issue.message;
+            warnings[issue.index] = issue.kind === IssueKind.Duplicate;
+        }
+        rows.forEach((row, index) => {
+            if (row.nation.trim() === "") {
+                problems[index] = I18n.t("parser.missingNation");
+                warnings[index] = false;
+            }
+        });
+
+        const body = $("#editorTable").find("tbody");
+        body.find("tr").each((_, tr) => {
+            const row = $(tr);
+            const index = row.data("index") as number;
+            row.toggleClass("danger", problems[index] !== ""
+                                      && !warnings[index]);
+            row.toggleClass("warning", warnings[index]);
+            row.find(".editor-problem").text(problems[index]);
+        });
+
+        const shown = body.find("tr").length;
+        const params = {
+            shown,
+            count: rows.length,
+            problems: problems.filter(problem => problem !== "").length
+        };
+        $("#editorSummary").text(
+            shown === rows.length ? I18n.t("editor.summary", params)
+                                  : I18n.t("editor.summaryFiltered", params));
+    }
+
+    /**
+     * Gets the index of the row containing the target of an event.
+     *
+     * @param e The event.
+     *
+     * @return The index of the row.
+     */
+    private static getIndex(e: JQuery.Event): number {
+        return $(e.currentTarget).closest("tr").data("index") as number;
+    }
+
+    /**
+     * Handler for edits to a cell of the grid. The text box is updated on
+     * every keystroke so that other views stay current, while the grid is
+     * only re-validated to avoid losing the focus.
+     *
+     * @param e The input or change event.
+     * @param commit Whether the edit is complete.
+     */
+    private static handleEdit(e: JQuery.Event, commit: boolean): void {
+        const input = $(e.currentTarget);
+        const row = EditorView._rows[EditorView.getIndex(e)];
+        const value = String(input.val());
+        switch (input.attr("data-field")) {
+            case "nation":
+                row.nation = value;
+                break;
+            case "password":
+                row.password = value;
+                break;
+            case "tags":
+                row.tags = CredentialParser.parseTags(value);
+                if (row.tags.length === 0) {
+                    delete row.tags;
+                }
+                break;
+        }
+        EditorView.sync(commit);
+        EditorView.validate();
+    }
+
+    /**
+     * Handler for pasting into a cell of the grid. Text with several lines
+     * or tab-separated fields, such as cells copied from a spreadsheet, is
+     * parsed and added as new rows after the current one, replacing it if it
+     * is empty. Other text is pasted into the cell as usual.
+     *
+     * @param e The paste event.
+     */
+    private static handlePaste(e: JQuery.Event): void {
+        const clipboard = (e.originalEvent as ClipboardEvent).clipboardData;
+        const text = clipboard.getData("text/plain").trim();
+        if (!/[\n\t]/.test(text)) {
+            return;
+        }
+        e.preventDefault();
+
+        const result = CredentialParser.parse(text);
+        const errors = result.diagnostics.filter(
+            diagnostic => diagnostic.severity === Severity.Error).length;
+        const index = EditorView.getIndex(e);
+        const row = EditorView._rows[index];
+        const empty = row.nation === "" && row.password === "";
+        EditorView._rows.splice(empty ? index : index + 1, empty ? 1 : 0,
+                                ...result.credentials);
+        EditorView._sortColumn = null;
+        EditorView.sync(true);
+        EditorView.render();
+
+        $("#editorStatus").text(
+            errors === 0
+                ? I18n.t("editor.pasted", {count: result.credentials.length})
+                : I18n.t("editor.pastedErrors", {
+                    count: result.credentials.length,
+                    errors
+                }));
+    }
+
+    /**
+     * Handler for the add button. Adds an empty row at the end of the grid.
+     */
+    private static handleAdd(): void {
+        EditorView._rows.push({nation: "", password: ""});
+        EditorView._sortColumn = null;
+        $("#editorSearch").val("");
+        $("#editorStatus").text("");
+        EditorView.render();
+        $("#editorTable").find("tbody tr").last()
+                         .find("input[data-field=nation]").focus();
+    }
+
+    /**
+     * Handler for the delete buttons.
+     *
+     * @param e The click event.
+     */
+    private static handleDelete(e: JQuery.Event): void {
+        EditorView._rows.splice(EditorView.getIndex(e), 1);
+        EditorView.sync(true);
+        EditorView.render();
+    }
+
+    /**
+     * Handler for clicking a column header. Sorts the rows by the column,
+     * reversing the order if they are already sorted by it. The new order
+     * is written back to the text box.
+     *
+     * @param column The column.
+     */
+    private static handleSort(column: Column): void {
+        if (EditorView._errors > 0) {
+            return;
+        }
+        if (EditorView._sortColumn === column) {
+            EditorView._sortAscending = !EditorView._sortAscending;
+        } else {
+            EditorView._sortColumn = column;
+            EditorView._sortAscending = true;
+        }
+
+        // Array.prototype.sort is not guaranteed to be stable
+        const rows = EditorView._rows;
+        const direction = EditorView._sortAscending ? 1 : -1;
+        const order = rows.map((_, i) => i);
+        order.sort((a, b) => {
+            const x = EditorView.getSortKey(rows[a], column);
+            const y = EditorView.getSortKey(rows[b], column);
+            return x < y ? -direction : x > y ? direction : a - b;
+        });
+        EditorView._rows = order.map(i => rows[i]);
+        EditorView.sync(true);
+        EditorView.render();
+    }
+
+    /**
+     * Gets the value used to sort a row by the specified column.
+     *
+     * @param row The row.
+     * @param column The column.
+     *
+     * @return The sort key.
+     */
+    private static getSortKey(row: Credential, column: Column): string {
+        switch (column) {
+            case "nation":
+                return row.nation.toLowerCase();
+            case "tags":
+                return (row.tags || []).join(" ").toLowerCase();
+        }
+    }
+}
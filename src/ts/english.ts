@@ -0,0 +1,640 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {Catalogue} from "./i18n";
+
+/**
+ * The English message catalogue. Every message key must be present here,
+ * since English is used for messages missing from the other catalogues.
+ */
+const English: Catalogue = {
+    // Run log and results
+    "app.unknownError": "Unknown error",
+    "app.afterAttempts": " after {attempts} attempts",
+    "app.resuming": "Resuming interrupted run at nation {index} of {total}",
+    "app.autoMode": "Auto mode",
+    "app.loginMode": "Login mode",
+    "app.restoreMode": "Restore mode",
+    "app.smartMode": "Smart mode",
+    "app.cancelled": "Cancelled",
+    "app.stoppedByError": "Not processed because the run stopped with an error",
+    "app.notProcessed": "Not processed",
+    "app.processCancelled": "Process cancelled.",
+    "app.processComplete": "Process complete.",
+    "app.runFailed": "Process stopped because of an error: {reason}",
+    "app.cancelling": "Cancelling...",
+    "app.pausing": "Pausing...",
+    "app.unpausing": "Unpausing...",
+    "app.nationExists": "{nation}: Nation exists",
+    "app.nationDoesNotExist": "{nation}: Nation does not exist",
+    "app.daysLeft": "{nation}: {days} days until nation ceases to exist",
+    "app.lastLoginFailed": "{nation}: Could not get last login",
+    "app.skippedDaysLeft": "{days} days until nation ceases to exist",
+    "app.smartSummary": "{count} nations need attention, {skipped} skipped",
+    "app.loggingIn": "{nation}: Logging in...",
+    "app.lastLoginTooOld": "More than 30 seconds between now and last login",
+    "app.loginFailed": "{nation}: Login failed",
+    "app.loginSuccessful":
+        "{nation}: Login successful (or nation was logged into in the last 30"
+        + " seconds)",
+    "app.waitingForConfirmation": "{nation}: Waiting for confirmation...",
+    "app.confirmationReceived": "{nation}: Confirmation received, restoring...",
+    "app.restoreSuccessful": "{nation}: Restore successful",
+    "app.restored": "Restored",
+    "app.alreadyExists": "{nation}: Nation already exists, no restore needed",
+    "app.alreadyExisted": "Already existed",
+    "app.restoreFailed":
+        "{nation}: Restore failed: wrong password or nation cannot be restored",
+    "app.notRestorable": "Wrong password or not restorable",
+    "app.restoreUnverified":
+        "{nation}: Restore submitted, but it could not be verified",
+    "app.verifyTimedOut":
+        "Timed out waiting for the restored nation to appear; the password"
+        + " may be wrong",
+    "app.verifyCancelled": "Cancelled before the restore could be verified",
+    "app.restoreFormTimedOut":
+        "Timed out after {seconds} seconds waiting for the restore form to"
+        + " load",
+    "app.restoreSubmitTimedOut":
+        "Timed out after {seconds} seconds waiting for the restore form"
+        + " submission",
+    "app.restoreDeferred":
+        "{nation}: Nation needs to be restored, deferred until confirmed",
+    "app.restoreNeeded": "Restore needed",
+    "app.restoreUnknown": "{nation}: Restore outcome unknown",
+    "app.unknownReason": "Unknown: {reason}",
+    "app.autologinRejected":
+        "{nation}: Autologin token rejected, trying password",
+    "app.restoreNoPassword": "{nation}: Cannot restore without a password",
+    "app.passwordRequired": "Password needed to restore",
+    "app.snapshotFailed": "{nation}: Could not take snapshot",
+    "app.attemptFailed":
+        "{nation}: {action} attempt {attempt} of {maxAttempts} failed,"
+        + " retrying in {seconds} seconds",
+    "action.None": "None",
+    "action.Login": "Login",
+    "action.Restore": "Restore",
+    "outcome.Pending": "Pending",
+    "outcome.Success": "Success",
+    "outcome.Failure": "Failure",
+    "outcome.Skipped": "Skipped",
+    "outcome.Deferred": "Deferred",
+    "outcome.Unknown": "Unknown",
+    "mode.Auto": "Auto",
+    "mode.Login": "Login",
+    "mode.Restore": "Restore",
+    "mode.Smart": "Smart",
+    "progress.counters":
+        "{succeeded} succeeded, {failed} failed, {skipped} skipped, {deferred}"
+        + " deferred, {unknown} unknown",
+    "progress.idle": "No run has started yet.",
+    "progress.summary":
+        "{processed} of {total} nations processed ({percent}%)",
+    "progress.timeFinished": "Finished in {elapsed}.",
+    "progress.timePaused":
+        "Elapsed: {elapsed}. Paused; about {remaining} left once resumed.",
+    "progress.timeRunning": "Elapsed: {elapsed}. About {remaining} left.",
+    "progress.timeWaiting":
+        "Elapsed: {elapsed}. Waiting for a restore to be confirmed; about"
+        + " {remaining} left after that.",
+    "results.summary":
+        "{succeeded} succeeded, {failed} failed, {skipped} skipped, {deferred}"
+        + " deferred, {unknown} unknown, {pending} pending",
+    "snapshot.shard.region": "Region",
+    "snapshot.shard.wa": "WA status",
+    "snapshot.shard.endorsements": "Endorsements",
+    "snapshot.shard.influence": "Influence",
+    "snapshot.shard.unread": "Unread issues, telegrams and notices",
+    "snapshot.column.region": "Region",
+    "snapshot.column.wa": "WA status",
+    "snapshot.column.endorsements": "Endorsements",
+    "snapshot.column.influence": "Influence",
+    "snapshot.column.issues": "Unread issues",
+    "snapshot.column.telegrams": "Unread telegrams",
+    "snapshot.column.notices": "Unread notices",
+    "snapshot.error": "Error",
+    "history.unavailable":
+        "Run history is not available because this browser does not allow"
+        + " IndexedDB storage.",
+    "history.error": "Could not access the run history: {error}",
+    "history.retentionInvalid":
+        "The number of runs and of days to keep must be whole numbers no less"
+        + " than 1.",
+    "history.confirmClear":
+        "Delete the history of all runs? This cannot be undone.",
+    "history.completed": "Completed",
+    "history.cancelled": "Cancelled",
+    "history.never": "Never",
+    "history.timelineNone": "Timeline (select a nation above)",
+    "history.timelineTitle": "Timeline of {nation}",
+
+    // Configuration validation and runs
+    "ui.userAgentRequired": "You must specify a user agent.",
+    "ui.retryInvalid":
+        "The number of attempts must be a whole number of at least 1, and the"
+        + " retry delay must be at least 1 second.",
+    "ui.smartThresholdInvalid":
+        "The smart mode threshold must be a number of days no less than 0.",
+    "ui.credentialsInvalidEntry":
+        "Nation names and passwords text box contains {count} invalid entry.",
+    "ui.credentialsInvalidEntries":
+        "Nation names and passwords text box contains {count} invalid entries.",
+    "ui.credentialsRequired":
+        "You must specify at least one nation name and password.",
+    "ui.diagnosticError": "{location}: Error: {message}",
+    "ui.diagnosticWarning": "{location}: Warning: {message}",
+    "ui.diagnosticsMore": "...and {count} more",
+    "ui.preflightSummary": "{count} of {total} entries will be processed.",
+    "ui.preflightSummarySkipped":
+        "{count} of {total} entries will be processed; {skipped} will be"
+        + " skipped because of the problems listed below.",
+    "ui.runLabel": "{mode} mode, {count} nations",
+    "ui.resume": "Resume",
+    "ui.resumeMessage":
+        "A run started on {startedAt} was interrupted after {index} of {total}"
+        + " nations were processed. Make sure your nation names and passwords"
+        + " are loaded before resuming it.",
+    "ui.resumeMissingPasswords":
+        "The passwords for the following nations are missing from the nation"
+        + " names and passwords text box: {nations}",
+    "ui.usingSimulator":
+        "Using the offline simulator; no requests will be sent to NationStates",
+    "ui.scheduledRunBusy":
+        "Scheduled run skipped because another run is in progress",
+    "ui.scheduledRunOtherTab":
+        "Scheduled run skipped because a run is in progress in another tab",
+    "ui.scheduledRunInvalid": "Scheduled run could not start: {reason}",
+    "ui.scheduledRunStarting": "Starting scheduled run",
+    "ui.scheduledRunSummary":
+        "{succeeded} succeeded, {failed} failed, {skipped} skipped.",
+    "ui.scheduledRunQueue": "{count} nations need to be restored: {nations}",
+    "ui.scheduledRunFailedTitle": "nslogin-web scheduled run failed",
+    "ui.scheduledRunFinishedTitle": "nslogin-web scheduled run finished",
+    "ui.savedConfigurationInvalid":
+        "The saved configuration is missing or invalid. Scheduled runs use the"
+        + " saved configuration, so save a valid one first.",
+    "ui.savedCredentialsInvalid":
+        "The saved nation names and passwords are missing or contain invalid"
+        + " entries.",
+    "ui.selectionEmpty": "No nations match the selection.",
+    "parser.comma": "a comma",
+    "parser.tab": "a tab",
+    "parser.line": "Line {line}",
+    "parser.entry": "Entry {entry}",
+    "parser.expectedPair":
+        "Expected a nation name and a password separated by {separator}",
+    "parser.fieldCount": "Expected 2 fields but found {count}",
+    "parser.passwordContainsSeparator":
+        "Password contains {separator}; treating everything after the first"
+        + " one as the password (quote the password to avoid this warning)",
+    "parser.unterminated": "Quoted field is never closed",
+    "parser.invalidJson": "Invalid JSON: {error}",
+    "parser.expectedArray":
+        "Expected an array of objects with \"nation\" and \"password\""
+        + " properties",
+    "parser.expectedObject":
+        "Expected an object with string \"nation\" and \"password\" properties",
+    "parser.invalidTags": "The \"tags\" property must be an array of strings",
+    "parser.missingNation": "Missing nation name",
+    "preflight.invalidCharacters":
+        "Name contains characters that are not allowed in nation names",
+    "preflight.tooLong": "Name is longer than {length} characters",
+    "preflight.duplicate": "Duplicate of {nation}",
+    "preflight.conflictingPassword":
+        "Duplicate of {nation} with a different password; the first password"
+        + " will be used",
+    "preflight.missingPassword": "No password or autologin token",
+    "simulator.latencyInvalid":
+        "The simulated latency must be a number of milliseconds no less than"
+        + " 0.",
+    "simulator.failureRateInvalid":
+        "The simulated failure rate must be a percentage from 0 to 100.",
+    "simulator.unterminated": "Line {line}: Unterminated quoted field",
+    "simulator.expectedFields":
+        "Line {line}: Expected a nation, password and number of days",
+    "simulator.daysInvalid":
+        "Line {line}: The number of days must be a number no less than 0 or"
+        + " \"dead\"",
+    "selection.allTags": "All tags",
+    "selection.summaryAll": "All {total} nations will be processed.",
+    "selection.summary": "{count} of {total} nations will be processed.",
+    "selection.noPreviousRun":
+        "No previous run has been recorded, so no nations can be selected by"
+        + " their outcome in the previous run.",
+
+    // Restore confirmation, rate limit and other tabs
+    "confirmation.current": "{nation} needs to be restored.",
+    "confirmation.countdown":
+        "The next restore can be submitted in {seconds} seconds. Confirming"
+        + " now will submit it then.",
+    "confirmation.ready": "The next restore can be submitted now.",
+    "confirmation.submitting": "Submitting in {seconds} seconds...",
+    "rate.status":
+        "{requests} requests in the last minute; {remaining} of {limit}"
+        + " requests left in the current {window} second window; {interval}"
+        + " seconds between requests.",
+    "rate.statusSlowed":
+        "{requests} requests in the last minute; {remaining} of {limit}"
+        + " requests left in the current {window} second window; {interval}"
+        + " seconds between requests (slowed down from {baseInterval} seconds"
+        + " after a rate limit error).",
+    "rate.estimated":
+        "The requests left are estimated from this client's own requests,"
+        + " since NationStates has not reported them.",
+    "rate.paused":
+        "Requests are paused for {seconds} seconds because NationStates asked"
+        + " for fewer requests.",
+    "schedule.nextRun": "The next run is scheduled for {time}.",
+    "tab.saveConfirm":
+        "The configuration was changed in another tab. Saving will overwrite"
+        + " those changes. Continue?",
+    "tab.runLock":
+        "A run ({label}) has been in progress in another tab since {since}."
+        + " Runs cannot be started in this tab until it finishes, so that the"
+        + " two tabs do not together exceed the NationStates rate limits.",
+
+    // Profiles and vault
+    "profile.newPrompt": "Name of the new profile:",
+    "profile.renamePrompt": "New name of the profile:",
+    "profile.duplicatePrompt": "Name of the copy:",
+    "profile.copyName": "{name} (copy)",
+    "profile.deleteConfirm":
+        "The profile \"{name}\" and the nation names and passwords saved in it"
+        + " will be permanently deleted. Continue?",
+    "profile.imported": "Imported profile \"{name}\".",
+    "profile.noLocalStorage": "Local storage is not available.",
+    "profile.lastProfile": "The last profile cannot be deleted.",
+    "profile.invalidJson": "The file is not valid JSON.",
+    "profile.notProfile": "The file is not an nslogin-web profile.",
+    "profile.unsupportedVersion": "Profile version {version} is not supported.",
+    "profile.notFound": "There is no profile named \"{name}\".",
+    "profile.emptyName": "Profile names cannot be empty.",
+    "profile.exists": "A profile named \"{name}\" already exists.",
+    "profile.corrupt":
+        "The saved profiles are damaged and cannot be read. They have been"
+        + " left unchanged, and no configuration can be saved until they are"
+        + " removed from local storage.",
+    "vault.unlocked": "Vault unlocked",
+    "vault.locked": "Vault locked",
+    "vault.unlockTitle": "Unlock vault",
+    "vault.unlockMessage":
+        "Enter your passphrase to load your saved nation names and passwords.",
+    "vault.createTitle": "Create vault",
+    "vault.createMessage":
+        "Choose a passphrase. Your nation names and passwords will be"
+        + " encrypted with it and saved in local storage. The passphrase"
+        + " cannot be recovered if you forget it.",
+    "vault.changeTitle": "Change passphrase",
+    "vault.changeMessage": "Choose a new passphrase for your vault.",
+    "vault.disableConfirm":
+        "Your nation names and passwords will be saved in local storage as"
+        + " plaintext. Continue?",
+    "vault.wipeConfirm":
+        "The vault and the nation names and passwords in it will be"
+        + " permanently deleted. Continue?",
+    "vault.passphraseRequired": "You must specify a passphrase.",
+    "vault.passphraseMismatch": "The passphrases do not match.",
+    "vault.notSaved": "No vault is saved.",
+    "vault.incorrectPassphrase": "Incorrect passphrase.",
+    "vault.lockedError": "Vault is locked.",
+    "vault.saveFailed": "Could not save the vault: {error}",
+    "autologin.status":
+        "{count} of {total} nations have autologin tokens; {passwords} of"
+        + " them still have passwords.",
+    "autologin.purgeInvalid":
+        "Correct the errors in the nation names and passwords before"
+        + " removing passwords.",
+    "autologin.purgeConfirm":
+        "Remove the passwords of {count} nations that have autologin tokens?"
+        + " Nations whose tokens stop working will need their passwords to"
+        + " be entered again.",
+    "autologin.forgetConfirm":
+        "Forget all saved autologin tokens? Nations without passwords will"
+        + " no longer be able to log in.",
+    "editor.autologinPlaceholder": "Autologin token saved",
+    "editor.delete": "Delete",
+    "editor.summary": "{count} nations, {problems} with problems.",
+    "editor.summaryFiltered":
+        "Showing {shown} of {count} nations; {problems} with problems.",
+    "editor.invalidText":
+        "{count} entries in the text contain errors and cannot be shown in"
+        + " the grid. Switch to the text to correct them before editing the"
+        + " grid.",
+    "editor.pasted": "Added {count} nations.",
+    "editor.pastedErrors":
+        "Added {count} nations; {errors} entries could not be read.",
+
+    // Region tool and password audit
+    "region.required": "You must specify a region.",
+    "region.fetching": "Fetching nations...",
+    "region.fetchFailed": "Could not fetch the nations in {region}.",
+    "region.summary": "{count} nations in {region}.",
+    "region.added":
+        "Added {count} nations to the list. Fill in their passwords after the"
+        + " commas before starting.",
+    "audit.noProblems":
+        "No problems found with the passwords of {count} entries.",
+    "audit.summary":
+        "{count} problems found affecting {nations} nations: {high} high,"
+        + " {medium} medium and {low} low severity.",
+    "audit.kindEmpty": "Empty",
+    "audit.kindSameAsName": "Same as name",
+    "audit.kindReused": "Reused",
+    "audit.kindWeak": "Weak",
+    "audit.empty": "Password is empty",
+    "audit.sameAsName": "Password is the same as the nation name",
+    "audit.containsName": "Password contains the nation name",
+    "audit.common": "Password is a commonly used password",
+    "audit.shorterThan": "Password is shorter than {length} characters",
+    "audit.repeated": "Password repeats a single character",
+    "audit.oneKind":
+        "Password uses only one kind of character, such as only lowercase"
+        + " letters or only digits",
+    "audit.sharedWithNation":
+        "Password is shared with {count} other nation: {nations}",
+    "audit.sharedWithNations":
+        "Password is shared with {count} other nations: {nations}",
+    "severity.Low": "Low",
+    "severity.Medium": "Medium",
+    "severity.High": "High",
+
+    // Static page
+    "page.about": "About",
+    "page.action": "Action",
+    "page.allOutcomes": "All outcomes",
+    "page.attempts": "Attempts",
+    "page.auditHelp":
+        "Checks the passwords in the nation names and passwords list for"
+        + " problems: empty passwords, passwords that are the same as the"
+        + " nation name, passwords shared by several nations and weak"
+        + " passwords. The check is done entirely in your browser.",
+    "page.auditPasswords": "Audit Passwords",
+    "page.autoLoadSave":
+        "Automatically load and save configuration in local storage",
+    "page.autoLoadSaveNote": "(when page is loaded and unloaded)",
+    "page.autologin": "Autologin Tokens",
+    "page.autologinHelp":
+        "After each successful login, NationStates issues an autologin token"
+        + " that is saved with the nation and used instead of its password"
+        + " in later runs. Once nations have tokens, their passwords can be"
+        + " removed; a password is still needed to restore a nation.",
+    "page.cancel": "Cancel",
+    "page.changePassphrase": "Change Passphrase",
+    "page.characters": "characters",
+    "page.clearLog": "Clear Log",
+    "page.configConflict":
+        "The configuration was saved in another tab. Load it to see the"
+        + " changes there; saving in this tab will overwrite them."
+        + " Configuration is not saved automatically when this tab is closed"
+        + " until it is loaded or saved again.",
+    "page.configuration": "Configuration",
+    "page.confirmPassphrase": "Confirm passphrase",
+    "page.confirmRestore": "Confirm Restore",
+    "page.confirmationHelp":
+        "Please note that you will be required to confirm the restoration of"
+        + " each nation that needs to be restored by clicking the \"Confirm"
+        + " Restore\" button below or by pressing <kbd>Enter</kbd> or"
+        + " <kbd>C</kbd>. This is required to satisfy the 'one click per"
+        + " action' NationStates script rule for actions that affect parts of"
+        + " NationStates other than your own nation. Click \"Skip\" or press"
+        + " <kbd>S</kbd> to leave a nation unrestored without cancelling the"
+        + " run.",
+    "page.confirmationNone": "No restore is awaiting confirmation.",
+    "page.copy": "Copy",
+    "page.credentials": "Nation names and passwords",
+    "page.credentialsFormatHelp":
+        "Passwords containing commas or quotes can be enclosed in double"
+        + " quotes, with any quotes inside doubled. Tab-separated text and"
+        + " JSON arrays of objects with \"nation\" and \"password\" properties"
+        + " are also accepted. You can import a CSV, TSV or JSON file by"
+        + " dropping it onto the text box or using the button below.",
+    "page.credentialsHelp":
+        "Nation names and passwords must be entered in the form"
+        + " \"nation,password\", with one pair on each line. For example:",
+    "page.credentialsTagsHelp":
+        "To run groups of nations separately, add a line such as"
+        + " \"[puppets wa]\" to tag the nations on the following lines with"
+        + " \"puppets\" and \"wa\", up to the next such line. \"[]\" clears"
+        + " the tags. In JSON, give each object a \"tags\" array instead.",
+    "page.details": "Details",
+    "page.discardRun": "Discard Run",
+    "page.dismiss": "Dismiss",
+    "page.downloadLog": "Download Log",
+    "page.duration": "Duration",
+    "page.editorAdd": "Add Nation",
+    "page.editorGrid": "Grid",
+    "page.editorHelp":
+        "The grid and the text show the same nations; changes in one appear"
+        + " in the other. Problems are shown next to each row as you type."
+        + " Click the Nation or Tags heading to sort the nations, and paste"
+        + " several lines or cells copied from a spreadsheet into any cell to"
+        + " add them all at once.",
+    "page.editorReveal": "Show passwords",
+    "page.editorSearch": "Search nations or tags",
+    "page.editorText": "Text",
+    "page.exportCsv": "Export CSV",
+    "page.exportJson": "Export JSON",
+    "page.failures": "Failures",
+    "page.filterByNation": "Filter by nation",
+    "page.forgetAutologin": "Forget Tokens",
+    "page.forumPage": "NationStates forum page:",
+    "page.generate": "Generate",
+    "page.generatorHelp":
+        "Generates a random password of letters and digits to replace a weak"
+        + " one. Change the password on NationStates before updating the list.",
+    "page.githubRepository": "GitHub repository:",
+    "page.historyClear": "Clear History",
+    "page.historyEmpty": "No runs have been recorded yet.",
+    "page.historyHelp":
+        "Each finished run is recorded in this browser, without any passwords,"
+        + " so that you can see when each nation was last logged into or"
+        + " restored.",
+    "page.historyKeepAfter": "days.",
+    "page.historyKeepBefore": "Keep at most",
+    "page.historyKeepMiddle": "runs, and delete runs older than",
+    "page.historyRuns": "Runs",
+    "page.importFromFile": "Import from File",
+    "page.language": "Language",
+    "page.languageHelp":
+        "The language of this page and of the log. Messages that have not been"
+        + " translated are shown in English.",
+    "page.lastOutcome": "Last outcome",
+    "page.lastSuccess": "Last success",
+    "page.lead":
+        "nslogin-web is a free and open source web application that allows you"
+        + " to automatically log into and semi-automatically restore"
+        + " NationStates nations.",
+    "page.levelDebug": "Debug",
+    "page.levelError": "Error",
+    "page.levelInfo": "Info",
+    "page.levelWarn": "Warning",
+    "page.license": "License",
+    "page.licensedUnder":
+        "nslogin-web is licensed under the Apache License 2.0:",
+    "page.loadConfiguration": "Load Configuration",
+    "page.localStorage": "Local storage",
+    "page.log": "Log",
+    "page.logFilterAll": "All messages",
+    "page.logFilterErrors": "Errors only",
+    "page.logFilterInfo": "Info and above",
+    "page.logFilterWarnings": "Warnings and errors",
+    "page.logLevel": "Log level",
+    "page.logLevelHelp":
+        "The least severe messages that are recorded in the log. Debug"
+        + " includes detailed error messages.",
+    "page.mode": "Operating mode",
+    "page.modeAutoNote":
+        "(automatically log into or restore each nation, depending on whether"
+        + " or not it currently exists)",
+    "page.modeLoginNote": "(try to log into each nation)",
+    "page.modeRestoreNote": "(try to restore each nation)",
+    "page.modeSmartNote":
+        "(check when each nation was last logged into, then log into or"
+        + " restore only the nations close to ceasing to exist, most urgent"
+        + " first)",
+    "page.nation": "Nation",
+    "page.nations": "Nations",
+    "page.ok": "OK",
+    "page.outcome": "Outcome",
+    "page.passphrase": "Passphrase",
+    "page.password": "Password",
+    "page.passwordAudit": "Password Audit",
+    "page.passwordGenerator": "Password Generator",
+    "page.pause": "Pause",
+    "page.problem": "Problem",
+    "page.profile": "Profile",
+    "page.profileDelete": "Delete",
+    "page.profileDuplicate": "Duplicate",
+    "page.profileExport": "Export",
+    "page.profileHelp":
+        "Each profile has its own saved configuration, including nation names"
+        + " and passwords. Exported profiles contain your passwords unless"
+        + " they are encrypted.",
+    "page.profileImport": "Import",
+    "page.profileNew": "New",
+    "page.profileRename": "Rename",
+    "page.progress": "Progress",
+    "page.purgePasswords": "Remove Passwords",
+    "page.rateLimit": "Rate limit",
+    "page.rateLimitHelp":
+        "The number of milliseconds between requests to NationStates,"
+        + " including restore form submissions. Restore forms are also never"
+        + " submitted more than once every 6 seconds. The time between"
+        + " requests is increased automatically if NationStates reports that"
+        + " it is being exceeded.",
+    "page.reason": "Reason",
+    "page.region": "Region",
+    "page.regionAbsent": "In list but not in region",
+    "page.regionCompare": "Compare",
+    "page.regionHelp":
+        "Compares the nation names and passwords list with the nations"
+        + " currently in a region. Nations in the region that are missing from"
+        + " the list can be added to it, with the passwords left for you to"
+        + " fill in.",
+    "page.regionMerge": "Add Missing Nations to List",
+    "page.regionMissing": "In region but not in list",
+    "page.regionTool": "Region Tool",
+    "page.restoreConfirmation": "Restore Confirmation",
+    "page.restoreNow": "Restore Now",
+    "page.restoreQueueHelp":
+        "The following nations need to be restored. They were found during a"
+        + " scheduled run and have not yet been restored.",
+    "page.results": "Results",
+    "page.resumeRun": "Resume Run",
+    "page.retries": "Retries",
+    "page.retriesAttempts": "attempts, waiting",
+    "page.retriesDelay": "seconds before the first retry",
+    "page.retriesHelp":
+        "The maximum number of attempts for each nation, and the number of"
+        + " seconds to wait before the first retry. The wait doubles after"
+        + " each retry. Only temporary failures, such as timeouts and server"
+        + " errors, are retried; a wrong password is not.",
+    "page.reviewNations": "Review nations",
+    "page.runMode": "Mode",
+    "page.runStarted": "Run started",
+    "page.saveConfiguration": "Save Configuration",
+    "page.schedule": "Schedule",
+    "page.scheduleEnabled": "Run again automatically while this page is open",
+    "page.scheduleHelp":
+        "Scheduled runs use the saved configuration. Nations that need to be"
+        + " restored are not restored during scheduled runs; they are queued"
+        + " on the status tab so you can confirm each restore when you return."
+        + " A desktop notification is shown when a scheduled run finishes, if"
+        + " your browser allows it.",
+    "page.scheduleIntervalAfter": "days",
+    "page.scheduleIntervalBefore": "Run every",
+    "page.scrollToBottom": "Automatically scroll to bottom",
+    "page.selection": "Selection",
+    "page.selectionAny": "Any outcome in the previous run",
+    "page.selectionClear": "Clear",
+    "page.selectionFailed": "Failed in the previous run",
+    "page.selectionFailedOrRestore":
+        "Failed, needed restoring or could not be verified in the previous run",
+    "page.selectionHelp":
+        "Process only some of the nations above, for example to retry the ones"
+        + " that failed. The list itself is not changed.",
+    "page.selectionPattern": "Name pattern, e.g. puppet*",
+    "page.selectionRestore": "Needed restoring in the previous run",
+    "page.selectionUnknown": "Could not be verified in the previous run",
+    "page.severity": "Severity",
+    "page.simulator": "Simulator",
+    "page.simulatorEnabled":
+        "Use the offline simulator instead of NationStates",
+    "page.simulatorEnabledNote":
+        "(for rehearsals and demonstrations; no requests are sent to"
+        + " NationStates)",
+    "page.simulatorFailureRateAfter": "percent of the time.",
+    "page.simulatorFill": "Fill from Nation Names and Passwords",
+    "page.simulatorHelp":
+        "Simulated nations must be entered in the form"
+        + " \"nation,password,days\", where days is the number of days since"
+        + " the nation was last logged into, or \"dead\" if the nation has"
+        + " ceased to exist. Nations that are not listed do not exist and"
+        + " cannot be restored.",
+    "page.simulatorLatencyAfter": "milliseconds and fails",
+    "page.simulatorLatencyBefore": "Each request takes",
+    "page.skip": "Skip",
+    "page.smartThresholdAfter": "days left before they cease to exist.",
+    "page.smartThresholdBefore": "Smart mode skips nations with more than",
+    "page.snapshot": "Snapshot",
+    "page.snapshotHelp":
+        "After each successful login or restore, record the following"
+        + " information about the nation in a table on the status tab. Each"
+        + " selected item is requested with the same rate limit as other API"
+        + " requests.",
+    "page.start": "Start",
+    "page.started": "Started",
+    "page.status": "Status",
+    "page.successes": "Successes",
+    "page.tabAbout": "About",
+    "page.tabConfiguration": "Configuration",
+    "page.tabHistory": "History",
+    "page.tabStatus": "Status",
+    "page.tags": "Tags",
+    "page.time": "Time",
+    "page.userAgent": "User agent",
+    "page.userAgentHelp":
+        "A string identifying you to NationStates. Using the name of your main"
+        + " nation is recommended.",
+    "page.vaultEnabled":
+        "Encrypt saved nation names and passwords with a passphrase",
+    "page.vaultEnabledNote":
+        "(you will be asked for the passphrase when the configuration is"
+        + " loaded)",
+    "page.waitingToBeRestored": "Waiting to be restored:",
+    "page.wipeVault": "Wipe Vault"
+};
+
+export default English;
@@ -0,0 +1,703 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {Catalogue} from "./i18n";
+
+/**
+ * The French message catalogue.
+ */
+const French: Catalogue = {
+    // Run log and results
+    "app.unknownError": "Erreur inconnue",
+    "app.afterAttempts": " après {attempts} tentatives",
+    "app.resuming":
+        "Reprise de l'exécution interrompue à la nation {index} sur {total}",
+    "app.autoMode": "Mode automatique",
+    "app.loginMode": "Mode connexion",
+    "app.restoreMode": "Mode restauration",
+    "app.smartMode": "Mode intelligent",
+    "app.cancelled": "Annulé",
+    "app.stoppedByError":
+        "Non traitée car l'exécution s'est arrêtée à cause d'une erreur",
+    "app.notProcessed": "Non traitée",
+    "app.processCancelled": "Traitement annulé.",
+    "app.processComplete": "Traitement terminé.",
+    "app.runFailed": "Traitement interrompu à cause d'une erreur : {reason}",
+    "app.cancelling": "Annulation...",
+    "app.pausing": "Mise en pause...",
+    "app.unpausing": "Reprise...",
+    "app.nationExists": "{nation} : la nation existe",
+    "app.nationDoesNotExist": "{nation} : la nation n'existe pas",
+    "app.daysLeft":
+        "{nation} : {days} jours avant que la nation cesse d'exister",
+    "app.lastLoginFailed":
+        "{nation} : impossible d'obtenir la dernière connexion",
+    "app.skippedDaysLeft": "{days} jours avant que la nation cesse d'exister",
+    "app.smartSummary": "{count} nations à traiter, {skipped} ignorées",
+    "app.loggingIn": "{nation} : connexion...",
+    "app.lastLoginTooOld":
+        "Plus de 30 secondes entre maintenant et la dernière connexion",
+    "app.loginFailed": "{nation} : échec de la connexion",
+    "app.loginSuccessful":
+        "{nation} : connexion réussie (ou la nation a été connectée au cours"
+        + " des 30 dernières secondes)",
+    "app.waitingForConfirmation": "{nation} : en attente de confirmation...",
+    "app.confirmationReceived":
+        "{nation} : confirmation reçue, restauration...",
+    "app.restoreSuccessful": "{nation} : restauration réussie",
+    "app.restored": "Restaurée",
+    "app.alreadyExists":
+        "{nation} : la nation existe déjà, aucune restauration nécessaire",
+    "app.alreadyExisted": "Existait déjà",
+    "app.restoreFailed":
+        "{nation} : échec de la restauration : mot de passe incorrect ou"
+        + " nation impossible à restaurer",
+    "app.notRestorable":
+        "Mot de passe incorrect ou nation impossible à restaurer",
+    "app.restoreUnverified":
+        "{nation} : restauration envoyée, mais elle n'a pas pu être vérifiée",
+    "app.verifyTimedOut":
+        "Délai dépassé en attendant l'apparition de la nation restaurée ; le"
+        + " mot de passe est peut-être incorrect",
+    "app.verifyCancelled":
+        "Annulé avant que la restauration puisse être vérifiée",
+    "app.restoreFormTimedOut":
+        "Délai de {seconds} secondes dépassé en attendant le chargement du"
+        + " formulaire de restauration",
+    "app.restoreSubmitTimedOut":
+        "Délai de {seconds} secondes dépassé en attendant l'envoi du"
+        + " formulaire de restauration",
+    "app.restoreDeferred":
+        "{nation} : la nation doit être restaurée, reporté jusqu'à"
+        + " confirmation",
+    "app.restoreNeeded": "Restauration nécessaire",
+    "app.restoreUnknown": "{nation} : résultat de la restauration inconnu",
+    "app.unknownReason": "Inconnu : {reason}",
+    "app.autologinRejected":
+        "{nation} : jeton de connexion automatique refusé, essai du mot de"
+        + " passe",
+    "app.restoreNoPassword":
+        "{nation} : impossible de restaurer sans mot de passe",
+    "app.passwordRequired": "Mot de passe requis pour restaurer",
+    "app.snapshotFailed": "{nation} : impossible de prendre l'instantané",
+    "app.attemptFailed":
+        "{nation} : échec de la tentative {attempt} sur {maxAttempts}"
+        + " ({action}), nouvel essai dans {seconds} secondes",
+    "action.None": "Aucune",
+    "action.Login": "Connexion",
+    "action.Restore": "Restauration",
+    "outcome.Pending": "En attente",
+    "outcome.Success": "Réussite",
+    "outcome.Failure": "Échec",
+    "outcome.Skipped": "Ignorée",
+    "outcome.Deferred": "Reportée",
+    "outcome.Unknown": "Inconnue",
+    "mode.Auto": "Automatique",
+    "mode.Login": "Connexion",
+    "mode.Restore": "Restauration",
+    "mode.Smart": "Intelligent",
+    "progress.counters":
+        "{succeeded} réussies, {failed} échouées, {skipped} ignorées,"
+        + " {deferred} reportées, {unknown} inconnues",
+    "progress.idle": "Aucune exécution n'a encore commencé.",
+    "progress.summary":
+        "{processed} nations traitées sur {total} ({percent} %)",
+    "progress.timeFinished": "Terminé en {elapsed}.",
+    "progress.timePaused":
+        "Temps écoulé : {elapsed}. En pause ; environ {remaining} restant"
+        + " après la reprise.",
+    "progress.timeRunning":
+        "Temps écoulé : {elapsed}. Environ {remaining} restant.",
+    "progress.timeWaiting":
+        "Temps écoulé : {elapsed}. En attente de la confirmation d'une"
+        + " restauration ; environ {remaining} restant ensuite.",
+    "results.summary":
+        "{succeeded} réussies, {failed} échouées, {skipped} ignorées,"
+        + " {deferred} reportées, {unknown} inconnues, {pending} en attente",
+    "snapshot.shard.region": "Région",
+    "snapshot.shard.wa": "Statut AM",
+    "snapshot.shard.endorsements": "Soutiens",
+    "snapshot.shard.influence": "Influence",
+    "snapshot.shard.unread": "Questions, télégrammes et notifications non lus",
+    "snapshot.column.region": "Région",
+    "snapshot.column.wa": "Statut AM",
+    "snapshot.column.endorsements": "Soutiens",
+    "snapshot.column.influence": "Influence",
+    "snapshot.column.issues": "Questions non lues",
+    "snapshot.column.telegrams": "Télégrammes non lus",
+    "snapshot.column.notices": "Notifications non lues",
+    "snapshot.error": "Erreur",
+    "history.unavailable":
+        "L'historique des exécutions n'est pas disponible car ce navigateur"
+        + " n'autorise pas le stockage IndexedDB.",
+    "history.error":
+        "Impossible d'accéder à l'historique des exécutions : {error}",
+    "history.retentionInvalid":
+        "Le nombre d'exécutions et de jours à conserver doit être un nombre"
+        + " entier supérieur ou égal à 1.",
+    "history.confirmClear":
+        "Supprimer l'historique de toutes les exécutions ? Cette action est"
+        + " irréversible.",
+    "history.completed": "Terminée",
+    "history.cancelled": "Annulée",
+    "history.never": "Jamais",
+    "history.timelineNone": "Chronologie (sélectionnez une nation ci-dessus)",
+    "history.timelineTitle": "Chronologie de {nation}",
+
+    // Configuration validation and runs
+    "ui.userAgentRequired": "Vous devez indiquer un agent utilisateur.",
+    "ui.retryInvalid":
+        "Le nombre de tentatives doit être un nombre entier d'au moins 1, et"
+        + " le délai avant un nouvel essai doit être d'au moins 1 seconde.",
+    "ui.smartThresholdInvalid":
+        "Le seuil du mode intelligent doit être un nombre de jours supérieur"
+        + " ou égal à 0.",
+    "ui.credentialsInvalidEntry":
+        "La zone des noms de nations et mots de passe contient {count} entrée"
+        + " invalide.",
+    "ui.credentialsInvalidEntries":
+        "La zone des noms de nations et mots de passe contient {count} entrées"
+        + " invalides.",
+    "ui.credentialsRequired":
+        "Vous devez indiquer au moins un nom de nation et un mot de passe.",
+    "ui.diagnosticError": "{location} : erreur : {message}",
+    "ui.diagnosticWarning": "{location} : avertissement : {message}",
+    "ui.diagnosticsMore": "...et {count} de plus",
+    "ui.preflightSummary": "{count} entrées sur {total} seront traitées.",
+    "ui.preflightSummarySkipped":
+        "{count} entrées sur {total} seront traitées ; {skipped} seront"
+        + " ignorées à cause des problèmes ci-dessous.",
+    "ui.runLabel": "mode {mode}, {count} nations",
+    "ui.resume": "Reprendre",
+    "ui.resumeMessage":
+        "Une exécution commencée le {startedAt} a été interrompue après le"
+        + " traitement de {index} nations sur {total}. Assurez-vous que vos"
+        + " noms de nations et mots de passe sont chargés avant de la"
+        + " reprendre.",
+    "ui.resumeMissingPasswords":
+        "Les mots de passe des nations suivantes sont absents de la zone des"
+        + " noms de nations et mots de passe : {nations}",
+    "ui.usingSimulator":
+        "Utilisation du simulateur hors ligne ; aucune requête ne sera envoyée"
+        + " à NationStates",
+    "ui.scheduledRunBusy":
+        "Exécution planifiée ignorée car une autre exécution est en cours",
+    "ui.scheduledRunOtherTab":
+        "Exécution planifiée ignorée car une exécution est en cours dans un"
+        + " autre onglet",
+    "ui.scheduledRunInvalid":
+        "L'exécution planifiée n'a pas pu démarrer : {reason}",
+    "ui.scheduledRunStarting": "Démarrage de l'exécution planifiée",
+    "ui.scheduledRunSummary":
+        "{succeeded} réussies, {failed} échouées, {skipped} ignorées.",
+    "ui.scheduledRunQueue":
+        "{count} nations doivent être restaurées : {nations}",
+    "ui.scheduledRunFailedTitle":
+        "Échec de l'exécution planifiée de nslogin-web",
+    "ui.scheduledRunFinishedTitle":
+        "Exécution planifiée de nslogin-web terminée",
+    "ui.savedConfigurationInvalid":
+        "La configuration enregistrée est absente ou invalide. Les exécutions"
+        + " planifiées utilisent la configuration enregistrée ; enregistrez"
+        + " d'abord une configuration valide.",
+    "ui.savedCredentialsInvalid":
+        "Les noms de nations et mots de passe enregistrés sont absents ou"
+        + " contiennent des entrées invalides.",
+    "ui.selectionEmpty": "Aucune nation ne correspond à la sélection.",
+    "parser.comma": "une virgule",
+    "parser.tab": "une tabulation",
+    "parser.line": "Ligne {line}",
+    "parser.entry": "Entrée {entry}",
+    "parser.expectedPair":
+        "Un nom de nation et un mot de passe séparés par {separator} sont"
+        + " attendus",
+    "parser.fieldCount": "2 champs attendus mais {count} trouvés",
+    "parser.passwordContainsSeparator":
+        "Le mot de passe contient {separator} ; tout ce qui suit la première"
+        + " est considéré comme le mot de passe (mettez le mot de passe entre"
+        + " guillemets pour éviter cet avertissement)",
+    "parser.unterminated": "Un champ entre guillemets n'est jamais fermé",
+    "parser.invalidJson": "JSON invalide : {error}",
+    "parser.expectedArray":
+        "Un tableau d'objets avec des propriétés \"nation\" et \"password\""
+        + " est attendu",
+    "parser.expectedObject":
+        "Un objet avec des propriétés \"nation\" et \"password\" de type"
+        + " chaîne est attendu",
+    "parser.invalidTags":
+        "La propriété \"tags\" doit être un tableau de chaînes",
+    "parser.missingNation": "Nom de nation manquant",
+    "preflight.invalidCharacters":
+        "Le nom contient des caractères interdits dans les noms de nations",
+    "preflight.tooLong": "Le nom dépasse {length} caractères",
+    "preflight.duplicate": "Doublon de {nation}",
+    "preflight.conflictingPassword":
+        "Doublon de {nation} avec un autre mot de passe ; le premier mot de"
+        + " passe sera utilisé",
+    "preflight.missingPassword":
+        "Aucun mot de passe ni jeton de connexion automatique",
+    "simulator.latencyInvalid":
+        "La latence simulée doit être un nombre de millisecondes supérieur ou"
+        + " égal à 0.",
+    "simulator.failureRateInvalid":
+        "Le taux d'échec simulé doit être un pourcentage de 0 à 100.",
+    "simulator.unterminated": "Ligne {line} : champ entre guillemets non fermé",
+    "simulator.expectedFields":
+        "Ligne {line} : une nation, un mot de passe et un nombre de jours sont"
+        + " attendus",
+    "simulator.daysInvalid":
+        "Ligne {line} : le nombre de jours doit être un nombre supérieur ou"
+        + " égal à 0 ou \"dead\"",
+    "selection.allTags": "Toutes les étiquettes",
+    "selection.summaryAll": "Les {total} nations seront traitées.",
+    "selection.summary": "{count} nations sur {total} seront traitées.",
+    "selection.noPreviousRun":
+        "Aucune exécution précédente n'a été enregistrée, aucune nation ne"
+        + " peut donc être sélectionnée selon son résultat lors de l'exécution"
+        + " précédente.",
+
+    // Restore confirmation, rate limit and other tabs
+    "confirmation.current": "{nation} doit être restaurée.",
+    "confirmation.countdown":
+        "La prochaine restauration pourra être soumise dans {seconds}"
+        + " secondes. Si vous confirmez maintenant, elle sera soumise à ce"
+        + " moment-là.",
+    "confirmation.ready":
+        "La prochaine restauration peut être soumise maintenant.",
+    "confirmation.submitting": "Soumission dans {seconds} secondes...",
+    "rate.status":
+        "{requests} requêtes au cours de la dernière minute ; {remaining}"
+        + " requêtes restantes sur {limit} dans la fenêtre actuelle de"
+        + " {window} secondes ; {interval} secondes entre les requêtes.",
+    "rate.statusSlowed":
+        "{requests} requêtes au cours de la dernière minute ; {remaining}"
+        + " requêtes restantes sur {limit} dans la fenêtre actuelle de"
+        + " {window} secondes ; {interval} secondes entre les requêtes"
+        + " (ralenti depuis {baseInterval} secondes après une erreur de limite"
+        + " de débit).",
+    "rate.estimated":
+        "Les requêtes restantes sont estimées à partir des requêtes de ce"
+        + " client, car NationStates ne les a pas indiquées.",
+    "rate.paused":
+        "Les requêtes sont suspendues pendant {seconds} secondes car"
+        + " NationStates a demandé moins de requêtes.",
+    "schedule.nextRun": "La prochaine exécution est planifiée pour le {time}.",
+    "tab.saveConfirm":
+        "La configuration a été modifiée dans un autre onglet."
+        + " L'enregistrement écrasera ces modifications. Continuer ?",
+    "tab.runLock":
+        "Une exécution ({label}) est en cours dans un autre onglet depuis"
+        + " {since}. Aucune exécution ne peut être démarrée dans cet onglet"
+        + " avant qu'elle se termine, afin que les deux onglets ne dépassent"
+        + " pas ensemble les limites de débit de NationStates.",
+
+    // Profiles and vault
+    "profile.newPrompt": "Nom du nouveau profil :",
+    "profile.renamePrompt": "Nouveau nom du profil :",
+    "profile.duplicatePrompt": "Nom de la copie :",
+    "profile.copyName": "{name} (copie)",
+    "profile.deleteConfirm":
+        "Le profil \"{name}\" et les noms de nations et mots de passe qui y"
+        + " sont enregistrés seront définitivement supprimés. Continuer ?",
+    "profile.imported": "Profil \"{name}\" importé.",
+    "profile.noLocalStorage": "Le stockage local n'est pas disponible.",
+    "profile.lastProfile": "Le dernier profil ne peut pas être supprimé.",
+    "profile.invalidJson": "Le fichier n'est pas un JSON valide.",
+    "profile.notProfile": "Le fichier n'est pas un profil nslogin-web.",
+    "profile.unsupportedVersion":
+        "La version de profil {version} n'est pas prise en charge.",
+    "profile.notFound": "Aucun profil ne s'appelle \"{name}\".",
+    "profile.emptyName": "Les noms de profils ne peuvent pas être vides.",
+    "profile.exists": "Un profil nommé \"{name}\" existe déjà.",
+    "profile.corrupt":
+        "Les profils enregistrés sont endommagés et ne peuvent pas être lus."
+        + " Ils n'ont pas été modifiés, et aucune configuration ne peut être"
+        + " enregistrée tant qu'ils n'ont pas été supprimés du stockage local.",
+    "vault.unlocked": "Coffre déverrouillé",
+    "vault.locked": "Coffre verrouillé",
+    "vault.unlockTitle": "Déverrouiller le coffre",
+    "vault.unlockMessage":
+        "Saisissez votre phrase secrète pour charger vos noms de nations et"
+        + " mots de passe enregistrés.",
+    "vault.createTitle": "Créer un coffre",
+    "vault.createMessage":
+        "Choisissez une phrase secrète. Vos noms de nations et mots de passe"
+        + " seront chiffrés avec elle et enregistrés dans le stockage local."
+        + " La phrase secrète ne peut pas être récupérée si vous l'oubliez.",
+    "vault.changeTitle": "Changer la phrase secrète",
+    "vault.changeMessage":
+        "Choisissez une nouvelle phrase secrète pour votre coffre.",
+    "vault.disableConfirm":
+        "Vos noms de nations et mots de passe seront enregistrés en clair dans"
+        + " le stockage local. Continuer ?",
+    "vault.wipeConfirm":
+        "Le coffre et les noms de nations et mots de passe qu'il contient"
+        + " seront définitivement supprimés. Continuer ?",
+    "vault.passphraseRequired": "Vous devez indiquer une phrase secrète.",
+    "vault.passphraseMismatch": "Les phrases secrètes ne correspondent pas.",
+    "vault.notSaved": "Aucun coffre n'est enregistré.",
+    "vault.incorrectPassphrase": "Phrase secrète incorrecte.",
+    "vault.lockedError": "Le coffre est verrouillé.",
+    "vault.saveFailed": "Impossible d'enregistrer le coffre : {error}",
+    "autologin.status":
+        "{count} nations sur {total} ont un jeton de connexion automatique ;"
+        + " {passwords} d'entre elles ont encore un mot de passe.",
+    "autologin.purgeInvalid":
+        "Corrigez les erreurs dans les noms de nations et mots de passe avant"
+        + " de supprimer les mots de passe.",
+    "autologin.purgeConfirm":
+        "Supprimer les mots de passe des {count} nations qui ont un jeton de"
+        + " connexion automatique ? Les nations dont le jeton cesse de"
+        + " fonctionner devront de nouveau recevoir leur mot de passe.",
+    "autologin.forgetConfirm":
+        "Oublier tous les jetons de connexion automatique enregistrés ? Les"
+        + " nations sans mot de passe ne pourront plus se connecter.",
+    "editor.autologinPlaceholder": "Jeton de connexion automatique enregistré",
+    "editor.delete": "Supprimer",
+    "editor.summary": "{count} nations, dont {problems} avec des problèmes.",
+    "editor.summaryFiltered":
+        "{shown} nations affichées sur {count} ; {problems} avec des"
+        + " problèmes.",
+    "editor.invalidText":
+        "{count} entrées du texte contiennent des erreurs et ne peuvent pas"
+        + " être affichées dans la grille. Passez au texte pour les corriger"
+        + " avant de modifier la grille.",
+    "editor.pasted": "{count} nations ajoutées.",
+    "editor.pastedErrors":
+        "{count} nations ajoutées ; {errors} entrées n'ont pas pu être lues.",
+
+    // Region tool and password audit
+    "region.required": "Vous devez indiquer une région.",
+    "region.fetching": "Récupération des nations...",
+    "region.fetchFailed": "Impossible de récupérer les nations de {region}.",
+    "region.summary": "{count} nations dans {region}.",
+    "region.added":
+        "{count} nations ajoutées à la liste. Complétez leurs mots de passe"
+        + " après les virgules avant de démarrer.",
+    "audit.noProblems":
+        "Aucun problème trouvé dans les mots de passe des {count} entrées.",
+    "audit.summary":
+        "{count} problèmes trouvés concernant {nations} nations : {high} de"
+        + " gravité élevée, {medium} moyenne et {low} faible.",
+    "audit.kindEmpty": "Vide",
+    "audit.kindSameAsName": "Identique au nom",
+    "audit.kindReused": "Réutilisé",
+    "audit.kindWeak": "Faible",
+    "audit.empty": "Le mot de passe est vide",
+    "audit.sameAsName": "Le mot de passe est identique au nom de la nation",
+    "audit.containsName": "Le mot de passe contient le nom de la nation",
+    "audit.common": "Le mot de passe est un mot de passe courant",
+    "audit.shorterThan": "Le mot de passe fait moins de {length} caractères",
+    "audit.repeated": "Le mot de passe répète un seul caractère",
+    "audit.oneKind":
+        "Le mot de passe n'utilise qu'un seul type de caractère, par exemple"
+        + " uniquement des minuscules ou uniquement des chiffres",
+    "audit.sharedWithNation":
+        "Le mot de passe est partagé avec {count} autre nation : {nations}",
+    "audit.sharedWithNations":
+        "Le mot de passe est partagé avec {count} autres nations : {nations}",
+    "severity.Low": "Faible",
+    "severity.Medium": "Moyenne",
+    "severity.High": "Élevée",
+
+    // Static page
+    "page.about": "À propos",
+    "page.action": "Action",
+    "page.allOutcomes": "Tous les résultats",
+    "page.attempts": "Tentatives",
+    "page.auditHelp":
+        "Vérifie les mots de passe de la liste des noms de nations et mots de"
+        + " passe : mots de passe vides, identiques au nom de la nation,"
+        + " partagés par plusieurs nations ou faibles. La vérification est"
+        + " entièrement effectuée dans votre navigateur.",
+    "page.auditPasswords": "Vérifier les mots de passe",
+    "page.autoLoadSave":
+        "Charger et enregistrer automatiquement la configuration dans le"
+        + " stockage local",
+    "page.autoLoadSaveNote": "(au chargement et à la fermeture de la page)",
+    "page.autologin": "Jetons de connexion automatique",
+    "page.autologinHelp":
+        "Après chaque connexion réussie, NationStates émet un jeton de"
+        + " connexion automatique qui est enregistré avec la nation et"
+        + " utilisé à la place de son mot de passe lors des exécutions"
+        + " suivantes. Une fois que les nations ont des jetons, leurs mots de"
+        + " passe peuvent être supprimés ; un mot de passe reste nécessaire"
+        + " pour restaurer une nation.",
+    "page.cancel": "Annuler",
+    "page.changePassphrase": "Changer la phrase secrète",
+    "page.characters": "caractères",
+    "page.clearLog": "Effacer le journal",
+    "page.configConflict":
+        "La configuration a été enregistrée dans un autre onglet. Chargez-la"
+        + " pour voir les modifications ; l'enregistrement dans cet onglet les"
+        + " écrasera. La configuration n'est pas enregistrée automatiquement à"
+        + " la fermeture de cet onglet tant qu'elle n'a pas été chargée ou"
+        + " enregistrée à nouveau.",
+    "page.configuration": "Configuration",
+    "page.confirmPassphrase": "Confirmer la phrase secrète",
+    "page.confirmRestore": "Confirmer la restauration",
+    "page.confirmationHelp":
+        "Veuillez noter que vous devrez confirmer la restauration de chaque"
+        + " nation qui doit être restaurée en cliquant sur le bouton «"
+        + " Confirmer la restauration » ci-dessous ou en appuyant sur"
+        + " <kbd>Entrée</kbd> ou <kbd>C</kbd>. Cela est nécessaire pour"
+        + " respecter la règle « un clic par action » des scripts NationStates"
+        + " pour les actions qui concernent d'autres parties de NationStates"
+        + " que votre propre nation. Cliquez sur « Ignorer » ou appuyez sur"
+        + " <kbd>S</kbd> pour laisser une nation non restaurée sans annuler"
+        + " l'exécution.",
+    "page.confirmationNone": "Aucune restauration n'attend de confirmation.",
+    "page.copy": "Copier",
+    "page.credentials": "Noms de nations et mots de passe",
+    "page.credentialsFormatHelp":
+        "Les mots de passe contenant des virgules ou des guillemets peuvent"
+        + " être mis entre guillemets doubles, en doublant les guillemets"
+        + " qu'ils contiennent. Le texte séparé par des tabulations et les"
+        + " tableaux JSON d'objets avec des propriétés \"nation\" et"
+        + " \"password\" sont également acceptés. Vous pouvez importer un"
+        + " fichier CSV, TSV ou JSON en le déposant sur la zone de texte ou"
+        + " avec le bouton ci-dessous.",
+    "page.credentialsHelp":
+        "Les noms de nations et mots de passe doivent être saisis sous la"
+        + " forme \"nation,motdepasse\", une paire par ligne. Par exemple :",
+    "page.credentialsTagsHelp":
+        "Pour exécuter des groupes de nations séparément, ajoutez une ligne"
+        + " telle que \"[puppets wa]\" pour attribuer les étiquettes"
+        + " \"puppets\" et \"wa\" aux nations des lignes suivantes, jusqu'à"
+        + " la prochaine ligne de ce type. \"[]\" efface les étiquettes. En"
+        + " JSON, donnez plutôt à chaque objet un tableau \"tags\".",
+    "page.details": "Détails",
+    "page.discardRun": "Abandonner l'exécution",
+    "page.dismiss": "Fermer",
+    "page.downloadLog": "Télécharger le journal",
+    "page.duration": "Durée",
+    "page.editorAdd": "Ajouter une nation",
+    "page.editorGrid": "Grille",
+    "page.editorHelp":
+        "La grille et le texte montrent les mêmes nations ; les modifications"
+        + " de l'une apparaissent dans l'autre. Les problèmes sont indiqués à"
+        + " côté de chaque ligne pendant la saisie. Cliquez sur l'en-tête"
+        + " Nation ou Étiquettes pour trier les nations, et collez plusieurs"
+        + " lignes ou cellules copiées d'un tableur dans une cellule pour les"
+        + " ajouter toutes à la fois.",
+    "page.editorReveal": "Afficher les mots de passe",
+    "page.editorSearch": "Rechercher des nations ou des étiquettes",
+    "page.editorText": "Texte",
+    "page.exportCsv": "Exporter en CSV",
+    "page.exportJson": "Exporter en JSON",
+    "page.failures": "Échecs",
+    "page.filterByNation": "Filtrer par nation",
+    "page.forgetAutologin": "Oublier les jetons",
+    "page.forumPage": "Page du forum NationStates :",
+    "page.generate": "Générer",
+    "page.generatorHelp":
+        "Génère un mot de passe aléatoire composé de lettres et de chiffres"
+        + " pour remplacer un mot de passe faible. Changez le mot de passe sur"
+        + " NationStates avant de mettre à jour la liste.",
+    "page.githubRepository": "Dépôt GitHub :",
+    "page.historyClear": "Effacer l'historique",
+    "page.historyEmpty": "Aucune exécution n'a encore été enregistrée.",
+    "page.historyHelp":
+        "Chaque exécution terminée est enregistrée dans ce navigateur, sans"
+        + " aucun mot de passe, afin que vous puissiez voir quand chaque nation"
+        + " a été connectée ou restaurée pour la dernière fois.",
+    "page.historyKeepAfter": "jours.",
+    "page.historyKeepBefore": "Conserver au plus",
+    "page.historyKeepMiddle": "exécutions et supprimer celles de plus de",
+    "page.historyRuns": "Exécutions",
+    "page.importFromFile": "Importer depuis un fichier",
+    "page.language": "Langue",
+    "page.languageHelp":
+        "La langue de cette page et du journal. Les messages qui n'ont pas été"
+        + " traduits sont affichés en anglais.",
+    "page.lastOutcome": "Dernier résultat",
+    "page.lastSuccess": "Dernier succès",
+    "page.lead":
+        "nslogin-web est une application web libre et gratuite qui vous permet"
+        + " de vous connecter automatiquement à vos nations NationStates et de"
+        + " les restaurer de manière semi-automatique.",
+    "page.levelDebug": "Débogage",
+    "page.levelError": "Erreur",
+    "page.levelInfo": "Information",
+    "page.levelWarn": "Avertissement",
+    "page.license": "Licence",
+    "page.licensedUnder":
+        "nslogin-web est distribué sous la licence Apache 2.0 :",
+    "page.loadConfiguration": "Charger la configuration",
+    "page.localStorage": "Stockage local",
+    "page.log": "Journal",
+    "page.logFilterAll": "Tous les messages",
+    "page.logFilterErrors": "Erreurs uniquement",
+    "page.logFilterInfo": "Informations et plus",
+    "page.logFilterWarnings": "Avertissements et erreurs",
+    "page.logLevel": "Niveau de journalisation",
+    "page.logLevelHelp":
+        "Les messages les moins graves qui sont enregistrés dans le journal."
+        + " Le niveau débogage inclut les messages d'erreur détaillés.",
+    "page.mode": "Mode de fonctionnement",
+    "page.modeAutoNote":
+        "(se connecter à chaque nation ou la restaurer automatiquement, selon"
+        + " qu'elle existe actuellement ou non)",
+    "page.modeLoginNote": "(essayer de se connecter à chaque nation)",
+    "page.modeRestoreNote": "(essayer de restaurer chaque nation)",
+    "page.modeSmartNote":
+        "(vérifier la dernière connexion de chaque nation, puis se connecter"
+        + " uniquement aux nations proches de cesser d'exister ou les"
+        + " restaurer, les plus urgentes d'abord)",
+    "page.nation": "Nation",
+    "page.nations": "Nations",
+    "page.ok": "OK",
+    "page.outcome": "Résultat",
+    "page.passphrase": "Phrase secrète",
+    "page.password": "Mot de passe",
+    "page.passwordAudit": "Vérification des mots de passe",
+    "page.passwordGenerator": "Générateur de mots de passe",
+    "page.pause": "Pause",
+    "page.problem": "Problème",
+    "page.profile": "Profil",
+    "page.profileDelete": "Supprimer",
+    "page.profileDuplicate": "Dupliquer",
+    "page.profileExport": "Exporter",
+    "page.profileHelp":
+        "Chaque profil a sa propre configuration enregistrée, y compris les"
+        + " noms de nations et mots de passe. Les profils exportés contiennent"
+        + " vos mots de passe, sauf s'ils sont chiffrés.",
+    "page.profileImport": "Importer",
+    "page.profileNew": "Nouveau",
+    "page.profileRename": "Renommer",
+    "page.progress": "Progression",
+    "page.purgePasswords": "Supprimer les mots de passe",
+    "page.rateLimit": "Limite de débit",
+    "page.rateLimitHelp":
+        "Le nombre de millisecondes entre les requêtes envoyées à"
+        + " NationStates, y compris les soumissions du formulaire de"
+        + " restauration. Les formulaires de restauration ne sont par ailleurs"
+        + " jamais soumis plus d'une fois toutes les 6 secondes. Le délai"
+        + " entre les requêtes est augmenté automatiquement si NationStates"
+        + " signale qu'il est dépassé.",
+    "page.reason": "Raison",
+    "page.region": "Région",
+    "page.regionAbsent": "Dans la liste mais pas dans la région",
+    "page.regionCompare": "Comparer",
+    "page.regionHelp":
+        "Compare la liste des noms de nations et mots de passe avec les"
+        + " nations actuellement présentes dans une région. Les nations de la"
+        + " région absentes de la liste peuvent y être ajoutées, en vous"
+        + " laissant compléter les mots de passe.",
+    "page.regionMerge": "Ajouter les nations manquantes à la liste",
+    "page.regionMissing": "Dans la région mais pas dans la liste",
+    "page.regionTool": "Outil de région",
+    "page.restoreConfirmation": "Confirmation de restauration",
+    "page.restoreNow": "Restaurer maintenant",
+    "page.restoreQueueHelp":
+        "Les nations suivantes doivent être restaurées. Elles ont été"
+        + " détectées lors d'une exécution planifiée et n'ont pas encore été"
+        + " restaurées.",
+    "page.results": "Résultats",
+    "page.resumeRun": "Reprendre l'exécution",
+    "page.retries": "Nouvelles tentatives",
+    "page.retriesAttempts": "tentatives, en attendant",
+    "page.retriesDelay": "secondes avant la première nouvelle tentative",
+    "page.retriesHelp":
+        "Le nombre maximal de tentatives pour chaque nation, et le nombre de"
+        + " secondes à attendre avant la première nouvelle tentative."
+        + " L'attente double après chaque nouvelle tentative. Seuls les échecs"
+        + " temporaires, comme les délais dépassés et les erreurs du serveur,"
+        + " sont retentés ; un mot de passe incorrect ne l'est pas.",
+    "page.reviewNations": "Vérifier les nations",
+    "page.runMode": "Mode",
+    "page.runStarted": "Début de l'exécution",
+    "page.saveConfiguration": "Enregistrer la configuration",
+    "page.schedule": "Planification",
+    "page.scheduleEnabled":
+        "Relancer automatiquement tant que cette page est ouverte",
+    "page.scheduleHelp":
+        "Les exécutions planifiées utilisent la configuration enregistrée. Les"
+        + " nations qui doivent être restaurées ne le sont pas pendant les"
+        + " exécutions planifiées ; elles sont mises en file d'attente dans"
+        + " l'onglet d'état afin que vous puissiez confirmer chaque"
+        + " restauration à votre retour. Une notification est affichée à la"
+        + " fin d'une exécution planifiée, si votre navigateur l'autorise.",
+    "page.scheduleIntervalAfter": "jours",
+    "page.scheduleIntervalBefore": "Exécuter tous les",
+    "page.scrollToBottom": "Défiler automatiquement vers le bas",
+    "page.selection": "Sélection",
+    "page.selectionAny": "Tout résultat lors de l'exécution précédente",
+    "page.selectionClear": "Effacer",
+    "page.selectionFailed": "Échec lors de l'exécution précédente",
+    "page.selectionFailedOrRestore":
+        "Échec, restauration nécessaire ou non vérifiée lors de l'exécution"
+        + " précédente",
+    "page.selectionHelp":
+        "Ne traiter que certaines des nations ci-dessus, par exemple pour"
+        + " réessayer celles qui ont échoué. La liste elle-même n'est pas"
+        + " modifiée.",
+    "page.selectionPattern": "Motif de nom, p. ex. puppet*",
+    "page.selectionRestore":
+        "Restauration nécessaire lors de l'exécution précédente",
+    "page.selectionUnknown": "Non vérifiée lors de l'exécution précédente",
+    "page.severity": "Gravité",
+    "page.simulator": "Simulateur",
+    "page.simulatorEnabled":
+        "Utiliser le simulateur hors ligne au lieu de NationStates",
+    "page.simulatorEnabledNote":
+        "(pour les répétitions et les démonstrations ; aucune requête n'est"
+        + " envoyée à NationStates)",
+    "page.simulatorFailureRateAfter": "pour cent du temps.",
+    "page.simulatorFill":
+        "Remplir à partir des noms de nations et mots de passe",
+    "page.simulatorHelp":
+        "Les nations simulées doivent être saisies sous la forme"
+        + " \"nation,motdepasse,jours\", où jours est le nombre de jours"
+        + " depuis la dernière connexion à la nation, ou \"dead\" si la nation"
+        + " a cessé d'exister. Les nations qui ne figurent pas dans la liste"
+        + " n'existent pas et ne peuvent pas être restaurées.",
+    "page.simulatorLatencyAfter": "millisecondes et échoue",
+    "page.simulatorLatencyBefore": "Chaque requête prend",
+    "page.skip": "Ignorer",
+    "page.smartThresholdAfter": "jours avant de cesser d'exister.",
+    "page.smartThresholdBefore":
+        "Le mode intelligent ignore les nations à qui il reste plus de",
+    "page.snapshot": "Instantané",
+    "page.snapshotHelp":
+        "Après chaque connexion ou restauration réussie, enregistre les"
+        + " informations suivantes sur la nation dans un tableau de l'onglet"
+        + " d'état. Chaque élément sélectionné est demandé avec la même limite"
+        + " de débit que les autres requêtes à l'API.",
+    "page.start": "Démarrer",
+    "page.started": "Début",
+    "page.status": "État",
+    "page.successes": "Succès",
+    "page.tabAbout": "À propos",
+    "page.tabConfiguration": "Configuration",
+    "page.tabHistory": "Historique",
+    "page.tabStatus": "État",
+    "page.tags": "Étiquettes",
+    "page.time": "Heure",
+    "page.userAgent": "Agent utilisateur",
+    "page.userAgentHelp":
+        "Une chaîne qui vous identifie auprès de NationStates. Il est"
+        + " recommandé d'utiliser le nom de votre nation principale.",
+    "page.vaultEnabled":
+        "Chiffrer les noms de nations et mots de passe enregistrés avec une"
+        + " phrase secrète",
+    "page.vaultEnabledNote":
+        "(la phrase secrète vous sera demandée au chargement de la"
+        + " configuration)",
+    "page.waitingToBeRestored": "En attente de restauration :",
+    "page.wipeVault": "Effacer le coffre"
+};
+
+export default French;
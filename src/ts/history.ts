@@ -0,0 +1,324 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import App, {RunParameters} from "./app";
+import {Action, Outcome, Result} from "./results";
+
+/**
+ * Represents a finished run, as recorded in the run history.
+ */
+export interface RunRecord {
+    /**
+     * The identifier assigned when the run is recorded.
+     */
+    id?: number,
+    parameters: RunParameters,
+    results: Result[],
+    startedAt: number,
+    finishedAt: number,
+    cancelled: boolean
+}
+
+/**
+ * Represents how long runs are kept in the run history.
+ */
+export interface RetentionPolicy {
+    /**
+     * The maximum number of runs to keep. The oldest runs are deleted
+     * first.
+     */
+    maxRuns: number,
+    /**
+     * The number of days after which a run is deleted.
+     */
+    maxAgeDays: number
+}
+
+/**
+ * Represents what the run history records about a nation.
+ */
+export interface NationHistory {
+    /**
+     * The name of the nation as given in the most recent run.
+     */
+    nation: string,
+    /**
+     * The time of the most recent successful login or restore, or null if
+     * there has not been one.
+     */
+    lastSuccess: number | null,
+    lastOutcome: Outcome,
+    lastTimestamp: number,
+    successes: number,
+    failures: number
+}
+
+/**
+ * Represents the result of processing a nation in one recorded run.
+ */
+export interface TimelineEntry {
+    runId: number,
+    runStartedAt: number,
+    action: Action,
+    outcome: Outcome,
+    reason: string,
+    timestamp: number
+}
+
+/**
+ * Records finished runs in IndexedDB, so that they remain available after
+ * the page is reloaded, and summarizes them for each nation.
+ */
+export default class History {
+    /**
+     * The retention policy used unless the user chooses another.
+     */
+    public static readonly DefaultRetention: RetentionPolicy = {
+        maxRuns: 100,
+        maxAgeDays: 90
+    };
+
+    private static readonly DatabaseName = "nslogin-web";
+    private static readonly DatabaseVersion = 1;
+    private static readonly StoreName = "runs";
+    private static readonly RetentionStorageKey = "historyRetention";
+
+    /**
+     * Returns whether the browser supports IndexedDB.
+     *
+     * @return Whether the run history can be used.
+     */
+    public static isSupported(): boolean {
+        try {
+            return typeof indexedDB !== "undefined" && indexedDB !== null;
+        } catch {
+            // Access to IndexedDB is denied
+            return false;
+        }
+    }
+
+    /**
+     * Records a finished run, then deletes any runs that the retention
+     * policy no longer allows to be kept.
+     *
+     * @param record The run.
+     */
+    public static async add(record: RunRecord): Promise<void> {
+        await History.transact("readwrite", store => {
+            store.add(record);
+        });
+        await History.prune(History.getRetention());
+    }
+
+    /**
+     * Gets all recorded runs.
+     *
+     * @return The runs, most recent first.
+     */
+    public static async getRuns(): Promise<RunRecord[]> {
+        const runs: RunRecord[] = [];
+        await History.transact("readonly", store => {
+            const request = store.openCursor();
+            request.onsuccess = () => {
+                const cursor = request.result as IDBCursorWithValue | null;
+                if (cursor !== null) {
+                    runs.push(cursor.value);
+                    cursor.continue();
+                }
+            };
+        });
+        return runs.sort((a, b) => b.startedAt - a.startedAt);
+    }
+
+    /**
+     * Deletes all recorded runs.
+     */
+    public static async clear(): Promise<void> {
+        await History.transact("readwrite", store => {
+            store.clear();
+        });
+    }
+
+    /**
+     * Deletes the runs that the specified retention policy does not allow
+     * to be kept.
+     *
+     * @param policy The retention policy.
+     */
+    public static async prune(policy: RetentionPolicy): Promise<void> {
+        const cutoff = Date.now() - policy.maxAgeDays * 86400 * 1000;
+        const expired = (await History.getRuns()).filter(
+            (run, i) => i >= policy.maxRuns || run.finishedAt < cutoff);
+        if (expired.length === 0) {
+            return;
+        }
+        await History.transact("readwrite", store => {
+            for (const run of expired) {
+                store.delete(run.id as number);
+            }
+        });
+    }
+
+    /**
+     * Gets the retention policy chosen by the user.
+     *
+     * @return The retention policy.
+     */
+    public static getRetention(): RetentionPolicy {
+        try {
+            const raw = localStorage.getItem(History.RetentionStorageKey);
+            if (raw !== null) {
+                return JSON.parse(raw);
+            }
+        } catch {
+            // No local storage or invalid retention policy
+        }
+        return History.DefaultRetention;
+    }
+
+    /**
+     * Saves the retention policy chosen by the user. Runs it does not allow
+     * to be kept are deleted when the next run is recorded, or when prune
+     * is called.
+     *
+     * @param policy The retention policy.
+     */
+    public static setRetention(policy: RetentionPolicy): void {
+        try {
+            localStorage.setItem(History.RetentionStorageKey,
+                                 JSON.stringify(policy));
+        } catch {
+            // No local storage
+        }
+    }
+
+    /**
+     * Summarizes the recorded runs for each nation in them.
+     *
+     * @param runs The recorded runs.
+     *
+     * @return The summary for each nation, sorted by name.
+     */
+    public static summarizeNations(runs: RunRecord[]): NationHistory[] {
+        const nations: {[id: string]: NationHistory} = {};
+        for (const run of runs.slice().reverse()) {
+            for (const result of run.results) {
+                if (result.outcome === Outcome.Pending) {
+                    continue;
+                }
+                const id = App.toId(result.nation);
+                if (!nations.hasOwnProperty(id)) {
+                    nations[id] = {
+                        nation: result.nation,
+                        lastSuccess: null,
+                        lastOutcome: result.outcome,
+                        lastTimestamp: result.timestamp,
+                        successes: 0,
+                        failures: 0
+                    };
+                }
+                const nation = nations[id];
+                nation.nation = result.nation;
+                nation.lastOutcome = result.outcome;
+                nation.lastTimestamp = result.timestamp;
+                if (result.outcome === Outcome.Success) {
+                    nation.lastSuccess = result.timestamp;
+                    nation.successes++;
+                } else if (result.outcome === Outcome.Failure) {
+                    nation.failures++;
+                }
+            }
+        }
+        return Object.keys(nations).sort().map(id => nations[id]);
+    }
+
+    /**
+     * Gets the result of processing a nation in each recorded run that
+     * included it.
+     *
+     * @param runs The recorded runs.
+     * @param nation The name of the nation.
+     *
+     * @return The timeline of the nation, most recent first.
+     */
+    public static getTimeline(runs: RunRecord[],
+                              nation: string): TimelineEntry[]
+    {
+        const id = App.toId(nation);
+        const timeline: TimelineEntry[] = [];
+        for (const run of runs) {
+            for (const result of run.results) {
+                if (result.outcome !== Outcome.Pending
+                    && App.toId(result.nation) === id)
+                {
+                    timeline.push({
+                        runId: run.id as number,
+                        runStartedAt: run.startedAt,
+                        action: result.action,
+                        outcome: result.outcome,
+                        reason: result.reason,
+                        timestamp: result.timestamp
+                    });
+                }
+            }
+        }
+        return timeline.sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    /**
+     * Opens the run history database, creating it if necessary.
+     *
+     * @return A promise fired with the database.
+     */
+    private static open(): Promise<IDBDatabase> {
+        return new Promise((resolve, reject) => {
+            const request = indexedDB.open(History.DatabaseName,
+                                           History.DatabaseVersion);
+            request.onupgradeneeded = () => {
+                const db = request.result as IDBDatabase;
+                db.createObjectStore(History.StoreName,
+                                     {keyPath: "id", autoIncrement: true});
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    /**
+     * Performs requests on the run store in a single transaction.
+     *
+     * @param mode The transaction mode.
+     * @param action Makes the requests.
+     *
+     * @return A promise fired when the transaction completes.
+     */
+    private static async transact(
+        mode: IDBTransactionMode,
+        action: (store: IDBObjectStore) => void): Promise<void>
+    {
+        const db = await History.open();
+        try {
+            await new Promise<void>((resolve, reject) => {
+                const transaction = db.transaction(History.StoreName, mode);
+                action(transaction.objectStore(History.StoreName));
+                transaction.oncomplete = () => resolve();
+                transaction.onerror = () => reject(transaction.error);
+                transaction.onabort = () => reject(transaction.error);
+            });
+        } finally {
+            db.close();
+        }
+    }
+}
@@ -0,0 +1,244 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {Mode} from "./app";
+import History, {RunRecord} from "./history";
+import I18n from "./i18n";
+import ProgressTracker from "./progress";
+import {Action, Outcome} from "./results";
+import ResultsView from "./resultsview";
+import * as $ from "jquery";
+
+/**
+ * Contains the UI logic for the history tab, which lists recorded runs and
+ * shows the timeline of each nation in them.
+ */
+export default class HistoryView {
+    private static _runs: RunRecord[] = [];
+    private static _nation: string | null = null;
+
+    /**
+     * Initializes the history tab.
+     */
+    public static init(): void {
+        if (!History.isSupported()) {
+            $("#historyStatus").attr("data-i18n", "history.unavailable")
+                               .text(I18n.t("history.unavailable"));
+            $("#historyContent").addClass("hidden");
+            return;
+        }
+
+        const retention = History.getRetention();
+        $("#historyMaxRuns").val(String(retention.maxRuns));
+        $("#historyMaxAgeDays").val(String(retention.maxAgeDays));
+        $("#historyMaxRuns, #historyMaxAgeDays").on(
+            "change", () => HistoryView.handleRetentionChange());
+        $("#historyClearButton").on("click", () => HistoryView.handleClear());
+        $("#historyFilter").on("input", () => HistoryView.render());
+        $("#navbar").find("a[href='#history']").on(
+            "shown.bs.tab", () => HistoryView.refresh());
+        HistoryView.refresh();
+    }
+
+    /**
+     * Records a finished run in the history.
+     *
+     * @param record The run.
+     */
+    public static async record(record: RunRecord): Promise<void> {
+        if (!History.isSupported()) {
+            return;
+        }
+        try {
+            await History.add(record);
+        } catch (err) {
+            HistoryView.showError(err);
+            return;
+        }
+        await HistoryView.refresh();
+    }
+
+    /**
+     * Shows the recorded runs and the timeline of the selected nation.
+     */
+    public static render(): void {
+        HistoryView.renderRuns();
+        HistoryView.renderNations();
+        HistoryView.renderTimeline();
+    }
+
+    /**
+     * Loads the recorded runs and shows them.
+     */
+    private static async refresh(): Promise<void> {
+        try {
+            HistoryView._runs = await History.getRuns();
+        } catch (err) {
+            HistoryView.showError(err);
+            return;
+        }
+        $("#historyStatus").text("");
+        HistoryView.render();
+    }
+
+    /**
+     * Shows an error accessing the run history.
+     *
+     * @param err The error.
+     */
+    private static showError(err: any): void {
+        $("#historyStatus").text(I18n.t("history.error", {
+            error: err && err.message ? err.message : String(err)
+        }));
+    }
+
+    /**
+     * Handler for changes to the retention limits. Saves valid limits and
+     * deletes the runs they no longer allow to be kept.
+     */
+    private static async handleRetentionChange(): Promise<void> {
+        const maxRuns = Number($("#historyMaxRuns").val());
+        const maxAgeDays = Number($("#historyMaxAgeDays").val());
+        const valid = (n: number) => n >= 1 && Math.floor(n) === n;
+        if (!valid(maxRuns) || !valid(maxAgeDays)) {
+            $("#historyStatus").text(I18n.t("history.retentionInvalid"));
+            return;
+        }
+        History.setRetention({maxRuns, maxAgeDays});
+        try {
+            await History.prune({maxRuns, maxAgeDays});
+        } catch (err) {
+            HistoryView.showError(err);
+            return;
+        }
+        await HistoryView.refresh();
+    }
+
+    /**
+     * Handler for the clear history button.
+     */
+    private static async handleClear(): Promise<void> {
+        if (!window.confirm(I18n.t("history.confirmClear"))) {
+            return;
+        }
+        try {
+            await History.clear();
+        } catch (err) {
+            HistoryView.showError(err);
+            return;
+        }
+        HistoryView._nation = null;
+        await HistoryView.refresh();
+    }
+
+    /**
+     * Shows the recorded runs, most recent first.
+     */
+    private static renderRuns(): void {
+        const body = $("#historyRunsTable").find("tbody");
+        body.empty();
+        $("#historyEmpty").toggleClass("hidden",
+                                       HistoryView._runs.length !== 0);
+        for (const run of HistoryView._runs) {
+            const count = (outcome: Outcome) => run.results.filter(
+                result => result.outcome === outcome).length;
+            $("<tr>")
+                .append($("<td>").text(
+                    new Date(run.startedAt).toLocaleString()))
+                .append($("<td>").text(
+                    I18n.t(`mode.${Mode[run.parameters.mode]}`)))
+                .append($("<td>").text(String(run.results.length)))
+                .append($("<td>").text(I18n.t("progress.counters", {
+                    succeeded: count(Outcome.Success),
+                    failed: count(Outcome.Failure),
+                    skipped: count(Outcome.Skipped),
+                    deferred: count(Outcome.Deferred),
+                    unknown: count(Outcome.Unknown)
+                })))
+                .append($("<td>").text(ProgressTracker.formatDuration(
+                    run.finishedAt - run.startedAt)))
+                .append($("<td>").text(I18n.t(run.cancelled
+                                                  ? "history.cancelled"
+                                                  : "history.completed")))
+                .appendTo(body);
+        }
+    }
+
+    /**
+     * Shows a summary of each nation in the recorded runs that matches the
+     * filter. Clicking a nation shows its timeline.
+     */
+    private static renderNations(): void {
+        const filter = String($("#historyFilter").val()).trim().toLowerCase();
+        const body = $("#historyNationsTable").find("tbody");
+        body.empty();
+        for (const nation of History.summarizeNations(HistoryView._runs)) {
+            if (filter !== ""
+                && nation.nation.toLowerCase().indexOf(filter) === -1)
+            {
+                continue;
+            }
+            $("<tr>")
+                .addClass(ResultsView.getRowClass(nation.lastOutcome))
+                .append($("<td>").append(
+                    $("<a>").attr("href", "#").text(nation.nation)
+                            .on("click", (e) => {
+                                e.preventDefault();
+                                HistoryView._nation = nation.nation;
+                                HistoryView.renderTimeline();
+                            })))
+                .append($("<td>").text(
+                    nation.lastSuccess !== null
+                        ? new Date(nation.lastSuccess).toLocaleString()
+                        : I18n.t("history.never")))
+                .append($("<td>").text(
+                    I18n.t(`outcome.${Outcome[nation.lastOutcome]}`)))
+                .append($("<td>").text(
+                    new Date(nation.lastTimestamp).toLocaleString()))
+                .append($("<td>").text(String(nation.successes)))
+                .append($("<td>").text(String(nation.failures)))
+                .appendTo(body);
+        }
+    }
+
+    /**
+     * Shows the timeline of the selected nation, if any.
+     */
+    private static renderTimeline(): void {
+        const nation = HistoryView._nation;
+        const body = $("#historyTimelineTable").find("tbody");
+        body.empty();
+        if (nation === null) {
+            $("#historyTimelineTitle").text(I18n.t("history.timelineNone"));
+            return;
+        }
+        $("#historyTimelineTitle").text(
+            I18n.t("history.timelineTitle", {nation}));
+        for (const entry of History.getTimeline(HistoryView._runs, nation)) {
+            $("<tr>")
+                .addClass(ResultsView.getRowClass(entry.outcome))
+                .append($("<td>").text(
+                    new Date(entry.timestamp).toLocaleString()))
+                .append($("<td>").text(
+                    I18n.t(`action.${Action[entry.action]}`)))
+                .append($("<td>").text(
+                    I18n.t(`outcome.${Outcome[entry.outcome]}`)))
+                .append($("<td>").text(entry.reason))
+                .append($("<td>").text(
+                    new Date(entry.runStartedAt).toLocaleString()))
+                .appendTo(body);
+        }
+    }
+}
@@ -0,0 +1,113 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import App, {Credential} from "./app";
+import {RestoreResponse, RestoreSubmitter} from "./backend";
+import I18n from "./i18n";
+import * as https from "https";
+import * as querystring from "querystring";
+
+/**
+ * Submits the NationStates restore form directly over HTTPS, for use outside
+ * the browser.
+ */
+export default class HttpRestoreSubmitter implements RestoreSubmitter {
+    /**
+     * The maximum time to wait for a response to the form submission.
+     */
+    private static readonly TimeoutMillis = 15000;
+    /**
+     * The maximum length of the response page that is read.
+     */
+    private static readonly MaxPageLength = 1000000;
+    /**
+     * Matches the errors shown on the page returned when the restore
+     * password is wrong or the nation cannot be restored.
+     */
+    private static readonly RejectedPattern =
+        /incorrect password|cannot be restored|could not be restored/i;
+
+    /**
+     * Restores the specified nation by posting the restore form.
+     *
+     * @param credential The name and password of the nation to restore.
+     * @param userAgent The user agent to submit with the form.
+     *
+     * @return What the page returned by NationStates said about the restore.
+     */
+    public submit(credential: Credential,
+                  userAgent: string): Promise<RestoreResponse>
+    {
+        const id = App.toId(credential.nation);
+        const body = querystring.stringify({
+            userAgent,
+            logging_in: "1",
+            nation: id,
+            restore_nation: " Restore " + id + " ",
+            restore_password: credential.password
+        });
+
+        return new Promise<RestoreResponse>((resolve, reject) => {
+            const request = https.request({
+                hostname: "www.nationstates.net",
+                path: "/",
+                method: "POST",
+                headers: {
+                    "User-Agent": userAgent,
+                    "Content-Type": "application/x-www-form-urlencoded",
+                    "Content-Length": Buffer.byteLength(body)
+                }
+            }, (response) => {
+                let page = "";
+                response.setEncoding("utf8");
+                response.on("data", (chunk: string) => {
+                    if (page.length < HttpRestoreSubmitter.MaxPageLength) {
+                        page += chunk;
+                    }
+                });
+                response.on("end", () => resolve(
+                    HttpRestoreSubmitter.classify(page, id)));
+            });
+            request.setTimeout(HttpRestoreSubmitter.TimeoutMillis, () => {
+                request.abort();
+                reject(new Error(I18n.t("app.restoreSubmitTimedOut", {
+                    seconds: HttpRestoreSubmitter.TimeoutMillis / 1000
+                })));
+            });
+            request.on("error", reject);
+            request.end(body);
+        });
+    }
+
+    /**
+     * Works out what the page returned by a restore form submission says
+     * about the restore. NationStates names the logged-in nation in the
+     * data-nname attribute of the page body, and shows an error on the
+     * login page if the restore failed.
+     *
+     * @param page The page.
+     * @param id The ID of the nation being restored.
+     *
+     * @return What the page says about the restore.
+     */
+    private static classify(page: string, id: string): RestoreResponse {
+        if (page.indexOf(`data-nname="${id}"`) !== -1) {
+            return RestoreResponse.Accepted;
+        } else if (HttpRestoreSubmitter.RejectedPattern.test(page)) {
+            return RestoreResponse.Rejected;
+        }
+        return RestoreResponse.Unknown;
+    }
+}
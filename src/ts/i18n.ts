@@ -0,0 +1,185 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import English from "./english";
+import French from "./french";
+
+/**
+ * Represents the messages of a single language, keyed by message key.
+ */
+export interface Catalogue {
+    [key: string]: string
+}
+
+/**
+ * Represents a language for which a catalogue exists.
+ */
+export interface Language {
+    /**
+     * The language code, such as "en".
+     */
+    code: string,
+    /**
+     * The name of the language in that language.
+     */
+    name: string
+}
+
+/**
+ * Looks up user-facing messages in the catalogue of the current language,
+ * falling back to English for messages that have not been translated.
+ *
+ * Messages may contain parameters in the form "{name}", which are replaced
+ * by the values passed when the message is looked up.
+ */
+export default class I18n {
+    /**
+     * The code of the language used when no other language is selected,
+     * and for messages missing from the catalogue of the current language.
+     */
+    public static readonly DefaultLanguage = "en";
+
+    private static readonly Catalogues: {[code: string]: Catalogue} = {
+        en: English,
+        fr: French
+    };
+    private static readonly Names: {[code: string]: string} = {
+        en: "English",
+        fr: "Français"
+    };
+
+    private static _language = I18n.DefaultLanguage;
+
+    /**
+     * Gets the languages for which a catalogue exists.
+     *
+     * @return The languages.
+     */
+    public static getLanguages(): Language[] {
+        return Object.keys(I18n.Catalogues).map(
+            code => ({code, name: I18n.Names[code]}));
+    }
+
+    /**
+     * Gets the code of the current language.
+     *
+     * @return The code of the current language.
+     */
+    public static getLanguage(): string {
+        return I18n._language;
+    }
+
+    /**
+     * Sets the current language. Unknown languages are replaced by the
+     * default language.
+     *
+     * @param code The code of the language.
+     */
+    public static setLanguage(code: string): void {
+        I18n._language = I18n.Catalogues.hasOwnProperty(code)
+            ? code : I18n.DefaultLanguage;
+    }
+
+    /**
+     * Looks up a message in the current language.
+     *
+     * @param key The key of the message.
+     * @param params The values of the parameters in the message, if any.
+     *
+     * @return The message, or the key itself if there is no message with
+     *         that key in any catalogue.
+     */
+    public static t(key: string,
+                    params: {[name: string]: string | number} = {}): string
+    {
+        const message = I18n.lookup(key);
+        if (message === null) {
+            return key;
+        }
+        return message.replace(/\{(\w+)\}/g, (match, name) =>
+            params.hasOwnProperty(name) ? String(params[name]) : match);
+    }
+
+    /**
+     * Translates the static text of the page. Elements are translated
+     * according to the following attributes, each of which contains a
+     * message key:
+     *
+     * - data-i18n: the text of the element
+     * - data-i18n-html: the HTML content of the element
+     * - data-i18n-placeholder: the placeholder attribute of the element
+     * - data-i18n-title: the title attribute of the element
+     *
+     * Elements whose message key is unknown are left unchanged.
+     *
+     * @param root The element containing the elements to translate.
+     */
+    public static translatePage(root: Element = document.documentElement)
+        : void
+    {
+        I18n.translateElements(root, "data-i18n", (element, message) => {
+            element.textContent = message;
+        });
+        I18n.translateElements(root, "data-i18n-html", (element, message) => {
+            element.innerHTML = message;
+        });
+        I18n.translateElements(
+            root, "data-i18n-placeholder",
+            (element, message) => element.setAttribute("placeholder", message));
+        I18n.translateElements(
+            root, "data-i18n-title",
+            (element, message) => element.setAttribute("title", message));
+        document.documentElement.setAttribute("lang", I18n._language);
+    }
+
+    /**
+     * Translates the elements with the specified attribute.
+     *
+     * @param root The element containing the elements to translate.
+     * @param attribute The attribute containing the message key.
+     * @param apply Applies the message to an element.
+     */
+    private static translateElements(
+        root: Element, attribute: string,
+        apply: (element: Element, message: string) => void): void
+    {
+        const elements = root.querySelectorAll(`[${attribute}]`);
+        for (let i = 0; i < elements.length; i++) {
+            const message = I18n.lookup(
+                elements[i].getAttribute(attribute) as string);
+            if (message !== null) {
+                apply(elements[i], message);
+            }
+        }
+    }
+
+    /**
+     * Looks up a message in the catalogue of the current language, then in
+     * the catalogue of the default language.
+     *
+     * @param key The key of the message.
+     *
+     * @return The message, or null if neither catalogue contains it.
+     */
+    private static lookup(key: string): string | null {
+        for (const code of [I18n._language, I18n.DefaultLanguage]) {
+            const catalogue = I18n.Catalogues[code];
+            if (catalogue.hasOwnProperty(key)) {
+                return catalogue[key];
+            }
+        }
+        return null;
+    }
+}
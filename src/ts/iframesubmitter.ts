@@ -0,0 +1,72 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import App, {Credential} from "./app";
+import {RestoreResponse, RestoreSubmitter} from "./backend";
+import I18n from "./i18n";
+import * as $ from "jquery";
+
+/**
+ * Submits the NationStates restore form from the hidden iframe on the page.
+ */
+export default class IframeRestoreSubmitter implements RestoreSubmitter {
+    /**
+     * The maximum time to wait for the restore form to load.
+     */
+    private static readonly FormTimeoutMillis = 15000;
+
+    /**
+     * Restores the specified nation using the form in the hidden iframe.
+     *
+     * @param credential The name and password of the nation to restore.
+     * @param userAgent The user agent to submit with the form.
+     *
+     * @return Unknown, since the page returned by NationStates is on another
+     *         origin and cannot be read.
+     */
+    public submit(credential: Credential,
+                  userAgent: string): Promise<RestoreResponse>
+    {
+        return new Promise<RestoreResponse>((resolve, reject) => {
+            const iframe = $("#iframe");
+
+            const timeout = setTimeout(() => {
+                iframe.off("load");
+                reject(new Error(I18n.t("app.restoreFormTimedOut", {
+                    seconds: IframeRestoreSubmitter.FormTimeoutMillis / 1000
+                })));
+            }, IframeRestoreSubmitter.FormTimeoutMillis);
+
+            iframe.off("load");
+            iframe.on("load", () => {
+                iframe.off("load");
+                clearTimeout(timeout);
+                iframe.contents().find("#restoreUserAgent").val(
+                    userAgent);
+                iframe.contents().find("#restoreLoggingIn").val(
+                    "1");
+                iframe.contents().find("#restoreNation").val(
+                    App.toId(credential.nation));
+                iframe.contents().find("#restoreRestoreNation").val(
+                    " Restore " + App.toId(credential.nation) + " ");
+                iframe.contents().find("#restoreRestorePassword").val(
+                    credential.password);
+                iframe.contents().find("#restoreSubmit").click();
+                resolve(RestoreResponse.Unknown);
+            });
+            iframe.attr({src: "iframe.html"});
+        });
+    }
+}
@@ -0,0 +1,192 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Represents the severity of a log message, from least to most severe.
+ */
+export enum LogLevel {
+    Debug,
+    Info,
+    Warn,
+    Error
+}
+
+/**
+ * Represents a single log message.
+ */
+export interface LogEntry {
+    level: LogLevel,
+    message: string,
+    timestamp: number
+}
+
+/**
+ * Records log messages at or above a minimum level and passes them on to
+ * listeners. Only the most recent entries are kept, so that long runs do not
+ * use ever more memory.
+ */
+export default class Logger {
+    /**
+     * The maximum number of entries kept. Once it is reached, each new entry
+     * replaces the oldest.
+     */
+    public static readonly MaxEntries = 10000;
+
+    private _level = LogLevel.Info;
+    /**
+     * The recorded entries, used as a ring buffer once full: the oldest entry
+     * is at _first and the newest just before it.
+     */
+    private _entries: LogEntry[] = [];
+    private _first = 0;
+    private readonly _listeners: Array<(entry: LogEntry) => void> = [];
+
+    /**
+     * Formats the specified entry as a line of text.
+     *
+     * @param entry The entry.
+     *
+     * @return The formatted entry.
+     */
+    public static format(entry: LogEntry): string {
+        return `${new Date(entry.timestamp).toISOString()}`
+               + ` ${LogLevel[entry.level].toUpperCase()} ${entry.message}`;
+    }
+
+    /**
+     * Gets the minimum level of messages that are recorded.
+     *
+     * @return The minimum level.
+     */
+    public getLevel(): LogLevel {
+        return this._level;
+    }
+
+    /**
+     * Sets the minimum level of messages that are recorded.
+     *
+     * @param level The minimum level.
+     */
+    public setLevel(level: LogLevel): void {
+        this._level = level;
+    }
+
+    /**
+     * Returns whether messages of the specified level are recorded.
+     *
+     * @param level The level.
+     *
+     * @return Whether messages of the level are recorded.
+     */
+    public isEnabled(level: LogLevel): boolean {
+        return level >= this._level;
+    }
+
+    /**
+     * Adds a listener called with each recorded entry.
+     *
+     * @param listener The listener.
+     */
+    public addListener(listener: (entry: LogEntry) => void): void {
+        this._listeners.push(listener);
+    }
+
+    /**
+     * Records a message, if its level is enabled.
+     *
+     * @param level The level of the message.
+     * @param message The message.
+     */
+    public log(level: LogLevel, message: string): void {
+        if (!this.isEnabled(level)) {
+            return;
+        }
+        const entry: LogEntry = {level, message, timestamp: Date.now()};
+        if (this._entries.length < Logger.MaxEntries) {
+            this._entries.push(entry);
+        } else {
+            this._entries[this._first] = entry;
+            this._first = (this._first + 1) % Logger.MaxEntries;
+        }
+        for (const listener of this._listeners) {
+            listener(entry);
+        }
+    }
+
+    /**
+     * Records a debug message, such as the details of an error.
+     *
+     * @param message The message.
+     */
+    public debug(message: string): void {
+        this.log(LogLevel.Debug, message);
+    }
+
+    /**
+     * Records an informational message.
+     *
+     * @param message The message.
+     */
+    public info(message: string): void {
+        this.log(LogLevel.Info, message);
+    }
+
+    /**
+     * Records a warning message.
+     *
+     * @param message The message.
+     */
+    public warn(message: string): void {
+        this.log(LogLevel.Warn, message);
+    }
+
+    /**
+     * Records an error message.
+     *
+     * @param message The message.
+     */
+    public error(message: string): void {
+        this.log(LogLevel.Error, message);
+    }
+
+    /**
+     * Gets all recorded entries that are still kept.
+     *
+     * @return The recorded entries, oldest first.
+     */
+    public getEntries(): LogEntry[] {
+        return this._entries.slice(this._first)
+                            .concat(this._entries.slice(0, this._first));
+    }
+
+    /**
+     * Deletes all recorded entries.
+     */
+    public clear(): void {
+        this._entries = [];
+        this._first = 0;
+    }
+
+    /**
+     * Formats all recorded entries as text, one per line.
+     *
+     * @return The formatted entries.
+     */
+    public toText(): string {
+        return this.getEntries().map(entry => Logger.format(entry) + "\n")
+                                .join("");
+    }
+}
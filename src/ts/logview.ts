@@ -0,0 +1,119 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import Logger, {LogEntry, LogLevel} from "./logger";
+import Ui from "./ui";
+import * as $ from "jquery";
+
+/**
+ * Contains the UI logic for the log in the status tab.
+ */
+export default class LogView {
+    /**
+     * The maximum number of entries shown. Older entries are removed from
+     * the page but remain in the downloaded log.
+     */
+    private static readonly MaxRows = 1000;
+
+    private static _logger: Logger;
+
+    /**
+     * Initializes the log.
+     *
+     * @param logger The logger whose entries are shown.
+     */
+    public static init(logger: Logger): void {
+        LogView._logger = logger;
+        logger.addListener(entry => LogView.append(entry));
+
+        $("#logLevel").on("change", () => LogView.update());
+        $("#logLevelFilter").on("change", () => LogView.render());
+        $("#clearButton").on("click", () => LogView.clear());
+        $("#downloadLogButton").on("click", () => {
+            Ui.download("nslogin-web-log.txt", logger.toText(),
+                        "text/plain");
+        });
+        LogView.update();
+    }
+
+    /**
+     * Sets the level of messages that are recorded to match the log level
+     * setting.
+     */
+    public static update(): void {
+        LogView._logger.setLevel(Number($("#logLevel").val()));
+    }
+
+    /**
+     * Adds the specified entry to the end of the log, if it passes the level
+     * filter.
+     *
+     * @param entry The entry.
+     */
+    private static append(entry: LogEntry): void {
+        if (entry.level < Number($("#logLevelFilter").val())) {
+            return;
+        }
+        const logElement = $("#log");
+        logElement.append(LogView.createElement(entry));
+        const rows = logElement.children();
+        if (rows.length > LogView.MaxRows) {
+            rows.slice(0, rows.length - LogView.MaxRows).remove();
+        }
+        if ($("#scrollToBottom").is(":checked")) {
+            logElement.scrollTop(Number(logElement.prop("scrollHeight")));
+        }
+    }
+
+    /**
+     * Shows all entries that pass the level filter, replacing the contents
+     * of the log.
+     */
+    private static render(): void {
+        const minimum = Number($("#logLevelFilter").val());
+        const logElement = $("#log");
+        logElement.empty();
+        logElement.append(LogView._logger.getEntries()
+            .filter(entry => entry.level >= minimum)
+            .slice(-LogView.MaxRows)
+            .map(entry => LogView.createElement(entry)[0]));
+        if ($("#scrollToBottom").is(":checked")) {
+            logElement.scrollTop(Number(logElement.prop("scrollHeight")));
+        }
+    }
+
+    /**
+     * Handler for the clear button.
+     */
+    private static clear(): void {
+        LogView._logger.clear();
+        $("#log").empty();
+    }
+
+    /**
+     * Creates the element used to show the specified entry.
+     *
+     * @param entry The entry.
+     *
+     * @return The element.
+     */
+    private static createElement(entry: LogEntry): JQuery {
+        const level = LogLevel[entry.level];
+        return $("<div>")
+            .addClass("log-" + level.toLowerCase())
+            .text(`${new Date(entry.timestamp).toLocaleTimeString()}`
+                  + ` ${level.toUpperCase()}: ${entry.message}`);
+    }
+}
@@ -0,0 +1,147 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {Credential} from "./app";
+import {Backend, RestoreResponse, RestoreSubmitter} from "./backend";
+import Retry, {ResponseMetadata} from "./retry";
+import {NationShardData} from "./snapshot";
+import {NsApi, PrivateShardsAuth} from "nsapi";
+
+/**
+ * Represents a response to an API request, before its data is parsed.
+ */
+interface ApiResponse {
+    metadata: ResponseMetadata,
+    text: string
+}
+
+/**
+ * Represents the private NsApi method through which every API request is
+ * made. The public methods only return the parsed data, so this is the only
+ * place where the headers of successful responses can be read.
+ */
+interface ApiRequester {
+    apiRequest(...args: Array<{} | undefined>): Promise<ApiResponse>;
+}
+
+/**
+ * Provides access to the real NationStates API and restore form. The API
+ * client's own request delay is turned off, since requests are paced by the
+ * caller.
+ */
+export default class NsApiBackend implements Backend {
+    private readonly _api: NsApi;
+    private readonly _submitter: RestoreSubmitter;
+    private readonly _formUserAgent: string;
+    private _responseListener: ((metadata: ResponseMetadata) => void)
+                               | null = null;
+
+    /**
+     * Initializes a new instance of the NsApiBackend class.
+     *
+     * @param userAgent The user agent specified by the user.
+     * @param submitter Submits the restore form.
+     */
+    constructor(userAgent: string, submitter: RestoreSubmitter) {
+        this._api = new NsApi(userAgent, false);
+        this.hookResponses();
+        this._submitter = submitter;
+        this._formUserAgent = `nslogin-web (maintained by Auralia, currently`
+                              + ` used by "${userAgent}")`;
+    }
+
+    public async nationExists(nation: string): Promise<boolean> {
+        try {
+            await this._api.nationRequest(nation, ["name"], {}, undefined,
+                                          true);
+            return true;
+        } catch (err) {
+            if (Retry.getStatusCode(err) === 404) {
+                return false;
+            }
+            throw err;
+        }
+    }
+
+    public async ping(credential: Credential,
+                      useAutologin: boolean): Promise<string | null>
+    {
+        const auth: PrivateShardsAuth = useAutologin
+            ? {autologin: credential.autologin}
+            : {password: credential.password, updateAutologin: true};
+        await this._api.nationRequest(credential.nation, ["ping"], {}, auth,
+                                      true);
+        return auth.autologin || null;
+    }
+
+    public async getLastLogin(nation: string): Promise<number> {
+        // The cache must be bypassed, since the last login may have been
+        // requested before logging in
+        const data = await this._api.nationRequest(nation, ["lastlogin"], {},
+                                                   undefined, true);
+        return parseInt(data["lastlogin"], 10);
+    }
+
+    public submitRestore(credential: Credential): Promise<RestoreResponse> {
+        return this._submitter.submit(credential, this._formUserAgent);
+    }
+
+    public getNationShards(credential: Credential, shards: string[],
+                           authenticate: boolean)
+        : Promise<NationShardData>
+    {
+        let auth: PrivateShardsAuth | undefined;
+        if (authenticate) {
+            auth = credential.autologin !== undefined
+                ? {autologin: credential.autologin}
+                : {password: credential.password};
+        }
+        return this._api.nationRequest(credential.nation, shards, {}, auth,
+                                       true);
+    }
+
+    public async getRegionNations(region: string): Promise<string[]> {
+        const data = await this._api.regionRequest(region, ["nations"]);
+        const nations = String(data["nations"] || "");
+        return nations === "" ? [] : nations.split(":");
+    }
+
+    public setResponseListener(
+        listener: (metadata: ResponseMetadata) => void): void
+    {
+        this._responseListener = listener;
+    }
+
+    public cleanup(): void {
+        this._api.cleanup();
+    }
+
+    /**
+     * Wraps the API client's request method so that the metadata of each
+     * successful response is passed to the response listener.
+     */
+    private hookResponses(): void {
+        const api = this._api as {} as ApiRequester;
+        const apiRequest = api.apiRequest;
+        api.apiRequest = async (...args: Array<{} | undefined>) => {
+            const response: ApiResponse = await apiRequest.apply(this._api,
+                                                                 args);
+            if (this._responseListener !== null) {
+                this._responseListener(response.metadata);
+            }
+            return response;
+        };
+    }
+}
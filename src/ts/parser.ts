@@ -0,0 +1,465 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {Credential} from "./app";
+import Csv, {CsvRecord} from "./csv";
+import I18n from "./i18n";
+
+/**
+ * Represents the format of credentials text.
+ */
+export enum Format {
+    Csv,
+    Tsv,
+    Json
+}
+
+/**
+ * Represents the severity of a parser diagnostic.
+ */
+export enum Severity {
+    Warning,
+    Error
+}
+
+/**
+ * Represents a problem found while parsing credentials text.
+ */
+export interface Diagnostic {
+    /**
+     * A description of where the problem was found, e.g. "Line 3".
+     */
+    location: string,
+    severity: Severity,
+    message: string
+}
+
+/**
+ * Represents the result of parsing credentials text.
+ */
+export interface ParseResult {
+    format: Format,
+    /**
+     * The credentials that were parsed successfully. Entries with errors are
+     * omitted.
+     */
+    credentials: Credential[],
+    diagnostics: Diagnostic[]
+}
+
+/**
+ * Represents an entry of a JSON credentials array. The fields are checked
+ * before use, since the entry is only known to be a JSON object.
+ */
+interface JsonEntry {
+    nation?: string | number | boolean | object | null,
+    password?: string | number | boolean | object | null,
+    tags?: string | number | boolean | object | null
+}
+
+/**
+ * Parses nation names and passwords from CSV, TSV or JSON text.
+ *
+ * In CSV and TSV text, a line of the form "[tag1 tag2]" tags the nations on
+ * the lines after it, up to the next such line; "[]" clears the tags. In
+ * JSON, each entry may have a "tags" property containing an array of tags.
+ */
+export default class CredentialParser {
+    /**
+     * Detects the format of the specified credentials text. Text starting
+     * with "[" followed by "{", or consisting only of "[]", is JSON; other
+     * text starting with "[" begins with a tag line. Text containing a tab
+     * is TSV, and anything else is CSV.
+     *
+     * @param text The credentials text.
+     *
+     * @return The detected format.
+     */
+    public static detectFormat(text: string): Format {
+        if (/^\[\s*(\{|\]$)/.test(text.trim())) {
+            return Format.Json;
+        } else if (text.indexOf("\t") !== -1) {
+            return Format.Tsv;
+        }
+        return Format.Csv;
+    }
+
+    /**
+     * Gets the format implied by the extension of the specified file name,
+     * if any.
+     *
+     * @param filename The file name.
+     *
+     * @return The format, or null if the extension is not recognized.
+     */
+    public static getFileFormat(filename: string): Format | null {
+        const extension = filename.substr(filename.lastIndexOf(".") + 1)
+                                  .toLowerCase();
+        switch (extension) {
+            case "csv":
+                return Format.Csv;
+            case "tsv":
+                return Format.Tsv;
+            case "json":
+                return Format.Json;
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Parses the specified credentials text. Problems are reported as
+     * diagnostics rather than thrown, and parsing continues past entries
+     * with errors.
+     *
+     * @param text The credentials text.
+     * @param format The format of the text. Detected automatically if not
+     *               specified.
+     *
+     * @return The parsed credentials and any diagnostics.
+     */
+    public static parse(text: string, format?: Format): ParseResult {
+        if (format === undefined) {
+            format = CredentialParser.detectFormat(text);
+        }
+        if (format === Format.Json) {
+            return CredentialParser.parseJson(text);
+        }
+        return CredentialParser.parseDelimited(
+            text, format === Format.Tsv ? "\t" : ",", format);
+    }
+
+    /**
+     * Converts the specified credentials to text in the form accepted by the
+     * credentials text box, quoting CSV and TSV fields where necessary.
+     *
+     * @param credentials The credentials.
+     * @param format The format of the text.
+     *
+     * @return The text.
+     */
+    public static format(credentials: Credential[],
+                         format: Format = Format.Csv): string
+    {
+        if (format === Format.Json) {
+            return JSON.stringify(credentials.map((credential) => {
+                const entry: Credential = {
+                    nation: credential.nation,
+                    password: credential.password
+                };
+                if (credential.tags !== undefined) {
+                    entry.tags = credential.tags;
+                }
+                return entry;
+            }), null, 2);
+        }
+        const delimiter = format === Format.Tsv ? "\t" : ",";
+        const lines: string[] = [];
+        let tags = "";
+        for (const credential of credentials) {
+            const credentialTags = (credential.tags || []).join(" ");
+            if (credentialTags !== tags) {
+                tags = credentialTags;
+                lines.push(`[${tags}]`);
+            }
+            lines.push(Csv.escape(credential.nation, delimiter) + delimiter
+                       + Csv.escape(credential.password, delimiter));
+        }
+        return lines.join("\n");
+    }
+
+    /**
+     * Appends the specified credentials to credentials text, on a new line.
+     * If the existing text ends with tagged nations, the tags are cleared
+     * first so that they do not apply to the appended credentials.
+     *
+     * @param text The existing credentials text.
+     * @param credentials The credentials to append.
+     *
+     * @return The combined text.
+     */
+    public static append(text: string, credentials: Credential[]): string {
+        if (text !== "" && text.charAt(text.length - 1) !== "\n") {
+            text += "\n";
+        }
+        const existing = CredentialParser.parse(text).credentials;
+        const last = existing[existing.length - 1];
+        const first = credentials[0];
+        if (last !== undefined && last.tags !== undefined
+            && first !== undefined && first.tags === undefined)
+        {
+            text += "[]\n";
+        }
+        return text + CredentialParser.format(credentials);
+    }
+
+    /**
+     * Splits tags separated by whitespace.
+     *
+     * @param text The tags.
+     *
+     * @return The tags, without duplicates.
+     */
+    public static parseTags(text: string): string[] {
+        const tags: string[] = [];
+        for (const tag of text.split(/\s+/)) {
+            if (tag !== "" && tags.indexOf(tag) === -1) {
+                tags.push(tag);
+            }
+        }
+        return tags;
+    }
+
+    /**
+     * Parses comma- or tab-separated credentials text.
+     *
+     * @param text The credentials text.
+     * @param delimiter The field delimiter.
+     * @param format The format of the text.
+     *
+     * @return The parsed credentials and any diagnostics.
+     */
+    private static parseDelimited(text: string, delimiter: string,
+                                  format: Format): ParseResult
+    {
+        const result: ParseResult = {format, credentials: [], diagnostics: []};
+        const separator = I18n.t(delimiter === "\t" ? "parser.tab"
+                                                    : "parser.comma");
+
+        const parsed = Csv.parse(text, delimiter);
+        let records = parsed.records;
+        if (records.length > 0 && CredentialParser.isHeader(records[0])) {
+            records = records.slice(1);
+        }
+
+        let tags: string[] = [];
+        for (const record of records) {
+            const location = I18n.t("parser.line", {line: record.line});
+            if (CredentialParser.isTagLine(record)) {
+                tags = CredentialParser.parseTags(
+                    record.fields[0].trim().slice(1, -1));
+                continue;
+            }
+            let fields = record.fields;
+            if (fields.length < 2) {
+                result.diagnostics.push({
+                    location,
+                    severity: Severity.Error,
+                    message: I18n.t("parser.expectedPair", {separator})
+                });
+                continue;
+            }
+            if (fields.length > 2) {
+                const anyQuoted = record.quoted.some(quoted => quoted);
+                if (anyQuoted) {
+                    result.diagnostics.push({
+                        location,
+                        severity: Severity.Error,
+                        message: I18n.t("parser.fieldCount",
+                                        {count: fields.length})
+                    });
+                    continue;
+                }
+                // Nation names cannot contain the delimiter, so everything
+                // after the first one must be part of the password
+                fields = [fields[0], fields.slice(1).join(delimiter)];
+                result.diagnostics.push({
+                    location,
+                    severity: Severity.Warning,
+                    message: I18n.t("parser.passwordContainsSeparator",
+                                    {separator})
+                });
+            }
+            const error = CredentialParser.validate(fields[0]);
+            if (error !== null) {
+                result.diagnostics.push({
+                    location,
+                    severity: Severity.Error,
+                    message: error
+                });
+                continue;
+            }
+            const credential: Credential = {
+                nation: fields[0].trim(),
+                password: fields[1]
+            };
+            if (tags.length > 0) {
+                credential.tags = tags;
+            }
+            result.credentials.push(credential);
+        }
+
+        if (parsed.unterminatedLine !== null) {
+            result.diagnostics.push({
+                location: I18n.t("parser.line",
+                                 {line: parsed.unterminatedLine}),
+                severity: Severity.Error,
+                message: I18n.t("parser.unterminated")
+            });
+        }
+        return result;
+    }
+
+    /**
+     * Parses credentials from a JSON array of objects with "nation" and
+     * "password" properties.
+     *
+     * @param text The credentials text.
+     *
+     * @return The parsed credentials and any diagnostics.
+     */
+    private static parseJson(text: string): ParseResult {
+        const result: ParseResult = {
+            format: Format.Json,
+            credentials: [],
+            diagnostics: []
+        };
+
+        let data: {} | null;
+        try {
+            data = JSON.parse(text);
+        } catch (err) {
+            result.diagnostics.push({
+                location: "JSON",
+                severity: Severity.Error,
+                message: I18n.t("parser.invalidJson", {error: err.message})
+            });
+            return result;
+        }
+        if (!Array.isArray(data)) {
+            result.diagnostics.push({
+                location: "JSON",
+                severity: Severity.Error,
+                message: I18n.t("parser.expectedArray")
+            });
+            return result;
+        }
+
+        const entries: Array<{} | null> = data;
+        for (let i = 0; i < entries.length; i++) {
+            const location = I18n.t("parser.entry", {entry: i + 1});
+            const entry = entries[i];
+            const fields: JsonEntry = typeof entry === "object"
+                                      && entry !== null ? entry : {};
+            const {nation, password, tags} = fields;
+            if (typeof nation !== "string" || typeof password !== "string") {
+                result.diagnostics.push({
+                    location,
+                    severity: Severity.Error,
+                    message: I18n.t("parser.expectedObject")
+                });
+                continue;
+            }
+            const credential: Credential = {
+                nation: nation.trim(),
+                password
+            };
+            const error = CredentialParser.validate(credential.nation);
+            if (error !== null) {
+                result.diagnostics.push({
+                    location,
+                    severity: Severity.Error,
+                    message: error
+                });
+                continue;
+            }
+            const tagList = tags !== undefined
+                ? CredentialParser.toStringArray(tags) : [];
+            if (tagList === null) {
+                result.diagnostics.push({
+                    location,
+                    severity: Severity.Error,
+                    message: I18n.t("parser.invalidTags")
+                });
+                continue;
+            }
+            const parsedTags = CredentialParser.parseTags(tagList.join(" "));
+            if (parsedTags.length > 0) {
+                credential.tags = parsedTags;
+            }
+            result.credentials.push(credential);
+        }
+        return result;
+    }
+
+    /**
+     * Checks that a nation name is present. The password may be missing,
+     * since nations with autologin tokens can be logged into without one;
+     * the pre-flight checks exclude nations with neither.
+     *
+     * @param nation The nation name.
+     *
+     * @return An error message, or null if the name is present.
+     */
+    private static validate(nation: string): string | null {
+        if (nation.trim() === "") {
+            return I18n.t("parser.missingNation");
+        }
+        return null;
+    }
+
+    /**
+     * Checks that the specified JSON value is an array of strings.
+     *
+     * @param value The value.
+     *
+     * @return The strings, or null if the value is not an array of strings.
+     */
+    private static toStringArray(value: {} | null): string[] | null {
+        if (!Array.isArray(value)) {
+            return null;
+        }
+        const items: Array<{} | null> = value;
+        const strings: string[] = [];
+        for (const item of items) {
+            if (typeof item !== "string") {
+                return null;
+            }
+            strings.push(item);
+        }
+        return strings;
+    }
+
+    /**
+     * Returns whether the specified record is a "[tag1 tag2]" line that
+     * tags the nations after it.
+     *
+     * @param record The record.
+     *
+     * @return Whether the record is a tag line.
+     */
+    private static isTagLine(record: CsvRecord): boolean {
+        if (record.fields.length !== 1 || record.quoted[0]) {
+            return false;
+        }
+        const field = record.fields[0].trim();
+        return field.charAt(0) === "["
+               && field.charAt(field.length - 1) === "]";
+    }
+
+    /**
+     * Returns whether the specified record is a "nation,password" header
+     * row.
+     *
+     * @param record The record.
+     *
+     * @return Whether the record is a header row.
+     */
+    private static isHeader(record: CsvRecord): boolean {
+        return record.fields.length === 2
+               && record.fields[0].trim().toLowerCase() === "nation"
+               && record.fields[1].trim().toLowerCase() === "password";
+    }
+}
@@ -0,0 +1,152 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import App, {Credential} from "./app";
+import I18n from "./i18n";
+
+/**
+ * Represents the kind of problem found with a nation during pre-flight
+ * checks.
+ */
+export enum IssueKind {
+    InvalidCharacters,
+    TooLong,
+    Duplicate,
+    ConflictingPassword,
+    /**
+     * The nation has neither a password nor an autologin token.
+     */
+    MissingPassword
+}
+
+/**
+ * Represents a problem found with a nation during pre-flight checks.
+ */
+export interface Issue {
+    nation: string,
+    /**
+     * The position of the entry in the checked credentials.
+     */
+    index: number,
+    kind: IssueKind,
+    message: string
+}
+
+/**
+ * Represents the result of pre-flight checks on a list of credentials.
+ */
+export interface PreflightReport {
+    /**
+     * The credentials to process: one per nation, in the original order,
+     * with invalid entries removed.
+     */
+    credentials: Credential[],
+    issues: Issue[]
+}
+
+/**
+ * Validates, normalizes and de-duplicates a list of credentials before a run.
+ */
+export default class Preflight {
+    /**
+     * The maximum length of a NationStates nation name.
+     */
+    public static readonly MaxNameLength = 40;
+
+    /**
+     * Checks the specified credentials. Every entry with an issue is excluded
+     * from the run: names that cannot be valid nation names and nations with
+     * neither a password nor an autologin token are dropped, and when a
+     * nation appears more than once only the first entry is kept. Later
+     * entries with a different password from the first are flagged as
+     * conflicts.
+     *
+     * @param credentials The credentials to check.
+     *
+     * @return The credentials to process and any issues found.
+     */
+    public static check(credentials: Credential[]): PreflightReport {
+        const report: PreflightReport = {credentials: [], issues: []};
+        const seen: {[id: string]: Credential} = {};
+
+        for (let index = 0; index < credentials.length; index++) {
+            const credential = credentials[index];
+            const nation = credential.nation.trim();
+            const id = App.toId(nation);
+
+            if (!/^[a-z0-9_\-]+$/.test(id)) {
+                report.issues.push({
+                    nation,
+                    index,
+                    kind: IssueKind.InvalidCharacters,
+                    message: I18n.t("preflight.invalidCharacters")
+                });
+                continue;
+            }
+            if (id.length > Preflight.MaxNameLength) {
+                report.issues.push({
+                    nation,
+                    index,
+                    kind: IssueKind.TooLong,
+                    message: I18n.t("preflight.tooLong",
+                                    {length: Preflight.MaxNameLength})
+                });
+                continue;
+            }
+
+            if (credential.password === ""
+                && credential.autologin === undefined)
+            {
+                report.issues.push({
+                    nation,
+                    index,
+                    kind: IssueKind.MissingPassword,
+                    message: I18n.t("preflight.missingPassword")
+                });
+                continue;
+            }
+
+            if (seen.hasOwnProperty(id)) {
+                const first = seen[id];
+                if (first.password === credential.password) {
+                    report.issues.push({
+                        nation,
+                        index,
+                        kind: IssueKind.Duplicate,
+                        message: I18n.t("preflight.duplicate",
+                                        {nation: first.nation})
+                    });
+                } else {
+                    report.issues.push({
+                        nation,
+                        index,
+                        kind: IssueKind.ConflictingPassword,
+                        message: I18n.t("preflight.conflictingPassword",
+                                        {nation: first.nation})
+                    });
+                }
+                continue;
+            }
+
+            seen[id] = credential;
+            const checked: Credential = {nation, password: credential.password};
+            if (credential.autologin !== undefined) {
+                checked.autologin = credential.autologin;
+            }
+            report.credentials.push(checked);
+        }
+        return report;
+    }
+}
@@ -0,0 +1,415 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import I18n from "./i18n";
+
+/**
+ * Represents the saved settings of a profile, keyed by setting name.
+ */
+export interface ProfileSettings {
+    [key: string]: string
+}
+
+/**
+ * Represents a profile exported to a file.
+ */
+export interface ProfileBundle {
+    format: string,
+    version: number,
+    name: string,
+    settings: ProfileSettings
+}
+
+/**
+ * Represents all saved profiles.
+ */
+interface ProfileStore {
+    active: string,
+    profiles: {[name: string]: ProfileSettings}
+}
+
+/**
+ * Saves named configuration profiles in local storage. Settings are read and
+ * written through the active profile.
+ *
+ * All methods throw if local storage is unavailable.
+ */
+export default class Profiles {
+    /**
+     * The name of the profile that settings saved before profiles existed
+     * are migrated into.
+     */
+    public static readonly DefaultName = "Default";
+
+    /**
+     * The local storage key of the saved profiles.
+     */
+    public static readonly StorageKey = "profiles";
+
+    private static readonly BundleFormat = "nslogin-web-profile";
+    private static readonly BundleVersion = 1;
+    /**
+     * The local storage keys used for settings before profiles existed.
+     */
+    private static readonly LegacyKeys = [
+        "userAgent", "rateLimit", "maxAttempts", "retryDelay", "mode",
+        "smartThreshold", "credentials", "credentialsVault", "region",
+        "verbose", "scheduleEnabled", "scheduleInterval"
+    ];
+
+    /**
+     * Gets the names of all profiles in alphabetical order.
+     *
+     * @return The names of all profiles.
+     */
+    public static getNames(): string[] {
+        return Object.keys(Profiles.load().profiles).sort();
+    }
+
+    /**
+     * Gets the name of the active profile.
+     *
+     * @return The name of the active profile.
+     */
+    public static getActive(): string {
+        return Profiles.load().active;
+    }
+
+    /**
+     * Gets a setting from the active profile.
+     *
+     * @param key The name of the setting.
+     *
+     * @return The value of the setting, or null if it is not set.
+     */
+    public static getItem(key: string): string | null {
+        const store = Profiles.load();
+        const settings = store.profiles[store.active];
+        return settings.hasOwnProperty(key) ? settings[key] : null;
+    }
+
+    /**
+     * Sets a setting in the active profile.
+     *
+     * @param key The name of the setting.
+     * @param value The value of the setting.
+     */
+    public static setItem(key: string, value: string): void {
+        const store = Profiles.load();
+        store.profiles[store.active][key] = value;
+        Profiles.store(store);
+    }
+
+    /**
+     * Removes a setting from the active profile.
+     *
+     * @param key The name of the setting.
+     */
+    public static removeItem(key: string): void {
+        const store = Profiles.load();
+        delete store.profiles[store.active][key];
+        Profiles.store(store);
+    }
+
+    /**
+     * Creates an empty profile.
+     *
+     * @param name The name of the profile.
+     */
+    public static create(name: string): void {
+        const store = Profiles.load();
+        name = Profiles.checkName(store, name);
+        store.profiles[name] = {};
+        Profiles.store(store);
+    }
+
+    /**
+     * Renames a profile.
+     *
+     * @param name The current name of the profile.
+     * @param newName The new name of the profile.
+     */
+    public static rename(name: string, newName: string): void {
+        const store = Profiles.load();
+        Profiles.checkExists(store, name);
+        newName = Profiles.checkName(store, newName);
+        store.profiles[newName] = store.profiles[name];
+        delete store.profiles[name];
+        if (store.active === name) {
+            store.active = newName;
+        }
+        Profiles.store(store);
+    }
+
+    /**
+     * Copies a profile.
+     *
+     * @param name The name of the profile to copy.
+     * @param newName The name of the copy.
+     */
+    public static duplicate(name: string, newName: string): void {
+        const store = Profiles.load();
+        Profiles.checkExists(store, name);
+        newName = Profiles.checkName(store, newName);
+        store.profiles[newName] = Profiles.copy(store.profiles[name]);
+        Profiles.store(store);
+    }
+
+    /**
+     * Deletes a profile. If the active profile is deleted, the first
+     * remaining profile becomes active.
+     *
+     * @param name The name of the profile.
+     */
+    public static remove(name: string): void {
+        const store = Profiles.load();
+        Profiles.checkExists(store, name);
+        if (Object.keys(store.profiles).length === 1) {
+            throw new Error(I18n.t("profile.lastProfile"));
+        }
+        delete store.profiles[name];
+        if (store.active === name) {
+            store.active = Object.keys(store.profiles).sort()[0];
+        }
+        Profiles.store(store);
+    }
+
+    /**
+     * Makes a profile the active profile.
+     *
+     * @param name The name of the profile.
+     */
+    public static switchTo(name: string): void {
+        const store = Profiles.load();
+        Profiles.checkExists(store, name);
+        store.active = name;
+        Profiles.store(store);
+    }
+
+    /**
+     * Exports a profile as a JSON bundle.
+     *
+     * @param name The name of the profile.
+     *
+     * @return The JSON bundle.
+     */
+    public static exportBundle(name: string): string {
+        const store = Profiles.load();
+        Profiles.checkExists(store, name);
+        const bundle: ProfileBundle = {
+            format: Profiles.BundleFormat,
+            version: Profiles.BundleVersion,
+            name,
+            settings: store.profiles[name]
+        };
+        return JSON.stringify(bundle, null, 2);
+    }
+
+    /**
+     * Imports a profile from a JSON bundle. If a profile with the same name
+     * already exists, a number is added to the name of the imported profile.
+     *
+     * @param text The JSON bundle.
+     *
+     * @return The name of the imported profile.
+     */
+    public static importBundle(text: string): string {
+        let bundle: ProfileBundle;
+        try {
+            bundle = JSON.parse(text);
+        } catch (_) {
+            throw new Error(I18n.t("profile.invalidJson"));
+        }
+        if (bundle === null || typeof bundle !== "object"
+            || bundle.format !== Profiles.BundleFormat)
+        {
+            throw new Error(I18n.t("profile.notProfile"));
+        }
+        if (bundle.version !== Profiles.BundleVersion) {
+            throw new Error(I18n.t("profile.unsupportedVersion",
+                                   {version: bundle.version}));
+        }
+        const settings: ProfileSettings = {};
+        if (bundle.settings !== null && typeof bundle.settings === "object") {
+            for (const key of Object.keys(bundle.settings)) {
+                if (typeof bundle.settings[key] === "string") {
+                    settings[key] = bundle.settings[key];
+                }
+            }
+        }
+
+        const store = Profiles.load();
+        const baseName = typeof bundle.name === "string"
+                         && bundle.name.trim() !== ""
+            ? bundle.name.trim() : Profiles.DefaultName;
+        let name = baseName;
+        for (let i = 2; store.profiles.hasOwnProperty(name); i++) {
+            name = `${baseName} (${i})`;
+        }
+        store.profiles[name] = settings;
+        Profiles.store(store);
+        return name;
+    }
+
+    /**
+     * Compares two versions of the saved profiles, for example before and
+     * after they were changed in another tab.
+     *
+     * @param oldRaw The previously saved profiles, if any.
+     * @param newRaw The newly saved profiles, if any.
+     *
+     * @return The names of the settings of the active profile that differ,
+     *         or null if a different profile became active or either version
+     *         cannot be read.
+     */
+    public static getChangedSettings(oldRaw: string | null,
+                                     newRaw: string | null): string[] | null
+    {
+        const oldStore = oldRaw !== null ? Profiles.parse(oldRaw) : null;
+        const newStore = newRaw !== null ? Profiles.parse(newRaw) : null;
+        if (oldStore === null || newStore === null
+            || oldStore.active !== newStore.active)
+        {
+            return null;
+        }
+        const oldSettings = oldStore.profiles[oldStore.active];
+        const newSettings = newStore.profiles[newStore.active];
+        const keys = Object.keys(oldSettings).concat(Object.keys(newSettings));
+        return keys.filter(
+            (key, i) => keys.indexOf(key) === i
+                        && oldSettings[key] !== newSettings[key]);
+    }
+
+    /**
+     * Loads all profiles from local storage. If none are saved, a default
+     * profile is created from any settings saved before profiles existed,
+     * and those settings are removed. If the active profile no longer
+     * exists, the first profile becomes active.
+     *
+     * Saved profiles that cannot be read are never replaced, since they may
+     * hold the only copy of a vault; an error is thrown instead.
+     *
+     * @return All profiles.
+     */
+    private static load(): ProfileStore {
+        const raw = localStorage.getItem(Profiles.StorageKey);
+        if (raw !== null) {
+            const store = Profiles.parse(raw);
+            if (store === null) {
+                throw new Error(I18n.t("profile.corrupt"));
+            }
+            return store;
+        }
+
+        const settings: ProfileSettings = {};
+        for (const key of Profiles.LegacyKeys) {
+            const value = localStorage.getItem(key);
+            if (value !== null) {
+                settings[key] = value;
+            }
+        }
+        const store: ProfileStore = {
+            active: Profiles.DefaultName,
+            profiles: {[Profiles.DefaultName]: settings}
+        };
+        Profiles.store(store);
+        for (const key of Profiles.LegacyKeys) {
+            localStorage.removeItem(key);
+        }
+        return store;
+    }
+
+    /**
+     * Parses saved profiles. If the active profile no longer exists, the
+     * first profile becomes active.
+     *
+     * @param raw The saved profiles.
+     *
+     * @return The profiles, or null if they cannot be read.
+     */
+    private static parse(raw: string): ProfileStore | null {
+        let store: ProfileStore;
+        try {
+            store = JSON.parse(raw);
+        } catch (_) {
+            return null;
+        }
+        if (store === null || typeof store !== "object"
+            || store.profiles === null || typeof store.profiles !== "object"
+            || Object.keys(store.profiles).length === 0)
+        {
+            return null;
+        }
+        if (!store.profiles.hasOwnProperty(store.active)) {
+            store.active = Object.keys(store.profiles).sort()[0];
+        }
+        return store;
+    }
+
+    /**
+     * Saves all profiles to local storage.
+     *
+     * @param store All profiles.
+     */
+    private static store(store: ProfileStore): void {
+        localStorage.setItem(Profiles.StorageKey, JSON.stringify(store));
+    }
+
+    /**
+     * Checks that a profile exists.
+     *
+     * @param store All profiles.
+     * @param name The name of the profile.
+     */
+    private static checkExists(store: ProfileStore, name: string): void {
+        if (!store.profiles.hasOwnProperty(name)) {
+            throw new Error(I18n.t("profile.notFound", {name}));
+        }
+    }
+
+    /**
+     * Checks that a name can be used for a new profile.
+     *
+     * @param store All profiles.
+     * @param name The name.
+     *
+     * @return The name with surrounding whitespace removed.
+     */
+    private static checkName(store: ProfileStore, name: string): string {
+        name = name.trim();
+        if (name === "") {
+            throw new Error(I18n.t("profile.emptyName"));
+        }
+        if (store.profiles.hasOwnProperty(name)) {
+            throw new Error(I18n.t("profile.exists", {name}));
+        }
+        return name;
+    }
+
+    /**
+     * Copies the specified settings.
+     *
+     * @param settings The settings.
+     *
+     * @return The copy.
+     */
+    private static copy(settings: ProfileSettings): ProfileSettings {
+        const copy: ProfileSettings = {};
+        for (const key of Object.keys(settings)) {
+            copy[key] = settings[key];
+        }
+        return copy;
+    }
+}
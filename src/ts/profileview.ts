@@ -0,0 +1,245 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import I18n from "./i18n";
+import Profiles from "./profiles";
+import Ui from "./ui";
+import VaultView from "./vaultview";
+import * as $ from "jquery";
+
+/**
+ * Contains the UI logic for creating, switching between and exporting
+ * configuration profiles.
+ */
+export default class ProfileView {
+    private static _load: () => void;
+    private static _save: () => void;
+
+    /**
+     * Initializes the profile controls.
+     *
+     * @param load Loads the configuration from the active profile.
+     * @param save Saves the configuration to the active profile.
+     */
+    public static init(load: () => void, save: () => void): void {
+        ProfileView._load = load;
+        ProfileView._save = save;
+
+        $("#profileSelect").on("change", () => {
+            ProfileView.run(() => ProfileView.handleSwitch(
+                String($("#profileSelect").val())));
+        });
+        $("#newProfileButton").on("click", () => {
+            ProfileView.run(() => ProfileView.handleNew());
+        });
+        $("#renameProfileButton").on("click", () => {
+            ProfileView.run(() => ProfileView.handleRename());
+        });
+        $("#duplicateProfileButton").on("click", () => {
+            ProfileView.run(() => ProfileView.handleDuplicate());
+        });
+        $("#deleteProfileButton").on("click", () => {
+            ProfileView.run(() => ProfileView.handleDelete());
+        });
+        $("#exportProfileButton").on("click", () => {
+            ProfileView.run(() => ProfileView.handleExport());
+        });
+
+        const profileFileInput = $("#profileFile");
+        $("#importProfileButton").on("click", () => profileFileInput.click());
+        profileFileInput.on("change", () => {
+            const files = (profileFileInput[0] as HTMLInputElement).files;
+            if (files !== null && files.length > 0) {
+                ProfileView.handleImport(files[0]);
+            }
+            profileFileInput.val("");
+        });
+
+        ProfileView.show();
+    }
+
+    /**
+     * Handler for selecting a profile.
+     *
+     * @param name The name of the profile.
+     */
+    private static handleSwitch(name: string): void {
+        if (name === Profiles.getActive()) {
+            return;
+        }
+        ProfileView.saveIfAutomatic();
+        Profiles.switchTo(name);
+        ProfileView.loadActive();
+    }
+
+    /**
+     * Handler for the new profile button.
+     */
+    private static handleNew(): void {
+        const name = window.prompt(I18n.t("profile.newPrompt"));
+        if (name === null) {
+            return;
+        }
+        Profiles.create(name);
+        ProfileView.saveIfAutomatic();
+        Profiles.switchTo(name.trim());
+        ProfileView.loadActive();
+    }
+
+    /**
+     * Handler for the rename profile button.
+     */
+    private static handleRename(): void {
+        const active = Profiles.getActive();
+        const name = window.prompt(I18n.t("profile.renamePrompt"), active);
+        if (name === null || name.trim() === active) {
+            return;
+        }
+        Profiles.rename(active, name);
+    }
+
+    /**
+     * Handler for the duplicate profile button. The copy includes any
+     * unsaved changes when configuration is saved automatically.
+     */
+    private static handleDuplicate(): void {
+        const active = Profiles.getActive();
+        const name = window.prompt(I18n.t("profile.duplicatePrompt"),
+                                   I18n.t("profile.copyName", {name: active}));
+        if (name === null) {
+            return;
+        }
+        ProfileView.saveIfAutomatic();
+        Profiles.duplicate(active, name);
+    }
+
+    /**
+     * Handler for the delete profile button.
+     */
+    private static handleDelete(): void {
+        const active = Profiles.getActive();
+        if (!window.confirm(I18n.t("profile.deleteConfirm",
+                                   {name: active})))
+        {
+            return;
+        }
+        Profiles.remove(active);
+        ProfileView.loadActive();
+    }
+
+    /**
+     * Handler for the export profile button.
+     */
+    private static handleExport(): void {
+        ProfileView.saveIfAutomatic();
+        const active = Profiles.getActive();
+        Ui.download(`${active}.json`, Profiles.exportBundle(active),
+                    "application/json");
+    }
+
+    /**
+     * Handler for importing a profile from a file. The imported profile
+     * becomes the active profile.
+     *
+     * @param file The file to import.
+     */
+    private static handleImport(file: File): void {
+        const reader = new FileReader();
+        reader.onload = () => {
+            ProfileView.run(() => {
+                const name = Profiles.importBundle(String(reader.result));
+                ProfileView.saveIfAutomatic();
+                Profiles.switchTo(name);
+                ProfileView.loadActive();
+                $("#profileStatus").text(I18n.t("profile.imported",
+                                                {name}));
+            });
+        };
+        reader.readAsText(file);
+    }
+
+    /**
+     * Performs a profile action, then shows the profiles. Errors are shown
+     * next to the profile controls.
+     *
+     * @param action The action.
+     */
+    private static run(action: () => void): void {
+        $("#profileStatus").text("");
+        try {
+            action();
+        } catch (err) {
+            $("#profileStatus").text(err instanceof DOMException
+                ? I18n.t("profile.noLocalStorage") : err.message);
+        }
+        ProfileView.show();
+    }
+
+    /**
+     * Saves the configuration to the active profile if the configuration is
+     * saved automatically.
+     */
+    private static saveIfAutomatic(): void {
+        if ($("#autoLoadSave").is(":checked")) {
+            ProfileView._save();
+        }
+    }
+
+    /**
+     * Resets the configuration to its defaults, then loads the active
+     * profile, so that no settings are carried over from another profile.
+     */
+    private static loadActive(): void {
+        VaultView.lock();
+        $("#configuration").find("input, textarea")
+            .not("#localStorageFormGroup *, #profileFormGroup *")
+            .not("[type='file']")
+            .each((_, element) => {
+                const input = element as HTMLInputElement;
+                input.value = input.defaultValue;
+                input.checked = input.defaultChecked;
+            });
+        $("#configuration").find("option")
+            .not("#profileFormGroup *")
+            .each((_, element) => {
+                const option = element as HTMLOptionElement;
+                option.selected = option.defaultSelected;
+            });
+        ProfileView._load();
+    }
+
+    /**
+     * Shows the profiles in the profile list, selecting the active profile.
+     */
+    private static show(): void {
+        const select = $("#profileSelect");
+        select.empty();
+        let names: string[] = [];
+        let active = "";
+        try {
+            names = Profiles.getNames();
+            active = Profiles.getActive();
+        } catch (err) {
+            // No local storage, or the saved profiles cannot be read
+            if (!(err instanceof DOMException)) {
+                $("#profileStatus").text(err.message);
+            }
+        }
+        for (const name of names) {
+            $("<option>").val(name).text(name).appendTo(select);
+        }
+        select.val(active);
+    }
+}
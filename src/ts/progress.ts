@@ -0,0 +1,274 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {Outcome, Result} from "./results";
+
+/**
+ * Represents the state of a run as seen by the progress tracker.
+ */
+export enum ProgressState {
+    Idle,
+    Running,
+    Paused,
+    /**
+     * The run is waiting for the user to confirm a restore.
+     */
+    WaitingForConfirmation,
+    Finished
+}
+
+/**
+ * Represents the progress of a run.
+ */
+export interface RunProgress {
+    state: ProgressState,
+    total: number,
+    /**
+     * The number of nations that are no longer pending.
+     */
+    processed: number,
+    succeeded: number,
+    failed: number,
+    skipped: number,
+    deferred: number,
+    unknown: number,
+    /**
+     * The time since the run started in milliseconds, including time spent
+     * paused or waiting for confirmation.
+     */
+    elapsedMillis: number,
+    /**
+     * The estimated time until the run finishes in milliseconds, not
+     * counting any further time spent paused or waiting for confirmation,
+     * or null if no run has started.
+     */
+    remainingMillis: number | null
+}
+
+/**
+ * Tracks how far through a run the app is and estimates how long is left.
+ *
+ * Only active time counts towards the estimate: the clock stops while the
+ * run is paused or waiting for the user to confirm a restore, so that
+ * neither inflates the time taken per nation.
+ */
+export default class ProgressTracker {
+    /**
+     * The number of nations' worth of weight given to the initial estimate
+     * of the time per nation, so that the estimate does not jump around
+     * after the first few nations.
+     */
+    private static readonly EstimateWeight = 2;
+
+    private _state = ProgressState.Idle;
+    private _startedAt = 0;
+    private _finishedAt = 0;
+    private _estimateMillis = 0;
+    private _initialProcessed = 0;
+    private _processed = 0;
+    private _paused = false;
+    private _waiting = false;
+    private _stoppedAt: number | null = null;
+    private _stoppedMillis = 0;
+    private _activeAtLastProcessed = 0;
+
+    /**
+     * Formats a duration as hours, minutes and seconds.
+     *
+     * @param millis The duration in milliseconds.
+     *
+     * @return The formatted duration, such as "1:02:03" or "2:03".
+     */
+    public static formatDuration(millis: number): string {
+        const seconds = Math.max(0, Math.round(millis / 1000));
+        const pad = (n: number) => (n < 10 ? "0" : "") + n;
+        const h = Math.floor(seconds / 3600);
+        const m = Math.floor(seconds / 60) % 60;
+        const s = seconds % 60;
+        return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+    }
+
+    /**
+     * Starts tracking a run.
+     *
+     * @param results The per-nation results of the run. Nations already
+     *                processed, such as when resuming from a checkpoint, do
+     *                not count towards the time per nation.
+     * @param estimateMillis The estimated time to process each nation, used
+     *                       until enough nations have been processed.
+     */
+    public start(results: Result[], estimateMillis: number): void {
+        this._state = ProgressState.Running;
+        this._startedAt = Date.now();
+        this._estimateMillis = estimateMillis;
+        this._initialProcessed = ProgressTracker.countProcessed(results);
+        this._processed = this._initialProcessed;
+        this._paused = false;
+        this._waiting = false;
+        this._stoppedAt = null;
+        this._stoppedMillis = 0;
+        this._activeAtLastProcessed = 0;
+    }
+
+    /**
+     * Records a change in the per-nation results of the run.
+     *
+     * @param results The per-nation results of the run.
+     */
+    public update(results: Result[]): void {
+        const processed = ProgressTracker.countProcessed(results);
+        if (processed !== this._processed) {
+            this._processed = processed;
+            this._activeAtLastProcessed = this.getActiveMillis(Date.now());
+        }
+    }
+
+    /**
+     * Records whether the run is paused.
+     *
+     * @param paused Whether the run is paused.
+     */
+    public setPaused(paused: boolean): void {
+        this._paused = paused;
+        this.updateClock();
+    }
+
+    /**
+     * Records whether the run is waiting for the user to confirm a restore.
+     *
+     * @param waiting Whether the run is waiting for confirmation.
+     */
+    public setWaiting(waiting: boolean): void {
+        this._waiting = waiting;
+        this.updateClock();
+    }
+
+    /**
+     * Stops tracking the run.
+     */
+    public finish(): void {
+        this._paused = false;
+        this._waiting = false;
+        this.updateClock();
+        this._state = ProgressState.Finished;
+        this._finishedAt = Date.now();
+    }
+
+    /**
+     * Gets the progress of the run.
+     *
+     * @param results The per-nation results of the run.
+     *
+     * @return The progress of the run.
+     */
+    public getProgress(results: Result[]): RunProgress {
+        const count = (outcome: Outcome) => results.filter(
+            result => result.outcome === outcome).length;
+        const now = this._state === ProgressState.Finished
+            ? this._finishedAt : Date.now();
+        const progress: RunProgress = {
+            state: this._state,
+            total: results.length,
+            processed: ProgressTracker.countProcessed(results),
+            succeeded: count(Outcome.Success),
+            failed: count(Outcome.Failure),
+            skipped: count(Outcome.Skipped),
+            deferred: count(Outcome.Deferred),
+            unknown: count(Outcome.Unknown),
+            elapsedMillis: this._state === ProgressState.Idle
+                ? 0 : now - this._startedAt,
+            remainingMillis: null
+        };
+        if (this._state === ProgressState.Idle) {
+            return progress;
+        }
+        if (this._state === ProgressState.Running) {
+            if (this._waiting) {
+                progress.state = ProgressState.WaitingForConfirmation;
+            } else if (this._paused) {
+                progress.state = ProgressState.Paused;
+            }
+        }
+        progress.remainingMillis = this.estimateRemaining(
+            progress.total - progress.processed, now);
+        return progress;
+    }
+
+    /**
+     * Counts the nations that are no longer pending.
+     *
+     * @param results The per-nation results of a run.
+     *
+     * @return The number of nations processed.
+     */
+    private static countProcessed(results: Result[]): number {
+        return results.filter(
+            result => result.outcome !== Outcome.Pending).length;
+    }
+
+    /**
+     * Estimates the time left to process the remaining nations, from the
+     * average active time per nation processed so far weighted together
+     * with the initial estimate.
+     *
+     * @param remaining The number of nations left to process.
+     * @param now The current time in milliseconds since the epoch.
+     *
+     * @return The estimated time left in milliseconds.
+     */
+    private estimateRemaining(remaining: number, now: number): number {
+        if (remaining === 0) {
+            return 0;
+        }
+        const weight = ProgressTracker.EstimateWeight;
+        const perNation = (this._activeAtLastProcessed
+                           + this._estimateMillis * weight)
+                          / (this._processed - this._initialProcessed
+                             + weight);
+        // Time already spent on the current nation counts towards it, but
+        // never brings the estimate below that of the nations after it
+        const current = this.getActiveMillis(now)
+                        - this._activeAtLastProcessed;
+        return Math.max(perNation * (remaining - 1),
+                        perNation * remaining - current);
+    }
+
+    /**
+     * Gets the time the run has been active, excluding time spent paused or
+     * waiting for confirmation.
+     *
+     * @param now The current time in milliseconds since the epoch.
+     *
+     * @return The active time in milliseconds.
+     */
+    private getActiveMillis(now: number): number {
+        const stopped = this._stoppedAt !== null ? now - this._stoppedAt : 0;
+        return now - this._startedAt - this._stoppedMillis - stopped;
+    }
+
+    /**
+     * Stops or restarts the active clock when the run is paused, starts
+     * waiting for confirmation, or continues.
+     */
+    private updateClock(): void {
+        const stopped = this._paused || this._waiting;
+        if (stopped && this._stoppedAt === null) {
+            this._stoppedAt = Date.now();
+        } else if (!stopped && this._stoppedAt !== null) {
+            this._stoppedMillis += Date.now() - this._stoppedAt;
+            this._stoppedAt = null;
+        }
+    }
+}
@@ -0,0 +1,107 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import App from "./app";
+import I18n from "./i18n";
+import ProgressTracker, {ProgressState, RunProgress} from "./progress";
+import * as $ from "jquery";
+
+/**
+ * Contains the UI logic for the progress panel in the status tab, which
+ * shows how far through the nations the current run is, how many
+ * succeeded, failed or were skipped, and how long is left.
+ */
+export default class ProgressView {
+    /**
+     * The interval between updates, so that the elapsed time and estimate
+     * stay current between nations.
+     */
+    private static readonly UpdateIntervalMillis = 1000;
+
+    private static _app: App;
+
+    /**
+     * Initializes the progress panel.
+     *
+     * @param app The app whose progress is shown.
+     */
+    public static init(app: App): void {
+        ProgressView._app = app;
+        window.setInterval(() => ProgressView.update(),
+                           ProgressView.UpdateIntervalMillis);
+        ProgressView.update();
+    }
+
+    /**
+     * Shows the current progress of the app.
+     */
+    public static update(): void {
+        const progress = ProgressView._app.getProgress();
+        const percent = (count: number) => progress.total === 0
+            ? 0 : 100 * count / progress.total;
+        $("#progressBarSuccess").css("width",
+                                     `${percent(progress.succeeded)}%`);
+        $("#progressBarFailure").css("width",
+                                     `${percent(progress.failed)}%`);
+        $("#progressBarSkipped").css(
+            "width", `${percent(progress.skipped + progress.deferred
+                                + progress.unknown)}%`);
+
+        if (progress.state === ProgressState.Idle) {
+            $("#progressSummary").text(I18n.t("progress.idle"));
+            $("#progressCounters").text("");
+            $("#progressTime").text("");
+            return;
+        }
+        $("#progressSummary").text(I18n.t("progress.summary", {
+            processed: progress.processed,
+            total: progress.total,
+            percent: Math.floor(percent(progress.processed))
+        }));
+        $("#progressCounters").text(I18n.t("progress.counters", {
+            succeeded: progress.succeeded,
+            failed: progress.failed,
+            skipped: progress.skipped,
+            deferred: progress.deferred,
+            unknown: progress.unknown
+        }));
+        $("#progressTime").text(ProgressView.describeTime(progress));
+    }
+
+    /**
+     * Describes the elapsed time and estimated time left of a run.
+     *
+     * @param progress The progress of the run.
+     *
+     * @return The description.
+     */
+    private static describeTime(progress: RunProgress): string {
+        const params = {
+            elapsed: ProgressTracker.formatDuration(progress.elapsedMillis),
+            remaining: ProgressTracker.formatDuration(
+                progress.remainingMillis || 0)
+        };
+        switch (progress.state) {
+            case ProgressState.Paused:
+                return I18n.t("progress.timePaused", params);
+            case ProgressState.WaitingForConfirmation:
+                return I18n.t("progress.timeWaiting", params);
+            case ProgressState.Finished:
+                return I18n.t("progress.timeFinished", params);
+            default:
+                return I18n.t("progress.timeRunning", params);
+        }
+    }
+}
@@ -0,0 +1,87 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {Credential} from "./app";
+import {Backend, RestoreResponse} from "./backend";
+import RateLimiter, {RequestKind} from "./ratelimiter";
+import {NationShardData} from "./snapshot";
+
+/**
+ * Wraps a backend so that all of its requests, including restore form
+ * submissions, are paced by a shared rate limiter. The rate limit headers of
+ * successful responses are passed on to the rate limiter, if the backend
+ * provides them.
+ */
+export default class RateLimitedBackend implements Backend {
+    private readonly _backend: Backend;
+    private readonly _limiter: RateLimiter;
+
+    /**
+     * Initializes a new instance of the RateLimitedBackend class.
+     *
+     * @param backend The backend to wrap.
+     * @param limiter The rate limiter.
+     */
+    constructor(backend: Backend, limiter: RateLimiter) {
+        this._backend = backend;
+        this._limiter = limiter;
+        if (backend.setResponseListener) {
+            backend.setResponseListener(
+                metadata => limiter.recordResponse(metadata));
+        }
+    }
+
+    public nationExists(nation: string): Promise<boolean> {
+        return this._limiter.schedule(
+            RequestKind.Api, () => this._backend.nationExists(nation));
+    }
+
+    public ping(credential: Credential,
+                useAutologin: boolean): Promise<string | null>
+    {
+        return this._limiter.schedule(
+            RequestKind.Api,
+            () => this._backend.ping(credential, useAutologin));
+    }
+
+    public getLastLogin(nation: string): Promise<number> {
+        return this._limiter.schedule(
+            RequestKind.Api, () => this._backend.getLastLogin(nation));
+    }
+
+    public submitRestore(credential: Credential): Promise<RestoreResponse> {
+        return this._limiter.schedule(
+            RequestKind.Form, () => this._backend.submitRestore(credential));
+    }
+
+    public getNationShards(credential: Credential, shards: string[],
+                           authenticate: boolean)
+        : Promise<NationShardData>
+    {
+        return this._limiter.schedule(
+            RequestKind.Api,
+            () => this._backend.getNationShards(credential, shards,
+                                                authenticate));
+    }
+
+    public getRegionNations(region: string): Promise<string[]> {
+        return this._limiter.schedule(
+            RequestKind.Api, () => this._backend.getRegionNations(region));
+    }
+
+    public cleanup(): void {
+        this._backend.cleanup();
+    }
+}
@@ -0,0 +1,395 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import Retry, {ResponseMetadata} from "./retry";
+
+/**
+ * Represents the kind of request made to NationStates.
+ */
+export enum RequestKind {
+    Api,
+    /**
+     * A submission of the restore form, which is subject to a stricter rate
+     * limit than API requests.
+     */
+    Form
+}
+
+/**
+ * Represents the current state of a rate limiter.
+ */
+export interface RateLimitStatus {
+    /**
+     * The number of requests started in the last minute.
+     */
+    requestsPerMinute: number,
+    /**
+     * The number of requests that can be started before the rate limit
+     * window is full. This is the lower of the local count and the count
+     * last reported by NationStates, if any.
+     */
+    remaining: number,
+    /**
+     * Whether NationStates has reported the number of requests remaining in
+     * the current window. If not, remaining is only a local estimate, which
+     * does not know about requests made by other clients.
+     */
+    remainingReported: boolean,
+    /**
+     * The maximum number of requests in a rate limit window.
+     */
+    limit: number,
+    /**
+     * The current minimum time between requests in milliseconds, which is
+     * longer than the configured time after a rate limit error.
+     */
+    intervalMillis: number,
+    /**
+     * The configured minimum time between requests in milliseconds.
+     */
+    baseIntervalMillis: number,
+    /**
+     * The time, in milliseconds since the epoch, until which requests are
+     * paused because NationStates asked clients to wait, or 0 if they are
+     * not paused.
+     */
+    pausedUntil: number
+}
+
+/**
+ * Paces all requests to NationStates, both API requests and restore form
+ * submissions, so that together they stay within the NationStates rate
+ * limits. Requests are made one at a time in the order they were scheduled.
+ *
+ * When NationStates responds with HTTP 429, requests are paused for as long
+ * as the response asks, or for a default time if it does not say, and the
+ * time between requests is increased. It then recovers gradually with each
+ * successful request.
+ *
+ * The remaining budget in the rate limit window is counted locally, and is
+ * lowered to match the rate limit headers of responses whenever NationStates
+ * sends them.
+ */
+export default class RateLimiter {
+    /**
+     * The length of the NationStates API rate limit window.
+     */
+    public static readonly WindowMillis = 30000;
+    /**
+     * The maximum number of API requests in a rate limit window.
+     */
+    public static readonly WindowLimit = 50;
+    /**
+     * The shortest time between requests allowed by the NationStates API
+     * rules.
+     */
+    public static readonly MinIntervalMillis = 600;
+    /**
+     * The minimum time between restore form submissions.
+     */
+    public static readonly FormIntervalMillis = 6000;
+
+    /**
+     * The period over which throughput is measured.
+     */
+    private static readonly ThroughputWindowMillis = 60000;
+    /**
+     * The time to pause after HTTP 429 if the response does not say.
+     */
+    private static readonly DefaultPauseMillis = 30000;
+    /**
+     * The factor by which the time between requests grows after HTTP 429.
+     */
+    private static readonly BackoffFactor = 2;
+    /**
+     * The factor by which the time between requests shrinks after each
+     * successful request, until it is back to the configured time.
+     */
+    private static readonly RecoveryFactor = 0.9;
+    /**
+     * The longest time between requests after slowing down.
+     */
+    private static readonly MaxIntervalMillis = 60000;
+
+    private _baseIntervalMillis: number;
+    private _intervalMillis: number;
+    private _pausedUntil = 0;
+    private _lastRequestEnd = 0;
+    private _lastFormStart = 0;
+    private _starts: number[] = [];
+    /**
+     * The number of requests NationStates last reported as remaining in its
+     * rate limit window, or null if it has not reported any.
+     */
+    private _reportedRemaining: number | null = null;
+    private _reportedResetAt = 0;
+    private _startsSinceReport = 0;
+    private _tail: Promise<any> = Promise.resolve();
+    private readonly _listeners: Array<() => void> = [];
+
+    /**
+     * Initializes a new instance of the RateLimiter class.
+     *
+     * @param intervalMillis The minimum time between requests in
+     *                       milliseconds. Times shorter than
+     *                       MinIntervalMillis are raised to it.
+     */
+    constructor(intervalMillis: number) {
+        this._baseIntervalMillis = Math.max(RateLimiter.MinIntervalMillis,
+                                            intervalMillis);
+        this._intervalMillis = this._baseIntervalMillis;
+    }
+
+    /**
+     * Sets the minimum time between requests. Any slowdown after a rate
+     * limit error is kept if it is longer.
+     *
+     * @param intervalMillis The minimum time between requests in
+     *                       milliseconds. Times shorter than
+     *                       MinIntervalMillis are raised to it.
+     */
+    public setInterval(intervalMillis: number): void {
+        this._baseIntervalMillis = Math.max(RateLimiter.MinIntervalMillis,
+                                            intervalMillis);
+        this._intervalMillis = Math.max(this._intervalMillis,
+                                        this._baseIntervalMillis);
+        this.notify();
+    }
+
+    /**
+     * Adds a listener called whenever a request starts or finishes.
+     *
+     * @param listener The listener.
+     */
+    public addListener(listener: () => void): void {
+        this._listeners.push(listener);
+    }
+
+    /**
+     * Records the rate limit headers of a response from NationStates, so
+     * that the remaining budget follows what NationStates reports. Error
+     * responses are recorded by the rate limiter itself; successful ones
+     * must be passed in by the backend, since their headers are not part of
+     * the result of the request.
+     *
+     * @param metadata The response metadata.
+     */
+    public recordResponse(metadata: ResponseMetadata): void {
+        const remaining = Retry.getRemainingRequests(metadata);
+        if (remaining === null) {
+            return;
+        }
+        const now = Date.now();
+        const reset = Retry.getResetMillis(metadata);
+        this._reportedRemaining = remaining;
+        this._startsSinceReport = 0;
+        this._reportedResetAt = now + (reset !== null
+                                       ? reset : RateLimiter.WindowMillis);
+        this.notify();
+    }
+
+    /**
+     * Makes a request once the rate limits allow it.
+     *
+     * @param kind The kind of request.
+     * @param request Makes the request.
+     *
+     * @return A promise fired with the result of the request.
+     */
+    public schedule<T>(kind: RequestKind,
+                       request: () => Promise<T>): Promise<T>
+    {
+        const result = this._tail.then(async () => {
+            await this.waitForSlot(kind);
+            return this.execute(kind, request);
+        });
+        this._tail = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * Gets the earliest time a request of the specified kind could start if
+     * nothing else was scheduled before it.
+     *
+     * @param kind The kind of request.
+     *
+     * @return The time in milliseconds since the epoch.
+     */
+    public getNextAllowed(kind: RequestKind): number {
+        const now = Date.now();
+        this.expire(now);
+        let next = Math.max(this._lastRequestEnd + this._intervalMillis,
+                            this._pausedUntil);
+        const window = this.getWindowStarts(now);
+        if (window.length >= RateLimiter.WindowLimit) {
+            // Wait until enough requests have left the window
+            next = Math.max(next, window[window.length
+                                         - RateLimiter.WindowLimit]
+                                  + RateLimiter.WindowMillis);
+        }
+        const reported = this.getReportedRemaining(now);
+        if (reported !== null && reported <= 0) {
+            // NationStates may count requests the local window does not
+            // know about, such as those made by other clients
+            next = Math.max(next, this._reportedResetAt);
+        }
+        if (kind === RequestKind.Form) {
+            next = Math.max(next, this._lastFormStart
+                                  + RateLimiter.FormIntervalMillis);
+        }
+        return next;
+    }
+
+    /**
+     * Gets the current state of the rate limiter.
+     *
+     * @return The current state.
+     */
+    public getStatus(): RateLimitStatus {
+        const now = Date.now();
+        this.expire(now);
+        let remaining = RateLimiter.WindowLimit
+                        - this.getWindowStarts(now).length;
+        const reported = this.getReportedRemaining(now);
+        if (reported !== null) {
+            remaining = Math.min(remaining, reported);
+        }
+        return {
+            requestsPerMinute: this._starts.length,
+            remaining: Math.max(0, remaining),
+            remainingReported: reported !== null,
+            limit: RateLimiter.WindowLimit,
+            intervalMillis: this._intervalMillis,
+            baseIntervalMillis: this._baseIntervalMillis,
+            pausedUntil: this._pausedUntil > now ? this._pausedUntil : 0
+        };
+    }
+
+    /**
+     * Waits until the rate limits allow a request of the specified kind.
+     *
+     * @param kind The kind of request.
+     */
+    private async waitForSlot(kind: RequestKind): Promise<void> {
+        // The limits may change while waiting, for example after the
+        // interval is changed, so check again after each wait
+        while (true) {
+            const wait = this.getNextAllowed(kind) - Date.now();
+            if (wait <= 0) {
+                return;
+            }
+            await new Promise(resolve => setTimeout(resolve, wait));
+        }
+    }
+
+    /**
+     * Makes a request, recording its timing and adapting to any rate limit
+     * error.
+     *
+     * @param kind The kind of request.
+     * @param request Makes the request.
+     *
+     * @return A promise fired with the result of the request.
+     */
+    private async execute<T>(kind: RequestKind,
+                             request: () => Promise<T>): Promise<T>
+    {
+        const start = Date.now();
+        this._starts.push(start);
+        this._startsSinceReport++;
+        if (kind === RequestKind.Form) {
+            this._lastFormStart = start;
+        }
+        this.notify();
+        try {
+            const value = await request();
+            this._intervalMillis = Math.max(
+                this._baseIntervalMillis,
+                this._intervalMillis * RateLimiter.RecoveryFactor);
+            return value;
+        } catch (err) {
+            const metadata = Retry.getResponseMetadata(err);
+            if (metadata !== null) {
+                this.recordResponse(metadata);
+            }
+            if (Retry.getStatusCode(err) === 429) {
+                const pause = Retry.getRetryAfterMillis(err);
+                this._pausedUntil = Date.now()
+                    + (pause !== null ? pause
+                                      : RateLimiter.DefaultPauseMillis);
+                this._intervalMillis = Math.min(
+                    RateLimiter.MaxIntervalMillis,
+                    this._intervalMillis * RateLimiter.BackoffFactor);
+            }
+            throw err;
+        } finally {
+            this._lastRequestEnd = Date.now();
+            this.notify();
+        }
+    }
+
+    /**
+     * Gets the start times of the requests in the current rate limit window.
+     *
+     * @param now The current time in milliseconds since the epoch.
+     *
+     * @return The start times, oldest first.
+     */
+    private getWindowStarts(now: number): number[] {
+        return this._starts.filter(
+            start => start > now - RateLimiter.WindowMillis);
+    }
+
+    /**
+     * Gets the number of requests NationStates will still accept in its
+     * current rate limit window, from the count it last reported less the
+     * requests started since.
+     *
+     * @param now The current time in milliseconds since the epoch.
+     *
+     * @return The number of requests, or null if NationStates has not
+     *         reported a count for the current window.
+     */
+    private getReportedRemaining(now: number): number | null {
+        if (this._reportedRemaining === null
+            || now >= this._reportedResetAt)
+        {
+            return null;
+        }
+        return this._reportedRemaining - this._startsSinceReport;
+    }
+
+    /**
+     * Forgets requests that started before the throughput window.
+     *
+     * @param now The current time in milliseconds since the epoch.
+     */
+    private expire(now: number): void {
+        while (this._starts.length > 0
+               && this._starts[0] <= now - RateLimiter.ThroughputWindowMillis)
+        {
+            this._starts.shift();
+        }
+    }
+
+    /**
+     * Calls all listeners.
+     */
+    private notify(): void {
+        for (const listener of this._listeners) {
+            listener();
+        }
+    }
+}
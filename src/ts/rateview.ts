@@ -0,0 +1,73 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import I18n from "./i18n";
+import RateLimiter from "./ratelimiter";
+import * as $ from "jquery";
+
+/**
+ * Contains the UI logic for showing request throughput and the remaining
+ * rate limit budget in the status tab. The budget is marked as an estimate
+ * unless NationStates has reported it.
+ */
+export default class RateView {
+    /**
+     * The interval between updates, so that time-dependent values such as
+     * the throughput stay current between requests.
+     */
+    private static readonly UpdateIntervalMillis = 1000;
+
+    private static _limiter: RateLimiter;
+
+    /**
+     * Initializes the rate limit status.
+     *
+     * @param limiter The rate limiter whose state is shown.
+     */
+    public static init(limiter: RateLimiter): void {
+        RateView._limiter = limiter;
+        limiter.addListener(() => RateView.update());
+        window.setInterval(() => RateView.update(),
+                           RateView.UpdateIntervalMillis);
+        RateView.update();
+    }
+
+    /**
+     * Shows the current state of the rate limiter.
+     */
+    private static update(): void {
+        const status = RateView._limiter.getStatus();
+        const params = {
+            requests: status.requestsPerMinute,
+            remaining: status.remaining,
+            limit: status.limit,
+            window: RateLimiter.WindowMillis / 1000,
+            interval: (status.intervalMillis / 1000).toFixed(1),
+            baseInterval: (status.baseIntervalMillis / 1000).toFixed(1)
+        };
+        let text = status.intervalMillis > status.baseIntervalMillis
+            ? I18n.t("rate.statusSlowed", params)
+            : I18n.t("rate.status", params);
+        if (!status.remainingReported) {
+            text += " " + I18n.t("rate.estimated");
+        }
+        if (status.pausedUntil !== 0) {
+            const seconds = Math.ceil((status.pausedUntil - Date.now())
+                                      / 1000);
+            text += " " + I18n.t("rate.paused", {seconds});
+        }
+        $("#rateLimitStatus").text(text);
+    }
+}
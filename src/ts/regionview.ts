@@ -0,0 +1,143 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import App from "./app";
+import I18n from "./i18n";
+import Logger, {LogLevel} from "./logger";
+import CredentialParser from "./parser";
+import * as $ from "jquery";
+import * as util from "util";
+
+/**
+ * Contains the UI logic for the tool that compares the credentials list with
+ * the nations in a region.
+ */
+export default class RegionView {
+    private static _app: App;
+    private static _logger: Logger;
+    private static _missing: string[] = [];
+
+    /**
+     * Initializes the region tool.
+     *
+     * @param app The app used to request the region's nations.
+     * @param logger The logger whose level determines whether detailed error
+     *               messages are shown.
+     */
+    public static init(app: App, logger: Logger): void {
+        RegionView._app = app;
+        RegionView._logger = logger;
+        $("#regionCompareButton").on("click", () => {
+            RegionView.handleCompare().catch(err => console.error(err));
+        });
+        $("#regionMergeButton").on("click", () => RegionView.handleMerge());
+    }
+
+    /**
+     * Handler for the compare button. Fetches the region's nations and shows
+     * the differences between them and the credentials list.
+     */
+    private static async handleCompare(): Promise<void> {
+        const status = $("#regionStatus");
+        const userAgent = String($("#userAgent").val());
+        const region = String($("#region").val()).trim();
+        if (userAgent === "") {
+            status.text(I18n.t("ui.userAgentRequired"));
+            return;
+        }
+        if (region === "") {
+            status.text(I18n.t("region.required"));
+            return;
+        }
+
+        const compareButton = $("#regionCompareButton");
+        compareButton.prop("disabled", true);
+        status.text(I18n.t("region.fetching"));
+        let regionNations: string[];
+        try {
+            regionNations = await RegionView._app.getRegionNations(
+                userAgent, Number($("#rateLimit").val()), region);
+        } catch (err) {
+            status.text(I18n.t("region.fetchFailed", {region}));
+            if (RegionView._logger.isEnabled(LogLevel.Debug)) {
+                status.append($("<pre>").text(util.inspect(err)));
+            }
+            return;
+        } finally {
+            compareButton.prop("disabled", false);
+        }
+
+        const listed: {[id: string]: boolean} = {};
+        const parsed = CredentialParser.parse(
+            String($("#credentials").val()));
+        for (const credential of parsed.credentials) {
+            listed[App.toId(credential.nation)] = true;
+        }
+        const inRegion: {[id: string]: boolean} = {};
+        for (const nation of regionNations) {
+            inRegion[nation] = true;
+        }
+
+        RegionView._missing = regionNations.filter(
+            nation => !listed.hasOwnProperty(nation));
+        const absent = Object.keys(listed).filter(
+            nation => !inRegion.hasOwnProperty(nation));
+
+        status.text(I18n.t("region.summary",
+                           {count: regionNations.length, region}));
+        RegionView.showList($("#regionMissing"), RegionView._missing);
+        RegionView.showList($("#regionAbsent"), absent);
+        $("#regionMissingCount").text(RegionView._missing.length);
+        $("#regionAbsentCount").text(absent.length);
+        $("#regionResults").removeClass("hidden");
+        $("#regionMergeButton").prop("disabled",
+                                     RegionView._missing.length === 0);
+    }
+
+    /**
+     * Handler for the merge button. Adds the nations in the region that are
+     * missing from the credentials list, with empty passwords to fill in.
+     */
+    private static handleMerge(): void {
+        if (RegionView._missing.length === 0) {
+            return;
+        }
+        const credentialsInput = $("#credentials");
+        credentialsInput.val(CredentialParser.append(
+            String(credentialsInput.val()),
+            RegionView._missing.map(nation => ({nation, password: ""}))));
+        credentialsInput.trigger("change");
+
+        $("#regionStatus").text(
+            I18n.t("region.added", {count: RegionView._missing.length}));
+        RegionView._missing = [];
+        RegionView.showList($("#regionMissing"), []);
+        $("#regionMissingCount").text(0);
+        $("#regionMergeButton").prop("disabled", true);
+    }
+
+    /**
+     * Shows the specified nations in a list element.
+     *
+     * @param list The list element.
+     * @param nations The nations.
+     */
+    private static showList(list: JQuery, nations: string[]): void {
+        list.empty();
+        for (const nation of nations) {
+            $("<li>").text(nation).appendTo(list);
+        }
+    }
+}
@@ -0,0 +1,143 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import Csv from "./csv";
+
+/**
+ * Represents the action taken for a nation.
+ */
+export enum Action {
+    None,
+    Login,
+    Restore
+}
+
+/**
+ * Represents the outcome of the action taken for a nation.
+ */
+export enum Outcome {
+    Pending,
+    Success,
+    Failure,
+    Skipped,
+    /**
+     * The nation needs to be restored, but the restore was left for the user
+     * to confirm later.
+     */
+    Deferred,
+    /**
+     * The action was taken, but whether it worked could not be verified,
+     * for example because the run was cancelled while a restore was being
+     * verified.
+     */
+    Unknown
+}
+
+/**
+ * Represents the result of processing a single nation.
+ */
+export interface Result {
+    nation: string,
+    action: Action,
+    outcome: Outcome,
+    reason: string,
+    /**
+     * The number of attempts made, including retries.
+     */
+    attempts: number,
+    timestamp: number
+}
+
+/**
+ * Contains helper functions for working with per-nation results.
+ */
+export default class Results {
+    /**
+     * Creates a pending result for the specified nation.
+     *
+     * @param nation The name of the nation.
+     * @param action The action expected to be taken for the nation.
+     *
+     * @return The new result.
+     */
+    public static create(nation: string, action: Action): Result {
+        return {
+            nation,
+            action,
+            outcome: Outcome.Pending,
+            reason: "",
+            attempts: 0,
+            timestamp: Date.now()
+        };
+    }
+
+    /**
+     * Updates the specified result in place.
+     *
+     * @param result The result to update.
+     * @param action The action taken for the nation.
+     * @param outcome The outcome of the action.
+     * @param reason The reason for the outcome, if any.
+     */
+    public static update(result: Result, action: Action, outcome: Outcome,
+                         reason: string = ""): void
+    {
+        result.action = action;
+        result.outcome = outcome;
+        result.reason = reason;
+        result.timestamp = Date.now();
+    }
+
+    /**
+     * Converts the specified results to CSV, with a header row.
+     *
+     * @param results The results to convert.
+     *
+     * @return The results in CSV form.
+     */
+    public static toCsv(results: Result[]): string {
+        const rows = [["nation", "action", "outcome", "reason", "attempts",
+                       "timestamp"]];
+        for (const result of results) {
+            rows.push([result.nation,
+                       Action[result.action],
+                       Outcome[result.outcome],
+                       result.reason,
+                       String(result.attempts),
+                       new Date(result.timestamp).toISOString()]);
+        }
+        return rows.map(row => row.map(field => Csv.escape(field))
+                                  .join(","))
+                   .join("\r\n") + "\r\n";
+    }
+
+    /**
+     * Converts the specified results to JSON.
+     *
+     * @param results The results to convert.
+     *
+     * @return The results in JSON form.
+     */
+    public static toJson(results: Result[]): string {
+        return JSON.stringify(results.map(result => ({
+            nation: result.nation,
+            action: Action[result.action],
+            outcome: Outcome[result.outcome],
+            reason: result.reason,
+            attempts: result.attempts,
+            timestamp: new Date(result.timestamp).toISOString()
+        })), null, 2);
+    }
+}
@@ -0,0 +1,195 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import I18n from "./i18n";
+import Results, {Action, Outcome, Result} from "./results";
+import Ui from "./ui";
+import * as $ from "jquery";
+
+/**
+ * Represents a column of the results table.
+ */
+type Column = "nation" | "action" | "outcome" | "reason" | "attempts"
+              | "timestamp";
+
+/**
+ * Contains the UI logic for the results table in the status tab.
+ */
+export default class ResultsView {
+    private static _results: Result[] = [];
+    private static _sortColumn: Column | null = null;
+    private static _sortAscending = true;
+
+    /**
+     * Initializes the results table.
+     */
+    public static init(): void {
+        $("#resultsTable").find("th[data-column]").on("click", (e) => {
+            const column = $(e.currentTarget).data("column") as Column;
+            if (ResultsView._sortColumn === column) {
+                ResultsView._sortAscending = !ResultsView._sortAscending;
+            } else {
+                ResultsView._sortColumn = column;
+                ResultsView._sortAscending = true;
+            }
+            ResultsView.render();
+        });
+        $("#resultsFilter").on("input", () => ResultsView.render());
+        $("#resultsOutcomeFilter").on("change", () => ResultsView.render());
+        $("#exportCsvButton").on("click", () => Ui.download(
+            "results.csv", Results.toCsv(ResultsView._results), "text/csv"));
+        $("#exportJsonButton").on("click", () => Ui.download(
+            "results.json", Results.toJson(ResultsView._results),
+            "application/json"));
+    }
+
+    /**
+     * Shows the specified results in the results table.
+     *
+     * @param results The results to show.
+     */
+    public static show(results: Result[]): void {
+        ResultsView._results = results;
+        ResultsView.render();
+    }
+
+    /**
+     * Enables or disables the export buttons.
+     *
+     * @param enabled Whether the export buttons should be enabled.
+     */
+    public static toggleExport(enabled: boolean): void {
+        $("#exportCsvButton").prop("disabled", !enabled);
+        $("#exportJsonButton").prop("disabled", !enabled);
+    }
+
+    /**
+     * Gets the Bootstrap table row class for the specified outcome.
+     *
+     * @param outcome The outcome.
+     *
+     * @return The row class.
+     */
+    public static getRowClass(outcome: Outcome): string {
+        switch (outcome) {
+            case Outcome.Success:
+                return "success";
+            case Outcome.Failure:
+                return "danger";
+            case Outcome.Skipped:
+                return "warning";
+            case Outcome.Deferred:
+            case Outcome.Unknown:
+                return "info";
+            default:
+                return "";
+        }
+    }
+
+    /**
+     * Re-renders the results table using the current sort and filter
+     * settings.
+     */
+    private static render(): void {
+        const filter = String($("#resultsFilter").val()).trim().toLowerCase();
+        const outcomeFilter = String($("#resultsOutcomeFilter").val());
+
+        let results = ResultsView._results.filter(result => {
+            if (filter !== ""
+                && result.nation.toLowerCase().indexOf(filter) === -1)
+            {
+                return false;
+            }
+            return outcomeFilter === ""
+                   || result.outcome === Number(outcomeFilter);
+        });
+
+        const column = ResultsView._sortColumn;
+        if (column !== null) {
+            const direction = ResultsView._sortAscending ? 1 : -1;
+            results = results.sort((a, b) => {
+                const x = ResultsView.getSortKey(a, column);
+                const y = ResultsView.getSortKey(b, column);
+                return x < y ? -direction : x > y ? direction : 0;
+            });
+        }
+
+        const table = $("#resultsTable");
+        table.find("th[data-column]").each((_, th) => {
+            const header = $(th);
+            header.toggleClass("sorted-ascending",
+                               header.data("column") === column
+                               && ResultsView._sortAscending);
+            header.toggleClass("sorted-descending",
+                               header.data("column") === column
+                               && !ResultsView._sortAscending);
+        });
+
+        const body = table.find("tbody");
+        body.empty();
+        for (const result of results) {
+            $("<tr>")
+                .addClass(ResultsView.getRowClass(result.outcome))
+                .append($("<td>").text(result.nation))
+                .append($("<td>").text(
+                    I18n.t(`action.${Action[result.action]}`)))
+                .append($("<td>").text(
+                    I18n.t(`outcome.${Outcome[result.outcome]}`)))
+                .append($("<td>").text(result.reason))
+                .append($("<td>").text(String(result.attempts)))
+                .append($("<td>").text(
+                    new Date(result.timestamp).toLocaleString()))
+                .appendTo(body);
+        }
+
+        const count = (outcome: Outcome) => ResultsView._results.filter(
+            result => result.outcome === outcome).length;
+        $("#resultsSummary").text(I18n.t("results.summary", {
+            succeeded: count(Outcome.Success),
+            failed: count(Outcome.Failure),
+            skipped: count(Outcome.Skipped),
+            deferred: count(Outcome.Deferred),
+            unknown: count(Outcome.Unknown),
+            pending: count(Outcome.Pending)
+        }));
+    }
+
+    /**
+     * Gets the value used to sort a result by the specified column.
+     *
+     * @param result The result.
+     * @param column The column.
+     *
+     * @return The sort key.
+     */
+    private static getSortKey(result: Result,
+                              column: Column): string | number
+    {
+        switch (column) {
+            case "nation":
+                return result.nation.toLowerCase();
+            case "action":
+                return Action[result.action];
+            case "outcome":
+                return Outcome[result.outcome];
+            case "reason":
+                return result.reason.toLowerCase();
+            case "attempts":
+                return result.attempts;
+            case "timestamp":
+                return result.timestamp;
+        }
+    }
+}
@@ -0,0 +1,223 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Represents how failed logins and restores are retried.
+ */
+export interface RetryPolicy {
+    /**
+     * The maximum number of attempts for each nation, including the first.
+     */
+    maxAttempts: number,
+    /**
+     * The delay before the first retry in milliseconds.
+     */
+    initialDelayMillis: number,
+    /**
+     * The factor by which the delay grows after each retry.
+     */
+    backoffFactor: number,
+    /**
+     * The maximum delay between retries in milliseconds.
+     */
+    maxDelayMillis: number
+}
+
+/**
+ * Represents the HTTP response attached to an error returned by the
+ * NationStates API.
+ */
+export interface ResponseMetadata {
+    statusCode?: number,
+    headers?: {[name: string]: string | string[] | undefined}
+}
+
+/**
+ * Represents an error returned by the NationStates API, or an error with the
+ * same shape created by the simulator.
+ */
+export interface ResponseError extends Error {
+    responseMetadata: ResponseMetadata
+}
+
+/**
+ * Contains helper functions for retrying failed requests.
+ */
+export default class Retry {
+    /**
+     * The default retry policy.
+     */
+    public static readonly DefaultPolicy: RetryPolicy = {
+        maxAttempts: 3,
+        initialDelayMillis: 5000,
+        backoffFactor: 2,
+        maxDelayMillis: 300000
+    };
+
+    /**
+     * Returns whether the specified error is transient, meaning that the
+     * request may succeed if retried. Timeouts, network errors, HTTP 429 and
+     * HTTP 5xx responses are transient; other HTTP errors, such as 403 for a
+     * wrong password or 404 for a non-existent nation, are permanent, as are
+     * requests blocked because the run was cancelled.
+     *
+     * @param err The error.
+     *
+     * @return Whether the error is transient.
+     */
+    public static isTransient(err: {} | null | undefined): boolean {
+        const status = Retry.getStatusCode(err);
+        if (status !== null) {
+            return status === 429 || status >= 500;
+        }
+        if (err instanceof Error
+            && /^Request (blocked|cancelled)/.test(err.message))
+        {
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Gets the HTTP status code associated with an error returned by the
+     * API, if any.
+     *
+     * @param err The error.
+     *
+     * @return The HTTP status code, or null if there is none.
+     */
+    public static getStatusCode(err: {} | null | undefined): number | null {
+        const metadata = Retry.getResponseMetadata(err);
+        if (metadata !== null && typeof metadata.statusCode === "number") {
+            return metadata.statusCode;
+        }
+        return null;
+    }
+
+    /**
+     * Gets the HTTP response attached to an error returned by the API, if
+     * any.
+     *
+     * @param err The error.
+     *
+     * @return The response metadata, or null if there is none.
+     */
+    public static getResponseMetadata(err: {} | null | undefined)
+        : ResponseMetadata | null
+    {
+        // ApiError instances do not pass instanceof checks, so inspect the
+        // response metadata directly
+        if (typeof err !== "object" || err === null) {
+            return null;
+        }
+        const metadata = (err as Partial<ResponseError>).responseMetadata;
+        return typeof metadata === "object" && metadata !== null
+            ? metadata : null;
+    }
+
+    /**
+     * Gets how long NationStates asked clients to wait before making further
+     * requests, from the rate limit headers of an error response, if any.
+     *
+     * @param err The error.
+     *
+     * @return The time to wait in milliseconds, or null if the response did
+     *         not say.
+     */
+    public static getRetryAfterMillis(err: {} | null | undefined)
+        : number | null
+    {
+        const metadata = Retry.getResponseMetadata(err);
+        if (metadata === null) {
+            return null;
+        }
+        const seconds = Retry.readNumber(
+            metadata, ["retry-after", "x-retry-after", "ratelimit-reset"]);
+        return seconds !== null ? seconds * 1000 : null;
+    }
+
+    /**
+     * Gets the number of requests NationStates will still accept in the
+     * current rate limit window, from the rate limit headers of a response,
+     * successful or not.
+     *
+     * @param metadata The response metadata.
+     *
+     * @return The number of requests, or null if the response did not say.
+     */
+    public static getRemainingRequests(metadata: ResponseMetadata)
+        : number | null
+    {
+        return Retry.readNumber(
+            metadata, ["ratelimit-remaining", "x-ratelimit-remaining"]);
+    }
+
+    /**
+     * Gets how long until the current rate limit window of NationStates
+     * ends, from the rate limit headers of a response, successful or not.
+     *
+     * @param metadata The response metadata.
+     *
+     * @return The time in milliseconds, or null if the response did not
+     *         say.
+     */
+    public static getResetMillis(metadata: ResponseMetadata): number | null {
+        const seconds = Retry.readNumber(
+            metadata, ["ratelimit-reset", "x-ratelimit-reset"]);
+        return seconds !== null ? seconds * 1000 : null;
+    }
+
+    /**
+     * Gets the delay before the next attempt.
+     *
+     * @param policy The retry policy.
+     * @param attempt The number of the attempt that just failed, starting
+     *                from 1.
+     *
+     * @return The delay in milliseconds.
+     */
+    public static getDelay(policy: RetryPolicy, attempt: number): number {
+        return Math.min(
+            policy.initialDelayMillis
+            * Math.pow(policy.backoffFactor, attempt - 1),
+            policy.maxDelayMillis);
+    }
+
+    /**
+     * Reads the first of the specified headers that holds a non-negative
+     * whole number.
+     *
+     * @param metadata The response metadata.
+     * @param names The names of the headers, in lowercase.
+     *
+     * @return The number, or null if none of the headers hold one.
+     */
+    private static readNumber(metadata: ResponseMetadata,
+                               names: string[]): number | null
+    {
+        const headers = metadata.headers;
+        if (typeof headers !== "object" || headers === null) {
+            return null;
+        }
+        for (const name of names) {
+            const value = parseInt(String(headers[name]), 10);
+            if (value >= 0) {
+                return value;
+            }
+        }
+        return null;
+    }
+}
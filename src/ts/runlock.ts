@@ -0,0 +1,221 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Represents the tab holding the run lock.
+ */
+export interface LockHolder {
+    /**
+     * A random identifier for the tab.
+     */
+    tabId: string,
+    /**
+     * A description of the run in progress.
+     */
+    label: string,
+    acquiredAt: number,
+    /**
+     * The last time the holder confirmed that it is still running.
+     */
+    heartbeatAt: number
+}
+
+/**
+ * Ensures that only one browser tab runs at a time, so that runs in several
+ * tabs do not together exceed the NationStates rate limits. The lock is kept
+ * in local storage, which is shared between tabs, and other tabs are told
+ * about changes through storage events.
+ *
+ * Local storage has no atomic operations, so the lock is best effort: after
+ * taking the lock, a tab waits briefly and checks that no other tab took it
+ * at the same time. A tab that closes without releasing the lock stops
+ * renewing it, and the lock is ignored once it has not been renewed for a
+ * while.
+ */
+export default class RunLock {
+    /**
+     * The local storage key of the lock.
+     */
+    public static readonly StorageKey = "runLock";
+
+    /**
+     * The interval between renewals of a held lock.
+     */
+    private static readonly HeartbeatIntervalMillis = 5000;
+    /**
+     * The time after which a lock that has not been renewed is ignored.
+     * Browsers may run timers in background tabs only once a minute, so
+     * this is several times longer.
+     */
+    private static readonly StaleMillis = 180000;
+    /**
+     * The time to wait after taking the lock before checking that no other
+     * tab took it at the same time.
+     */
+    private static readonly SettleMillis = 100;
+
+    private readonly _tabId: string;
+    private _timer: number | null = null;
+    private readonly _listeners: Array<() => void> = [];
+
+    /**
+     * Initializes a new instance of the RunLock class.
+     */
+    constructor() {
+        this._tabId = Date.now().toString(36) + "-"
+                      + Math.random().toString(36).slice(2);
+        window.addEventListener("storage", (e) => {
+            if (e.key === RunLock.StorageKey) {
+                this.notify();
+            }
+        });
+    }
+
+    /**
+     * Adds a listener called whenever the lock is taken or released, in this
+     * tab or another one.
+     *
+     * @param listener The listener.
+     */
+    public addListener(listener: () => void): void {
+        this._listeners.push(listener);
+    }
+
+    /**
+     * Takes the lock if no other tab holds it. If local storage is
+     * unavailable, tabs cannot be coordinated and the lock is always taken.
+     *
+     * @param label A description of the run, shown to other tabs.
+     *
+     * @return A promise fired with whether the lock was taken.
+     */
+    public async acquire(label: string): Promise<boolean> {
+        try {
+            if (this.getOtherHolder() !== null) {
+                return false;
+            }
+            const now = Date.now();
+            this.write({tabId: this._tabId, label, acquiredAt: now,
+                        heartbeatAt: now});
+            await new Promise(
+                resolve => setTimeout(resolve, RunLock.SettleMillis));
+            if (!this.isHeld()) {
+                return false;
+            }
+        } catch {
+            // No local storage
+            return true;
+        }
+
+        this._timer = window.setInterval(() => this.renew(),
+                                         RunLock.HeartbeatIntervalMillis);
+        this.notify();
+        return true;
+    }
+
+    /**
+     * Releases the lock, if this tab holds it.
+     */
+    public release(): void {
+        if (this._timer !== null) {
+            clearInterval(this._timer);
+            this._timer = null;
+        }
+        try {
+            if (this.isHeld()) {
+                localStorage.removeItem(RunLock.StorageKey);
+            }
+        } catch {
+            // No local storage
+        }
+        this.notify();
+    }
+
+    /**
+     * Gets the tab holding the lock, if it is not this tab.
+     *
+     * @return The holder, or null if the lock is free or held by this tab.
+     */
+    public getOtherHolder(): LockHolder | null {
+        const holder = this.read();
+        return holder !== null && holder.tabId !== this._tabId ? holder : null;
+    }
+
+    /**
+     * Returns whether this tab holds the lock.
+     *
+     * @return Whether this tab holds the lock.
+     */
+    private isHeld(): boolean {
+        const holder = this.read();
+        return holder !== null && holder.tabId === this._tabId;
+    }
+
+    /**
+     * Updates the renewal time of the lock, if this tab still holds it.
+     */
+    private renew(): void {
+        try {
+            const holder = this.read();
+            if (holder !== null && holder.tabId === this._tabId) {
+                holder.heartbeatAt = Date.now();
+                this.write(holder);
+            }
+        } catch {
+            // No local storage
+        }
+    }
+
+    /**
+     * Reads the lock from local storage.
+     *
+     * @return The holder of the lock, or null if the lock is free or has
+     *         not been renewed recently.
+     */
+    private read(): LockHolder | null {
+        const raw = localStorage.getItem(RunLock.StorageKey);
+        if (raw === null) {
+            return null;
+        }
+        try {
+            const holder: LockHolder = JSON.parse(raw);
+            if (Date.now() - holder.heartbeatAt < RunLock.StaleMillis) {
+                return holder;
+            }
+        } catch (_) {
+            // Invalid lock; treat it as free
+        }
+        return null;
+    }
+
+    /**
+     * Writes the lock to local storage.
+     *
+     * @param holder The holder of the lock.
+     */
+    private write(holder: LockHolder): void {
+        localStorage.setItem(RunLock.StorageKey, JSON.stringify(holder));
+    }
+
+    /**
+     * Calls all listeners.
+     */
+    private notify(): void {
+        for (const listener of this._listeners) {
+            listener();
+        }
+    }
+}
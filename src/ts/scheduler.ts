@@ -0,0 +1,131 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Runs a task repeatedly at a fixed interval while the page is open.
+ *
+ * The time of the next run is saved in local storage, so a schedule that is
+ * restarted after the page is reloaded keeps its place. Runs that fall due
+ * while the page is closed happen as soon as the schedule is restarted.
+ */
+export default class Scheduler {
+    private static readonly StorageKey = "scheduleNextRun";
+    private static readonly CheckIntervalMillis = 30000;
+
+    private readonly _task: () => Promise<void>;
+    private _intervalMillis = 0;
+    private _nextRun: number | null = null;
+    private _timer: number | null = null;
+    private _running = false;
+
+    /**
+     * Initializes a new instance of the Scheduler class.
+     *
+     * @param task The task to run.
+     */
+    constructor(task: () => Promise<void>) {
+        this._task = task;
+    }
+
+    /**
+     * Starts the schedule. If a next run time was saved, it is kept as long
+     * as it is no later than one interval from now.
+     *
+     * @param intervalMillis The interval between runs in milliseconds.
+     */
+    public start(intervalMillis: number): void {
+        this.stopTimer();
+        this._intervalMillis = intervalMillis;
+
+        let nextRun = Date.now() + intervalMillis;
+        try {
+            const saved = Number(localStorage.getItem(Scheduler.StorageKey));
+            if (saved > 0 && saved < nextRun) {
+                nextRun = saved;
+            }
+        } catch {
+            // No local storage
+        }
+        this.setNextRun(nextRun);
+
+        this._timer = window.setInterval(() => this.check(),
+                                         Scheduler.CheckIntervalMillis);
+    }
+
+    /**
+     * Stops the schedule and forgets the next run time.
+     */
+    public stop(): void {
+        this.stopTimer();
+        this._nextRun = null;
+        try {
+            localStorage.removeItem(Scheduler.StorageKey);
+        } catch {
+            // No local storage
+        }
+    }
+
+    /**
+     * Gets the time of the next run.
+     *
+     * @return The time of the next run in milliseconds since the epoch, or
+     *         null if the schedule is stopped.
+     */
+    public getNextRun(): number | null {
+        return this._nextRun;
+    }
+
+    /**
+     * Runs the task if it is due.
+     */
+    private check(): void {
+        if (this._nextRun === null || this._running
+            || Date.now() < this._nextRun)
+        {
+            return;
+        }
+        this.setNextRun(Date.now() + this._intervalMillis);
+        this._running = true;
+        this._task().catch(err => console.error(err)).then(() => {
+            this._running = false;
+        });
+    }
+
+    /**
+     * Sets and saves the time of the next run.
+     *
+     * @param nextRun The time of the next run in milliseconds since the
+     *                epoch.
+     */
+    private setNextRun(nextRun: number): void {
+        this._nextRun = nextRun;
+        try {
+            localStorage.setItem(Scheduler.StorageKey, String(nextRun));
+        } catch {
+            // No local storage
+        }
+    }
+
+    /**
+     * Stops the timer used to check whether the task is due.
+     */
+    private stopTimer(): void {
+        if (this._timer !== null) {
+            clearInterval(this._timer);
+            this._timer = null;
+        }
+    }
+}
@@ -0,0 +1,217 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import App from "./app";
+import I18n from "./i18n";
+import Profiles from "./profiles";
+import Scheduler from "./scheduler";
+import * as $ from "jquery";
+
+/**
+ * Contains the UI logic for scheduled runs, desktop notifications and the
+ * queue of nations that need to be restored.
+ */
+export default class ScheduleView {
+    /**
+     * The profile item containing the names of the nations in the restore
+     * queue. Passwords are not saved with them, so that they are not stored
+     * in plaintext when the vault is enabled.
+     */
+    public static readonly StorageKey = "restoreQueue";
+
+    private static _scheduler: Scheduler;
+    private static _queue: string[] = [];
+
+    /**
+     * Initializes the schedule controls.
+     *
+     * @param task Starts a scheduled run.
+     */
+    public static init(task: () => Promise<void>): void {
+        ScheduleView._scheduler = new Scheduler(async () => {
+            ScheduleView.showNextRun();
+            await task();
+        });
+
+        $("#scheduleEnabled").on("change", () => {
+            if ($("#scheduleEnabled").is(":checked")) {
+                ScheduleView.requestPermission();
+            }
+            ScheduleView._scheduler.stop();
+            ScheduleView.update();
+        });
+        $("#scheduleInterval").on("change", () => {
+            ScheduleView._scheduler.stop();
+            ScheduleView.update();
+        });
+        $("#restoreQueueDismissButton").on("click", () => {
+            ScheduleView.takeQueue();
+        });
+        ScheduleView.load();
+    }
+
+    /**
+     * Starts or stops the schedule to match the schedule controls.
+     */
+    public static update(): void {
+        const interval = Number($("#scheduleInterval").val());
+        if ($("#scheduleEnabled").is(":checked") && interval >= 1) {
+            ScheduleView._scheduler.start(interval * 86400 * 1000);
+        } else {
+            ScheduleView._scheduler.stop();
+        }
+        ScheduleView.showNextRun();
+    }
+
+    /**
+     * Loads the queue of nations that need to be restored from the active
+     * profile.
+     */
+    public static load(): void {
+        ScheduleView._queue = [];
+        try {
+            const raw = Profiles.getItem(ScheduleView.StorageKey);
+            const nations: {} | null = raw !== null ? JSON.parse(raw) : [];
+            if (Array.isArray(nations)) {
+                const items: Array<{} | null> = nations;
+                ScheduleView._queue = items.filter(
+                    (nation): nation is string => typeof nation === "string");
+            }
+        } catch {
+            // No local storage, or the saved queue cannot be read
+        }
+        ScheduleView.showQueue();
+    }
+
+    /**
+     * Adds the specified nations to the queue of nations that need to be
+     * restored, ignoring any already in it.
+     *
+     * @param nations The names of the nations.
+     */
+    public static queue(nations: string[]): void {
+        const queued: {[id: string]: boolean} = {};
+        for (const nation of ScheduleView._queue) {
+            queued[App.toId(nation)] = true;
+        }
+        for (const nation of nations) {
+            const id = App.toId(nation);
+            if (!queued.hasOwnProperty(id)) {
+                queued[id] = true;
+                ScheduleView._queue.push(nation);
+            }
+        }
+        ScheduleView.save();
+        ScheduleView.showQueue();
+    }
+
+    /**
+     * Removes and returns all nations in the queue of nations that need to
+     * be restored.
+     *
+     * @return The names of the nations.
+     */
+    public static takeQueue(): string[] {
+        const queue = ScheduleView._queue;
+        ScheduleView._queue = [];
+        ScheduleView.save();
+        ScheduleView.showQueue();
+        return queue;
+    }
+
+    /**
+     * Shows a desktop notification, if the user has allowed them.
+     *
+     * @param title The title of the notification.
+     * @param body The body of the notification.
+     */
+    public static notify(title: string, body: string): void {
+        if (typeof Notification !== "undefined"
+            && ScheduleView.getPermission() === "granted")
+        {
+            new Notification(title, {body});
+        }
+    }
+
+    /**
+     * Asks the user for permission to show desktop notifications, if they
+     * have not already been asked.
+     */
+    private static requestPermission(): void {
+        if (typeof Notification !== "undefined"
+            && ScheduleView.getPermission() === "default")
+        {
+            Notification.requestPermission().catch(
+                err => console.error(err));
+        }
+    }
+
+    /**
+     * Gets whether the user has allowed desktop notifications.
+     *
+     * @return The notification permission.
+     */
+    private static getPermission(): NotificationPermission {
+        // The DOM typings of this TypeScript version leave out the
+        // permission property of the Notification constructor, and it
+        // cannot be narrowed in with an "in" check
+        const notification: typeof Notification
+                            & {readonly permission?: NotificationPermission}
+            = Notification;
+        return notification.permission || "default";
+    }
+
+    /**
+     * Shows the time of the next scheduled run.
+     */
+    private static showNextRun(): void {
+        const nextRun = ScheduleView._scheduler.getNextRun();
+        $("#scheduleNextRun").text(
+            nextRun !== null
+                ? I18n.t("schedule.nextRun",
+                         {time: new Date(nextRun).toLocaleString()})
+                : "");
+    }
+
+    /**
+     * Saves the queue of nations that need to be restored in the active
+     * profile.
+     */
+    private static save(): void {
+        try {
+            if (ScheduleView._queue.length > 0) {
+                Profiles.setItem(ScheduleView.StorageKey,
+                                 JSON.stringify(ScheduleView._queue));
+            } else {
+                Profiles.removeItem(ScheduleView.StorageKey);
+            }
+        } catch {
+            // No local storage
+        }
+    }
+
+    /**
+     * Shows the queue of nations that need to be restored.
+     */
+    private static showQueue(): void {
+        const list = $("#restoreQueueList");
+        list.empty();
+        for (const nation of ScheduleView._queue) {
+            $("<li>").text(nation).appendTo(list);
+        }
+        $("#restoreQueueAlert").toggleClass("hidden",
+                                            ScheduleView._queue.length === 0);
+    }
+}
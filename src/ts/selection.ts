@@ -0,0 +1,204 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import App, {Credential} from "./app";
+import {Outcome, Result} from "./results";
+
+/**
+ * Represents which nations to select based on their outcome in the
+ * previous run.
+ */
+export enum OutcomeFilter {
+    Any,
+    Failed,
+    /**
+     * Nations that needed to be restored but were not, because the restore
+     * was deferred or skipped by the user.
+     */
+    NeedsRestore,
+    /**
+     * Nations that failed, needed to be restored or whose restore could not
+     * be verified.
+     */
+    FailedOrNeedsRestore,
+    /**
+     * Nations whose restore was submitted but could not be verified.
+     */
+    Unknown
+}
+
+/**
+ * Represents the criteria for selecting the nations to process in a run.
+ * A nation is selected only if it matches every criterion.
+ */
+export interface SelectionCriteria {
+    /**
+     * The tag that selected nations must have, or an empty string for any
+     * tag or none.
+     */
+    tag: string,
+    /**
+     * A pattern that the names of selected nations must match, or an empty
+     * string for any name. See Selection.matchesPattern.
+     */
+    pattern: string,
+    outcome: OutcomeFilter
+}
+
+/**
+ * Selects a subset of the credentials list for a run, without changing the
+ * list itself.
+ */
+export default class Selection {
+    /**
+     * Criteria that select every nation.
+     */
+    public static readonly Everything: SelectionCriteria = {
+        tag: "",
+        pattern: "",
+        outcome: OutcomeFilter.Any
+    };
+
+    /**
+     * Gets the tags used in the specified credentials, ignoring case.
+     *
+     * @param credentials The credentials.
+     *
+     * @return The tags, sorted, in the form in which each first appears.
+     */
+    public static getTags(credentials: Credential[]): string[] {
+        const tags: {[id: string]: string} = {};
+        for (const credential of credentials) {
+            for (const tag of credential.tags || []) {
+                const id = tag.toLowerCase();
+                if (!tags.hasOwnProperty(id)) {
+                    tags[id] = tag;
+                }
+            }
+        }
+        return Object.keys(tags).sort().map(id => tags[id]);
+    }
+
+    /**
+     * Returns whether the specified criteria select every nation.
+     *
+     * @param criteria The criteria.
+     *
+     * @return Whether the criteria select every nation.
+     */
+    public static isEverything(criteria: SelectionCriteria): boolean {
+        return criteria.tag === "" && criteria.pattern.trim() === ""
+               && criteria.outcome === OutcomeFilter.Any;
+    }
+
+    /**
+     * Selects the credentials that match the specified criteria.
+     *
+     * @param credentials The credentials to select from.
+     * @param criteria The criteria.
+     * @param previous The per-nation results of the previous run, used when
+     *                 selecting by outcome. Nations that were not part of
+     *                 the previous run are not selected by outcome.
+     *
+     * @return The selected credentials, in their original order.
+     */
+    public static apply(credentials: Credential[], criteria: SelectionCriteria,
+                        previous: Result[]): Credential[]
+    {
+        const outcomes: {[id: string]: Outcome} = {};
+        for (const result of previous) {
+            outcomes[App.toId(result.nation)] = result.outcome;
+        }
+        const tag = criteria.tag.toLowerCase();
+        return credentials.filter((credential) => {
+            if (tag !== "" && !(credential.tags || []).some(
+                    credentialTag => credentialTag.toLowerCase() === tag))
+            {
+                return false;
+            }
+            if (!Selection.matchesPattern(credential.nation,
+                                          criteria.pattern))
+            {
+                return false;
+            }
+            if (criteria.outcome === OutcomeFilter.Any) {
+                return true;
+            }
+            const id = App.toId(credential.nation);
+            return outcomes.hasOwnProperty(id)
+                   && Selection.matchesOutcome(outcomes[id], criteria.outcome);
+        });
+    }
+
+    /**
+     * Returns whether a nation name matches a pattern. Patterns are
+     * compared ignoring case and the difference between spaces and
+     * underscores. A pattern containing "*" (any characters) or "?" (any
+     * single character) must match the whole name; any other pattern
+     * matches names that contain it. Several patterns can be separated by
+     * commas, in which case the name must match at least one.
+     *
+     * @param nation The nation name.
+     * @param pattern The pattern.
+     *
+     * @return Whether the name matches the pattern.
+     */
+    public static matchesPattern(nation: string, pattern: string): boolean {
+        const patterns = pattern.split(",").map(App.toId).filter(
+            id => id !== "");
+        if (patterns.length === 0) {
+            return true;
+        }
+        const id = App.toId(nation);
+        return patterns.some((part) => {
+            if (!/[*?]/.test(part)) {
+                return id.indexOf(part) !== -1;
+            }
+            const regex = part.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+                              .replace(/\*/g, ".*")
+                              .replace(/\?/g, ".");
+            return new RegExp(`^${regex}$`).test(id);
+        });
+    }
+
+    /**
+     * Returns whether an outcome from the previous run matches an outcome
+     * filter.
+     *
+     * @param outcome The outcome.
+     * @param filter The outcome filter.
+     *
+     * @return Whether the outcome matches the filter.
+     */
+    private static matchesOutcome(outcome: Outcome,
+                                  filter: OutcomeFilter): boolean
+    {
+        const failed = outcome === Outcome.Failure;
+        const needsRestore = outcome === Outcome.Deferred;
+        const unknown = outcome === Outcome.Unknown;
+        switch (filter) {
+            case OutcomeFilter.Failed:
+                return failed;
+            case OutcomeFilter.NeedsRestore:
+                return needsRestore;
+            case OutcomeFilter.FailedOrNeedsRestore:
+                return failed || needsRestore || unknown;
+            case OutcomeFilter.Unknown:
+                return unknown;
+            default:
+                return true;
+        }
+    }
+}
@@ -0,0 +1,154 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import App, {Credential} from "./app";
+import Checkpoints from "./checkpoint";
+import History from "./history";
+import I18n from "./i18n";
+import CredentialParser from "./parser";
+import {Result} from "./results";
+import Selection, {OutcomeFilter, SelectionCriteria} from "./selection";
+import * as $ from "jquery";
+
+/**
+ * Contains the UI logic for selecting which nations in the credentials list
+ * to process, by tag, name pattern or outcome in the previous run.
+ */
+export default class SelectionView {
+    private static _app: App;
+    /**
+     * The results of the most recent run recorded in the run history or in
+     * a checkpoint, used until a run takes place in this tab.
+     */
+    private static _saved: Result[] = [];
+
+    /**
+     * Initializes the selection controls.
+     *
+     * @param app The app whose previous run is used to select nations by
+     *            outcome.
+     */
+    public static init(app: App): void {
+        SelectionView._app = app;
+        $("#credentials").on("input change", () => SelectionView.update());
+        $("#selectionTag, #selectionOutcome").on(
+            "change", () => SelectionView.update());
+        $("#selectionPattern").on("input", () => SelectionView.update());
+        $("#selectionClearButton").on("click", () => {
+            $("#selectionTag").val("");
+            $("#selectionPattern").val("");
+            $("#selectionOutcome").val(String(OutcomeFilter.Any));
+            SelectionView.update();
+        });
+        SelectionView.update();
+        SelectionView.loadSaved().catch(err => console.error(err));
+    }
+
+    /**
+     * Gets the selection criteria entered by the user.
+     *
+     * @return The selection criteria.
+     */
+    public static getCriteria(): SelectionCriteria {
+        return {
+            tag: String($("#selectionTag").val() || ""),
+            pattern: String($("#selectionPattern").val()),
+            outcome: Number($("#selectionOutcome").val())
+        };
+    }
+
+    /**
+     * Selects the credentials to process in a run.
+     *
+     * @param credentials The full credentials list.
+     *
+     * @return The selected credentials, in their original order.
+     */
+    public static select(credentials: Credential[]): Credential[] {
+        return Selection.apply(credentials, SelectionView.getCriteria(),
+                               SelectionView.getPrevious());
+    }
+
+    /**
+     * Updates the tags that can be selected and the number of nations
+     * selected.
+     */
+    public static update(): void {
+        const credentials = CredentialParser.parse(
+            String($("#credentials").val())).credentials;
+
+        const tagSelect = $("#selectionTag");
+        const tag = String(tagSelect.val() || "");
+        tagSelect.empty();
+        $("<option>").val("").text(I18n.t("selection.allTags"))
+                     .appendTo(tagSelect);
+        for (const option of Selection.getTags(credentials)) {
+            $("<option>").val(option).text(option).appendTo(tagSelect);
+        }
+        // A tag that is no longer used stays selected, so that editing the
+        // credentials does not silently widen the selection
+        if (tag !== "" && tagSelect.find("option").filter(
+                (_, element) => $(element).val() === tag).length === 0)
+        {
+            $("<option>").val(tag).text(tag).appendTo(tagSelect);
+        }
+        tagSelect.val(tag);
+
+        const criteria = SelectionView.getCriteria();
+        const previous = SelectionView.getPrevious();
+        const selected = Selection.apply(credentials, criteria, previous);
+        let text = Selection.isEverything(criteria)
+            ? I18n.t("selection.summaryAll", {total: credentials.length})
+            : I18n.t("selection.summary", {
+                count: selected.length,
+                total: credentials.length
+            });
+        if (criteria.outcome !== OutcomeFilter.Any && previous.length === 0) {
+            text += " " + I18n.t("selection.noPreviousRun");
+        }
+        $("#selectionSummary").text(text);
+    }
+
+    /**
+     * Gets the results of the previous run: the run in this tab, if there
+     * has been one, or else the most recent saved run.
+     *
+     * @return The per-nation results of the previous run.
+     */
+    private static getPrevious(): Result[] {
+        const results = SelectionView._app.getResults();
+        return results.length > 0 ? results : SelectionView._saved;
+    }
+
+    /**
+     * Loads the results of the most recent run saved in the run history or
+     * in the checkpoint of an interrupted run, whichever started last.
+     */
+    private static async loadSaved(): Promise<void> {
+        let startedAt = -Infinity;
+        const checkpoint = Checkpoints.load();
+        if (checkpoint !== null) {
+            SelectionView._saved = checkpoint.results;
+            startedAt = checkpoint.startedAt;
+        }
+        if (History.isSupported()) {
+            const runs = await History.getRuns();
+            if (runs.length > 0 && runs[0].startedAt > startedAt) {
+                SelectionView._saved = runs[0].results;
+            }
+        }
+        SelectionView.update();
+    }
+}
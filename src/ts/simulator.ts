@@ -0,0 +1,301 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import App, {Credential} from "./app";
+import {Backend, RestoreResponse} from "./backend";
+import Csv from "./csv";
+import I18n from "./i18n";
+import {ResponseError} from "./retry";
+import {NationShardData} from "./snapshot";
+
+/**
+ * Represents a nation known to the simulator.
+ */
+export interface SimulatedNation {
+    nation: string,
+    password: string,
+    /**
+     * The number of days since the nation was last logged into, or null if
+     * the nation has ceased to exist.
+     */
+    lastLoginDaysAgo: number | null
+}
+
+/**
+ * Represents the configuration of the simulator.
+ */
+export interface SimulatorConfig {
+    nations: SimulatedNation[],
+    /**
+     * The time taken by each simulated request in milliseconds.
+     */
+    latencyMillis: number,
+    /**
+     * The probability, from 0 to 1, that a simulated request fails with a
+     * transient server error.
+     */
+    failureRate: number
+}
+
+/**
+ * Represents the state of a nation in the simulator.
+ */
+interface NationState {
+    password: string,
+    /**
+     * The time of the last login in seconds since the epoch, or null if the
+     * nation does not exist.
+     */
+    lastLogin: number | null
+}
+
+/**
+ * Simulates the parts of NationStates used by nslogin-web, so that runs can
+ * be rehearsed without touching real nations. Nations unknown to the
+ * simulator do not exist and cannot be restored.
+ */
+export default class SimulatorBackend implements Backend {
+    private readonly _config: SimulatorConfig;
+    private readonly _nations: {[id: string]: NationState} = {};
+
+    /**
+     * Initializes a new instance of the SimulatorBackend class.
+     *
+     * @param config The configuration of the simulator.
+     */
+    constructor(config: SimulatorConfig) {
+        this._config = config;
+        const now = Date.now() / 1000;
+        for (const nation of config.nations) {
+            this._nations[App.toId(nation.nation)] = {
+                password: nation.password,
+                lastLogin: nation.lastLoginDaysAgo === null
+                    ? null : now - nation.lastLoginDaysAgo * 86400
+            };
+        }
+    }
+
+    /**
+     * Parses simulated nations from CSV text with one nation on each line,
+     * in the form "nation,password,days since last login". Nations that have
+     * ceased to exist are marked with "dead" in place of the number of days.
+     *
+     * @param text The text to parse.
+     *
+     * @return The simulated nations.
+     */
+    public static parseNations(text: string): SimulatedNation[] {
+        const parsed = Csv.parse(text, ",");
+        if (parsed.unterminatedLine !== null) {
+            throw new Error(I18n.t("simulator.unterminated",
+                                   {line: parsed.unterminatedLine}));
+        }
+        return parsed.records.map((record) => {
+            if (record.fields.length !== 3) {
+                throw new Error(I18n.t("simulator.expectedFields",
+                                       {line: record.line}));
+            }
+            const [nation, password, days] = record.fields;
+            if (days.trim().toLowerCase() === "dead") {
+                return {nation, password, lastLoginDaysAgo: null};
+            }
+            const lastLoginDaysAgo = Number(days);
+            if (days.trim() === "" || !(lastLoginDaysAgo >= 0)) {
+                throw new Error(I18n.t("simulator.daysInvalid",
+                                       {line: record.line}));
+            }
+            return {nation, password, lastLoginDaysAgo};
+        });
+    }
+
+    public async nationExists(nation: string): Promise<boolean> {
+        await this.simulateRequest();
+        return this.getState(nation) !== null;
+    }
+
+    public async ping(credential: Credential,
+                      useAutologin: boolean): Promise<string | null>
+    {
+        await this.simulateRequest();
+        const state = this.getState(credential.nation);
+        if (state === null) {
+            throw SimulatorBackend.createError(404, "Not Found");
+        }
+        if (!SimulatorBackend.authenticate(state, credential, useAutologin)) {
+            throw SimulatorBackend.createError(403, "Forbidden");
+        }
+        state.lastLogin = Date.now() / 1000;
+        return SimulatorBackend.getAutologin(credential.nation, state);
+    }
+
+    public async getLastLogin(nation: string): Promise<number> {
+        await this.simulateRequest();
+        const state = this.getState(nation);
+        if (state === null || state.lastLogin === null) {
+            throw SimulatorBackend.createError(404, "Not Found");
+        }
+        return Math.floor(state.lastLogin);
+    }
+
+    public async submitRestore(credential: Credential)
+        : Promise<RestoreResponse>
+    {
+        await this.simulateRequest();
+        const id = App.toId(credential.nation);
+        if (!this._nations.hasOwnProperty(id)
+            || this._nations[id].password !== credential.password)
+        {
+            return RestoreResponse.Rejected;
+        }
+        // Submitting the form for a nation that exists logs into it
+        this._nations[id].lastLogin = Date.now() / 1000;
+        return RestoreResponse.Accepted;
+    }
+
+    public async getNationShards(credential: Credential, shards: string[],
+                                 authenticate: boolean)
+        : Promise<NationShardData>
+    {
+        await this.simulateRequest();
+        const state = this.getState(credential.nation);
+        if (state === null) {
+            throw SimulatorBackend.createError(404, "Not Found");
+        }
+        if (authenticate && !SimulatorBackend.authenticate(
+                state, credential, credential.autologin !== undefined))
+        {
+            throw SimulatorBackend.createError(403, "Forbidden");
+        }
+        // Simulated nations all live in the same region, are not members
+        // of the World Assembly and have nothing unread
+        const data: NationShardData = {};
+        for (const shard of shards) {
+            switch (shard) {
+                case "region":
+                    data.region = "Simulated Region";
+                    break;
+                case "wa":
+                    data.unstatus = "Non-member";
+                    break;
+                case "endorsements":
+                    data.endorsements = "";
+                    break;
+                case "influence":
+                    data.influence = "Zero";
+                    break;
+                case "unread":
+                    data.unread = {issues: "0", telegrams: "0",
+                                   notices: "0"};
+                    break;
+            }
+        }
+        return data;
+    }
+
+    public async getRegionNations(_: string): Promise<string[]> {
+        await this.simulateRequest();
+        return Object.keys(this._nations).filter(
+            id => this._nations[id].lastLogin !== null);
+    }
+
+    public cleanup(): void {
+        // Nothing to release
+    }
+
+    /**
+     * Creates an error with the same shape as the errors returned by the
+     * NationStates API.
+     *
+     * @param statusCode The HTTP status code.
+     * @param message The error message.
+     *
+     * @return The error.
+     */
+    private static createError(statusCode: number, message: string)
+        : ResponseError
+    {
+        const err = new Error(
+            `Simulated ${statusCode} ${message}`) as ResponseError;
+        err.responseMetadata = {statusCode};
+        return err;
+    }
+
+    /**
+     * Checks the password or autologin token of a simulated nation.
+     *
+     * @param state The state of the nation.
+     * @param credential The name, password and autologin token given for
+     *                   the nation.
+     * @param useAutologin Whether to check the autologin token instead of
+     *                     the password.
+     *
+     * @return Whether the password or autologin token is correct.
+     */
+    private static authenticate(state: NationState, credential: Credential,
+                                useAutologin: boolean): boolean
+    {
+        return useAutologin
+            ? credential.autologin === SimulatorBackend.getAutologin(
+                  credential.nation, state)
+            : credential.password === state.password;
+    }
+
+    /**
+     * Gets the autologin token of a simulated nation, which is derived from
+     * its name and password so that it stays the same between runs.
+     *
+     * @param nation The name of the nation.
+     * @param state The state of the nation.
+     *
+     * @return The autologin token.
+     */
+    private static getAutologin(nation: string, state: NationState): string {
+        const text = App.toId(nation) + "\n" + state.password;
+        let hash = 5381;
+        for (let i = 0; i < text.length; i++) {
+            hash = (hash * 33 + text.charCodeAt(i)) % 0x7fffffff;
+        }
+        return `simulated-${hash.toString(16)}`;
+    }
+
+    /**
+     * Gets the state of an existing nation.
+     *
+     * @param nation The name of the nation.
+     *
+     * @return The state of the nation, or null if it does not exist.
+     */
+    private getState(nation: string): NationState | null {
+        const id = App.toId(nation);
+        if (this._nations.hasOwnProperty(id)
+            && this._nations[id].lastLogin !== null)
+        {
+            return this._nations[id];
+        }
+        return null;
+    }
+
+    /**
+     * Waits for the configured latency, then fails with a transient server
+     * error at the configured rate.
+     */
+    private async simulateRequest(): Promise<void> {
+        await new Promise(
+            resolve => setTimeout(resolve, this._config.latencyMillis));
+        if (Math.random() < this._config.failureRate) {
+            throw SimulatorBackend.createError(503, "Service Unavailable");
+        }
+    }
+}
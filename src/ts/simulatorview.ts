@@ -0,0 +1,83 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import App from "./app";
+import Csv from "./csv";
+import I18n from "./i18n";
+import CredentialParser from "./parser";
+import SimulatorBackend, {SimulatorConfig} from "./simulator";
+import * as $ from "jquery";
+
+/**
+ * Contains the UI logic for the offline simulator settings.
+ */
+export default class SimulatorView {
+    /**
+     * Initializes the simulator settings.
+     */
+    public static init(): void {
+        $("#simulatorFillButton").on("click",
+                                     () => SimulatorView.handleFill());
+    }
+
+    /**
+     * Returns whether runs should use the simulator instead of NationStates.
+     *
+     * @return Whether the simulator is enabled.
+     */
+    public static isEnabled(): boolean {
+        return $("#simulatorEnabled").is(":checked");
+    }
+
+    /**
+     * Gets the simulator configuration from the simulator settings.
+     *
+     * @return The simulator configuration. An error is thrown if the
+     *         settings are invalid.
+     */
+    public static getConfig(): SimulatorConfig {
+        const latencyMillis = Number($("#simulatorLatency").val());
+        const failurePercent = Number($("#simulatorFailureRate").val());
+        if (!(latencyMillis >= 0)) {
+            throw new Error(I18n.t("simulator.latencyInvalid"));
+        }
+        if (!(failurePercent >= 0 && failurePercent <= 100)) {
+            throw new Error(I18n.t("simulator.failureRateInvalid"));
+        }
+        return {
+            nations: SimulatorBackend.parseNations(
+                String($("#simulatorNations").val())),
+            latencyMillis,
+            failureRate: failurePercent / 100
+        };
+    }
+
+    /**
+     * Handler for the fill button. Replaces the simulated nations with the
+     * nations in the credentials text box, each last logged into a random
+     * number of days ago. Some are marked as having ceased to exist.
+     */
+    private static handleFill(): void {
+        const parsed = CredentialParser.parse(
+            String($("#credentials").val()));
+        $("#simulatorNations").val(parsed.credentials.map((credential) => {
+            const days = Math.floor(
+                Math.random() * (App.InactivityDays + 7));
+            return Csv.escape(credential.nation) + ","
+                   + Csv.escape(credential.password) + ","
+                   + (days >= App.InactivityDays ? "dead" : String(days));
+        }).join("\n"));
+    }
+}
@@ -0,0 +1,274 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import Csv from "./csv";
+
+/**
+ * Represents the counts returned by the "unread" shard of the nation API.
+ */
+export interface UnreadData {
+    issues?: {} | null,
+    telegrams?: {} | null,
+    notices?: {} | null
+}
+
+/**
+ * Represents the data returned by the nation API for the snapshot shards.
+ * The response is not validated, so any of the fields may be missing.
+ */
+export interface NationShardData {
+    region?: {} | null,
+    unstatus?: {} | null,
+    endorsements?: {} | null,
+    influence?: {} | null,
+    unread?: UnreadData | null
+}
+
+/**
+ * Represents a column of the snapshot table. The label of the column is the
+ * message "snapshot.column.<key>".
+ */
+export interface SnapshotColumn {
+    key: string,
+    /**
+     * Reads the value of the column from the data returned by the nation
+     * API.
+     */
+    read: (data: NationShardData) => string
+}
+
+/**
+ * Represents a nation shard that can be included in snapshots. The label of
+ * the shard is the message "snapshot.shard.<shard>".
+ */
+export interface SnapshotShard {
+    /**
+     * The name of the shard in the nation API.
+     */
+    shard: string,
+    /**
+     * Whether the shard is only available to the logged-in nation.
+     */
+    private: boolean,
+    columns: SnapshotColumn[]
+}
+
+/**
+ * Represents the state of a nation recorded after logging into it.
+ */
+export interface Snapshot {
+    nation: string,
+    /**
+     * The values of the snapshot columns, keyed by column key.
+     */
+    values: {[key: string]: string},
+    /**
+     * The reason the snapshot could not be taken, or an empty string.
+     */
+    error: string,
+    timestamp: number
+}
+
+/**
+ * Contains helper functions for working with nation snapshots.
+ */
+export default class Snapshots {
+    /**
+     * The shards that can be included in snapshots.
+     */
+    public static readonly Shards: SnapshotShard[] = [
+        {
+            shard: "region",
+            private: false,
+            columns: [{key: "region",
+                       read: data => Snapshots.text(data.region)}]
+        },
+        {
+            shard: "wa",
+            private: false,
+            columns: [{key: "wa",
+                       read: data => Snapshots.text(data.unstatus)}]
+        },
+        {
+            shard: "endorsements",
+            private: false,
+            columns: [{
+                key: "endorsements",
+                read: (data) => {
+                    const text = Snapshots.text(data.endorsements);
+                    return String(text === "" ? 0
+                                              : text.split(",").length);
+                }
+            }]
+        },
+        {
+            shard: "influence",
+            private: false,
+            columns: [{key: "influence",
+                       read: data => Snapshots.text(data.influence)}]
+        },
+        {
+            shard: "unread",
+            private: true,
+            columns: (["issues", "telegrams", "notices"] as
+                      Array<keyof UnreadData>).map(key => ({
+                key,
+                read: (data: NationShardData) => Snapshots.text(
+                    data.unread ? data.unread[key] : undefined)
+            }))
+        }
+    ];
+
+    /**
+     * Gets the shards with the specified names, in the order of Shards.
+     * Unknown names are ignored.
+     *
+     * @param names The names of the shards.
+     *
+     * @return The shards.
+     */
+    public static getShards(names: string[]): SnapshotShard[] {
+        return Snapshots.Shards.filter(
+            shard => names.indexOf(shard.shard) !== -1);
+    }
+
+    /**
+     * Gets the columns of the snapshot table for the specified shards.
+     *
+     * @param names The names of the shards.
+     *
+     * @return The columns.
+     */
+    public static getColumns(names: string[]): SnapshotColumn[] {
+        const columns: SnapshotColumn[] = [];
+        for (const shard of Snapshots.getShards(names)) {
+            columns.push(...shard.columns);
+        }
+        return columns;
+    }
+
+    /**
+     * Gets the columns of the snapshot table that have values in any of the
+     * specified snapshots.
+     *
+     * @param snapshots The snapshots.
+     *
+     * @return The columns.
+     */
+    public static getRecordedColumns(snapshots: Snapshot[]): SnapshotColumn[]
+    {
+        const columns: SnapshotColumn[] = [];
+        for (const shard of Snapshots.Shards) {
+            columns.push(...shard.columns.filter(column => snapshots.some(
+                snapshot => snapshot.values.hasOwnProperty(column.key))));
+        }
+        return columns;
+    }
+
+    /**
+     * Creates a snapshot of a nation from the data returned by the nation
+     * API.
+     *
+     * @param nation The name of the nation.
+     * @param names The names of the requested shards.
+     * @param data The data returned by the nation API.
+     *
+     * @return The snapshot.
+     */
+    public static create(nation: string, names: string[],
+                         data: NationShardData): Snapshot
+    {
+        const values: {[key: string]: string} = {};
+        for (const column of Snapshots.getColumns(names)) {
+            values[column.key] = column.read(data);
+        }
+        return {nation, values, error: "", timestamp: Date.now()};
+    }
+
+    /**
+     * Creates a snapshot recording that a nation could not be checked.
+     *
+     * @param nation The name of the nation.
+     * @param error The reason the snapshot could not be taken.
+     *
+     * @return The snapshot.
+     */
+    public static createFailed(nation: string, error: string): Snapshot {
+        return {nation, values: {}, error, timestamp: Date.now()};
+    }
+
+    /**
+     * Converts the specified snapshots to CSV, with a header row.
+     *
+     * @param snapshots The snapshots to convert.
+     *
+     * @return The snapshots in CSV form.
+     */
+    public static toCsv(snapshots: Snapshot[]): string {
+        const columns = Snapshots.getRecordedColumns(snapshots);
+        const rows = [["nation", ...columns.map(column => column.key),
+                       "error", "timestamp"]];
+        for (const snapshot of snapshots) {
+            rows.push([snapshot.nation,
+                       ...columns.map(column => Snapshots.getValue(
+                           snapshot, column.key)),
+                       snapshot.error,
+                       new Date(snapshot.timestamp).toISOString()]);
+        }
+        return rows.map(row => row.map(field => Csv.escape(field))
+                                  .join(","))
+                   .join("\r\n") + "\r\n";
+    }
+
+    /**
+     * Converts the specified snapshots to JSON.
+     *
+     * @param snapshots The snapshots to convert.
+     *
+     * @return The snapshots in JSON form.
+     */
+    public static toJson(snapshots: Snapshot[]): string {
+        return JSON.stringify(snapshots.map(snapshot => ({
+            nation: snapshot.nation,
+            values: snapshot.values,
+            error: snapshot.error,
+            timestamp: new Date(snapshot.timestamp).toISOString()
+        })), null, 2);
+    }
+
+    /**
+     * Gets the value of a column in a snapshot.
+     *
+     * @param snapshot The snapshot.
+     * @param key The key of the column.
+     *
+     * @return The value, or an empty string if the snapshot has none.
+     */
+    public static getValue(snapshot: Snapshot, key: string): string {
+        return snapshot.values.hasOwnProperty(key) ? snapshot.values[key]
+                                                   : "";
+    }
+
+    /**
+     * Converts a value returned by the nation API to text.
+     *
+     * @param value The value.
+     *
+     * @return The value as text, or an empty string if it is missing.
+     */
+    private static text(value: {} | null | undefined): string {
+        return value === undefined || value === null ? "" : String(value);
+    }
+}
@@ -0,0 +1,122 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import I18n from "./i18n";
+import Snapshots, {Snapshot} from "./snapshot";
+import Ui from "./ui";
+import * as $ from "jquery";
+
+/**
+ * Contains the UI logic for choosing the shards included in nation
+ * snapshots and for the snapshot table in the status tab.
+ */
+export default class SnapshotView {
+    private static _snapshots: Snapshot[] = [];
+
+    /**
+     * Initializes the snapshot controls and table.
+     */
+    public static init(): void {
+        const container = $("#snapshotShards");
+        for (const shard of Snapshots.Shards) {
+            // The labels are translated again when the language is changed
+            const key = `snapshot.shard.${shard.shard}`;
+            $("<div>")
+                .addClass("checkbox")
+                .append($("<label>")
+                            .append($("<input>")
+                                        .attr("type", "checkbox")
+                                        .addClass("snapshot-shard")
+                                        .val(shard.shard))
+                            .append(" ")
+                            .append($("<span>")
+                                        .attr("data-i18n", key)
+                                        .text(I18n.t(key))))
+                .appendTo(container);
+        }
+
+        $("#exportSnapshotCsvButton").on("click", () => Ui.download(
+            "snapshot.csv", Snapshots.toCsv(SnapshotView._snapshots),
+            "text/csv"));
+        $("#exportSnapshotJsonButton").on("click", () => Ui.download(
+            "snapshot.json", Snapshots.toJson(SnapshotView._snapshots),
+            "application/json"));
+        SnapshotView.show([]);
+    }
+
+    /**
+     * Gets the names of the shards selected for snapshots.
+     *
+     * @return The names of the selected shards.
+     */
+    public static getShards(): string[] {
+        return $(".snapshot-shard:checked").toArray().map(
+            element => (element as HTMLInputElement).value);
+    }
+
+    /**
+     * Selects the specified shards for snapshots.
+     *
+     * @param names The names of the shards.
+     */
+    public static setShards(names: string[]): void {
+        $(".snapshot-shard").each((_, element) => {
+            const input = element as HTMLInputElement;
+            input.checked = names.indexOf(input.value) !== -1;
+        });
+    }
+
+    /**
+     * Re-renders the snapshot table, for example after the language is
+     * changed.
+     */
+    public static update(): void {
+        SnapshotView.show(SnapshotView._snapshots);
+    }
+
+    /**
+     * Shows the specified snapshots in the snapshot table. The table is
+     * hidden if there are none.
+     *
+     * @param snapshots The snapshots to show.
+     */
+    public static show(snapshots: Snapshot[]): void {
+        SnapshotView._snapshots = snapshots;
+        $("#snapshotPanel").toggleClass("hidden", snapshots.length === 0);
+
+        const columns = Snapshots.getRecordedColumns(snapshots);
+        const table = $("#snapshotTable");
+        const header = $("<tr>").append($("<th>").text(I18n.t("page.nation")));
+        for (const column of columns) {
+            header.append($("<th>").text(
+                I18n.t(`snapshot.column.${column.key}`)));
+        }
+        header.append($("<th>").text(I18n.t("snapshot.error")));
+        table.find("thead").empty().append(header);
+
+        const body = table.find("tbody");
+        body.empty();
+        for (const snapshot of snapshots) {
+            const row = $("<tr>")
+                .toggleClass("danger", snapshot.error !== "")
+                .append($("<td>").text(snapshot.nation));
+            for (const column of columns) {
+                row.append($("<td>").text(
+                    Snapshots.getValue(snapshot, column.key)));
+            }
+            row.append($("<td>").text(snapshot.error)).appendTo(body);
+        }
+    }
+}
@@ -0,0 +1,147 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import AutologinTokens from "./autologin";
+import I18n from "./i18n";
+import Profiles from "./profiles";
+import RunLock, {LockHolder} from "./runlock";
+import ScheduleView from "./scheduleview";
+import Vault from "./vault";
+import * as $ from "jquery";
+
+/**
+ * Contains the UI logic for coordinating with other tabs: showing which tab
+ * holds the run lock and warning when the configuration is saved in another
+ * tab.
+ */
+export default class TabView {
+    /**
+     * The interval between checks for a lock left behind by a tab that
+     * closed without releasing it.
+     */
+    private static readonly UpdateIntervalMillis = 10000;
+    /**
+     * The settings saved automatically by a tab, for example while it runs,
+     * rather than when its configuration is saved. Changes to them alone are
+     * not conflicts.
+     */
+    private static readonly AutomaticSettings = [
+        AutologinTokens.StorageKey, ScheduleView.StorageKey, Vault.StorageKey
+    ];
+
+    private static _lock: RunLock;
+    private static _configConflict = false;
+
+    /**
+     * Initializes the tab coordination alerts.
+     *
+     * @param lock The run lock.
+     * @param load Loads the configuration from the active profile.
+     */
+    public static init(lock: RunLock, load: () => void): void {
+        TabView._lock = lock;
+        lock.addListener(() => TabView.update());
+        window.setInterval(() => TabView.update(),
+                           TabView.UpdateIntervalMillis);
+
+        // Storage events are only delivered to tabs other than the one that
+        // changed local storage
+        window.addEventListener("storage", (e) => {
+            if (e.key === Profiles.StorageKey
+                && TabView.isConfigChange(e.oldValue || null,
+                                          e.newValue || null))
+            {
+                TabView._configConflict = true;
+                $("#configConflictAlert").removeClass("hidden");
+            }
+        });
+        $("#configConflictLoadButton").on("click", () => load());
+        TabView.update();
+    }
+
+    /**
+     * Gets the tab holding the run lock, if it is not this tab.
+     *
+     * @return The holder, or null if the lock is free or held by this tab.
+     */
+    public static getOtherHolder(): LockHolder | null {
+        try {
+            return TabView._lock.getOtherHolder();
+        } catch {
+            // No local storage
+            return null;
+        }
+    }
+
+    /**
+     * Returns whether the configuration was saved in another tab since it
+     * was last loaded or saved in this tab.
+     *
+     * @return Whether the configuration was saved in another tab.
+     */
+    public static hasConfigConflict(): boolean {
+        return TabView._configConflict;
+    }
+
+    /**
+     * Asks whether to overwrite the configuration saved in another tab, if
+     * there is a conflict.
+     *
+     * @return Whether the configuration should be saved.
+     */
+    public static confirmSave(): boolean {
+        return !TabView._configConflict
+               || window.confirm(I18n.t("tab.saveConfirm"));
+    }
+
+    /**
+     * Forgets any conflict after the configuration is loaded or saved in
+     * this tab.
+     */
+    public static clearConfigConflict(): void {
+        TabView._configConflict = false;
+        $("#configConflictAlert").addClass("hidden");
+    }
+
+    /**
+     * Shows whether another tab holds the run lock.
+     */
+    public static update(): void {
+        const holder = TabView.getOtherHolder();
+        if (holder !== null) {
+            const since = new Date(holder.acquiredAt).toLocaleTimeString();
+            $("#runLockMessage").text(
+                I18n.t("tab.runLock", {label: holder.label, since}));
+        }
+        $("#runLockAlert").toggleClass("hidden", holder === null);
+    }
+
+    /**
+     * Returns whether a change to the saved profiles made in another tab
+     * changed the configuration of the active profile.
+     *
+     * @param oldValue The previously saved profiles, if any.
+     * @param newValue The newly saved profiles, if any.
+     *
+     * @return Whether the configuration changed.
+     */
+    private static isConfigChange(oldValue: string | null,
+                                  newValue: string | null): boolean
+    {
+        const changed = Profiles.getChangedSettings(oldValue, newValue);
+        return changed === null || changed.some(
+            key => TabView.AutomaticSettings.indexOf(key) === -1);
+    }
+}
@@ -13,20 +13,80 @@
  * See the License for the specific language governing permissions and
  * limitations under the License.
  */
-import App, {Credential, Mode} from "./app";
+import App, {Credential, Mode, RunParameters} from "./app";
+import AuditView from "./auditview";
+import AutologinTokens from "./autologin";
+import AutologinView from "./autologinview";
+import {Backend} from "./backend";
+import Checkpoints, {Checkpoint} from "./checkpoint";
+import ConfirmationView from "./confirmationview";
+import EditorView from "./editorview";
+import HistoryView from "./historyview";
+import I18n from "./i18n";
+import IframeRestoreSubmitter from "./iframesubmitter";
+import Logger, {LogLevel} from "./logger";
+import LogView from "./logview";
+import NsApiBackend from "./nsapibackend";
+import CredentialParser, {Diagnostic, Severity} from "./parser";
+import Preflight, {PreflightReport} from "./preflight";
+import ProfileView from "./profileview";
+import Profiles from "./profiles";
+import ProgressView from "./progressview";
+import RateView from "./rateview";
+import RegionView from "./regionview";
+import {Outcome} from "./results";
+import ResultsView from "./resultsview";
+import Retry from "./retry";
+import RunLock from "./runlock";
+import ScheduleView from "./scheduleview";
+import SelectionView from "./selectionview";
+import SimulatorBackend from "./simulator";
+import SimulatorView from "./simulatorview";
+import SnapshotView from "./snapshotview";
+import TabView from "./tabview";
+import VaultView from "./vaultview";
 import * as $ from "jquery";
 
 /**
  * Contains the application's UI logic.
  */
 export default class Ui {
+    private readonly _logger: Logger;
     private readonly _app: App;
+    private readonly _runLock = new RunLock();
 
     /**
      * Initializes a new instance of the Ui class.
      */
     constructor() {
-        this._app = new App();
+        this._logger = new Logger();
+        this._app = new App(
+            this._logger,
+            {
+                confirm: (credential, notBefore) => ConfirmationView.confirm(
+                    credential, notBefore)
+            },
+            userAgent => this.createBackend(userAgent),
+            {
+                onProgress: results => {
+                    ResultsView.show(results);
+                    ConfirmationView.show(this._app.getPendingRestores());
+                    ProgressView.update();
+                },
+                onSnapshot: snapshots => SnapshotView.show(snapshots),
+                onAutologin: (nation, autologin) => AutologinView.store(
+                    nation, autologin),
+                onFinish: (results, cancelled) => {
+                    HistoryView.record({
+                        parameters: this._app.getParameters(),
+                        results,
+                        startedAt: this._app.getStartedAt(),
+                        finishedAt: Date.now(),
+                        cancelled
+                    });
+                    Ui.handleFinish();
+                }
+            });
     }
 
     /**
@@ -50,15 +110,51 @@ export default class Ui {
             // No local storage
         }
 
+        // Initialize language selector
+        const languageSelect = $("#language");
+        for (const language of I18n.getLanguages()) {
+            $("<option>").val(language.code).text(language.name)
+                         .appendTo(languageSelect);
+        }
+        languageSelect.val(I18n.getLanguage());
+        languageSelect.on("change", () => Ui.applyLanguage());
+
         // Initialize tabs
         $("#navbar").find("a").click((e) => {
             e.preventDefault();
             $(e.currentTarget).tab("show");
         });
 
+        // Initialize log, rate limit status, progress, restore
+        // confirmation, results and snapshot tables, run history, profiles,
+        // vault controls, credential editor, nation selection, autologin
+        // tokens, region tool, password audit, schedule and coordination with
+        // other tabs
+        LogView.init(this._logger);
+        RateView.init(this._app.getRateLimiter());
+        ProgressView.init(this._app);
+        ConfirmationView.init();
+        ResultsView.init();
+        SnapshotView.init();
+        HistoryView.init();
+        ProfileView.init(() => Ui.handleLoad(), () => Ui.handleSave());
+        VaultView.init();
+        EditorView.init();
+        SelectionView.init(this._app);
+        AutologinView.init();
+        RegionView.init(this._app, this._logger);
+        AuditView.init();
+        SimulatorView.init();
+        ScheduleView.init(() => this.handleScheduledRun());
+        TabView.init(this._runLock, () => Ui.handleLoad());
+
         // Add handlers
         $("#loadButton").on("click", () => Ui.handleLoad());
-        $("#saveButton").on("click", () => Ui.handleSave());
+        $("#saveButton").on("click", () => {
+            if (TabView.confirmSave()) {
+                Ui.handleSave();
+            }
+        });
         $("#startButton").on("click", () => {
             this.handleStart().catch((err) => {
                 console.error(err);
@@ -66,49 +162,80 @@ export default class Ui {
         });
         $("#pauseButton").on("click", () => this.handlePause());
         $("#cancelButton").on("click", () => this.handleCancel());
-        $("#clearButton").on("click", () => Ui.handleClear());
-        $(window).on("unload", () => Ui.handleClose());
+        $("#resumeButton").on("click", () => {
+            this.handleResume().catch((err) => {
+                console.error(err);
+            });
+        });
+        $("#discardButton").on("click", () => Ui.handleDiscard());
+        $("#restoreQueueButton").on("click", () => {
+            this.handleRestoreQueue().catch((err) => {
+                console.error(err);
+            });
+        });
+        $(window).on("unload", () => this.handleClose());
+
+        // Add credential import handlers
+        const credentialsFileInput = $("#credentialsFile");
+        $("#importButton").on("click", () => credentialsFileInput.click());
+        credentialsFileInput.on("change", () => {
+            const files = (credentialsFileInput[0] as HTMLInputElement).files;
+            if (files !== null && files.length > 0) {
+                Ui.handleImport(files[0]);
+            }
+            credentialsFileInput.val("");
+        });
+        $("#credentials, #editorGrid").on("dragover", (e) => {
+            e.preventDefault();
+        }).on("drop", (e) => {
+            const transfer = (e.originalEvent as DragEvent).dataTransfer;
+            if (transfer.files.length > 0) {
+                e.preventDefault();
+                Ui.handleImport(transfer.files[0]);
+            }
+        });
 
         // Load configuration
         if (autoLoadSave) {
             Ui.handleLoad();
         }
+
+        // Offer to resume an interrupted run
+        Ui.offerResume();
     }
 
     /**
-     * Logs a message to the log text area.
+     * Offers the specified content to the user as a file download.
      *
-     * @param type The type of log message (e.g. info, error, etc.)
-     * @param message The log message.
+     * @param filename The name of the file.
+     * @param content The content of the file.
+     * @param type The MIME type of the file.
      */
-    public static log(type: string, message: string) {
-        const logElement = $("#log");
-        const text = logElement.html();
-
-        message = type + ": " + message;
-        if (text !== "") {
-            message = "<br>" + message;
-        }
-        logElement.html(text + message);
-
-        if ($("#scrollToBottom").is(":checked")) {
-            logElement.scrollTop(
-                Number(logElement.prop("scrollHeight")));
-        }
+    public static download(filename: string, content: string,
+                           type: string): void
+    {
+        const url = URL.createObjectURL(new Blob([content], {type}));
+        const link = $("<a>").attr({href: url, download: filename})
+                             .appendTo("body");
+        (link[0] as HTMLAnchorElement).click();
+        link.remove();
+        URL.revokeObjectURL(url);
     }
 
     /**
-     * Enables the confirm button and waits for a response.
+     * Creates the backend for a run: the offline simulator if it is enabled,
+     * or NationStates otherwise.
+     *
+     * @param userAgent The user agent specified by the user.
+     *
+     * @return The backend.
      */
-    public static confirm(): Promise<string> {
-        return new Promise((resolve) => {
-            const confirmButton = $("#confirmButton");
-            confirmButton.prop("disabled", false);
-            confirmButton.on("click", () => {
-                confirmButton.prop("disabled", true);
-                resolve();
-            })
-        });
+    private createBackend(userAgent: string): Backend {
+        if (SimulatorView.isEnabled()) {
+            this._logger.warn(I18n.t("ui.usingSimulator"));
+            return new SimulatorBackend(SimulatorView.getConfig());
+        }
+        return new NsApiBackend(userAgent, new IframeRestoreSubmitter());
     }
 
     /**
@@ -121,8 +248,16 @@ export default class Ui {
         const config = $("#configuration");
         config.find("input").prop("disabled", running);
         config.find("textarea").prop("disabled", running);
+        config.find("select").prop("disabled", running);
         config.find("button").prop("disabled", running);
 
+        if (!running) {
+            VaultView.update();
+            EditorView.update();
+            AutologinView.update();
+        }
+
+        $("#restoreQueueButton").prop("disabled", running);
         $("#pauseButton").prop("disabled", !running);
         $("#cancelButton").prop("disabled", !running);
     }
@@ -135,8 +270,8 @@ export default class Ui {
      * @param cssClass The CSS class of the alert.
      * @param containerId The ID of the container of the alert.
      */
-    private static showAlert(id: string, message: string, cssClass: string,
-                             containerId: string): void {
+    private static showAlert(id: string, message: string | JQuery,
+                             cssClass: string, containerId: string): void {
         if ($("#" + id).length === 0) {
             $("<div>")
                 .attr("id", id)
@@ -180,15 +315,23 @@ export default class Ui {
      */
     private static handleLoad(): void {
         try {
-            const userAgent = localStorage.getItem("userAgent");
+            const userAgent = Profiles.getItem("userAgent");
             if (userAgent !== null) {
                 $("#userAgent").val(userAgent);
             }
-            const rateLimit = localStorage.getItem("rateLimit");
+            const rateLimit = Profiles.getItem("rateLimit");
             if (rateLimit !== null) {
                 $("#rateLimit").val(Number(rateLimit));
             }
-            const mode = localStorage.getItem("mode");
+            const maxAttempts = Profiles.getItem("maxAttempts");
+            if (maxAttempts !== null) {
+                $("#maxAttempts").val(Number(maxAttempts));
+            }
+            const retryDelay = Profiles.getItem("retryDelay");
+            if (retryDelay !== null) {
+                $("#retryDelay").val(Number(retryDelay));
+            }
+            const mode = Profiles.getItem("mode");
             switch (mode) {
                 case "0":
                     $("#modeLogin").prop("checked", true);
@@ -199,20 +342,95 @@ export default class Ui {
                 case "2":
                     $("#modeAuto").prop("checked", true);
                     break;
+                case "3":
+                    $("#modeSmart").prop("checked", true);
+                    break;
+            }
+            const smartThreshold = Profiles.getItem("smartThreshold");
+            if (smartThreshold !== null) {
+                $("#smartThreshold").val(Number(smartThreshold));
+            }
+            if (VaultView.isEnabled()) {
+                AutologinTokens.clear();
+                VaultView.load().catch(err => console.error(err));
+            } else {
+                AutologinTokens.load();
+                const credentials = Profiles.getItem("credentials");
+                if (credentials !== null) {
+                    $("#credentials").val(credentials);
+                }
+                $("#credentials").trigger("input");
+            }
+            const region = Profiles.getItem("region");
+            if (region !== null) {
+                $("#region").val(region);
+            }
+            const snapshotShards = Profiles.getItem("snapshotShards");
+            if (snapshotShards !== null) {
+                SnapshotView.setShards(snapshotShards.split(","));
             }
-            const credentials = localStorage.getItem("credentials");
-            if (credentials !== null) {
-                $("#credentials").val(credentials);
+            const language = Profiles.getItem("language");
+            if (language !== null) {
+                $("#language").val(language);
             }
-            const verbose = localStorage.getItem("verbose");
-            if (verbose != null) {
-                $("#verbose").prop(
-                    "checked",
-                    verbose === "true");
+            const logLevel = Profiles.getItem("logLevel");
+            if (logLevel !== null) {
+                $("#logLevel").val(logLevel);
+            } else if (Profiles.getItem("verbose") === "true") {
+                // Verbose mode was replaced by the debug log level
+                $("#logLevel").val(String(LogLevel.Debug));
+            }
+            const simulatorEnabled = Profiles.getItem("simulatorEnabled");
+            if (simulatorEnabled !== null) {
+                $("#simulatorEnabled").prop("checked",
+                                            simulatorEnabled === "true");
+            }
+            const simulatorNations = Profiles.getItem("simulatorNations");
+            if (simulatorNations !== null) {
+                $("#simulatorNations").val(simulatorNations);
+            }
+            const simulatorLatency = Profiles.getItem("simulatorLatency");
+            if (simulatorLatency !== null) {
+                $("#simulatorLatency").val(Number(simulatorLatency));
+            }
+            const simulatorFailureRate = Profiles.getItem(
+                "simulatorFailureRate");
+            if (simulatorFailureRate !== null) {
+                $("#simulatorFailureRate").val(Number(simulatorFailureRate));
+            }
+            const scheduleEnabled = Profiles.getItem("scheduleEnabled");
+            if (scheduleEnabled !== null) {
+                $("#scheduleEnabled").prop("checked",
+                                           scheduleEnabled === "true");
+            }
+            const scheduleInterval = Profiles.getItem("scheduleInterval");
+            if (scheduleInterval !== null) {
+                $("#scheduleInterval").val(Number(scheduleInterval));
             }
         } catch {
             // No local storage
         }
+        ScheduleView.load();
+        LogView.update();
+        Ui.applyLanguage();
+        TabView.clearConfigConflict();
+    }
+
+    /**
+     * Switches the page and all further messages to the selected language.
+     */
+    private static applyLanguage(): void {
+        I18n.setLanguage(String($("#language").val()));
+        $("#language").val(I18n.getLanguage());
+        I18n.translatePage();
+        VaultView.update();
+        ScheduleView.update();
+        TabView.update();
+        SelectionView.update();
+        SnapshotView.update();
+        HistoryView.render();
+        EditorView.update();
+        AutologinView.update();
     }
 
     /**
@@ -220,28 +438,257 @@ export default class Ui {
      */
     private static handleSave(): void {
         try {
-            localStorage.setItem("userAgent",
-                                 String($("#userAgent").val()));
-            localStorage.setItem("rateLimit",
-                                 String($("#rateLimit").val()));
-            localStorage.setItem("mode",
-                                 String(Ui.getMode()));
-            localStorage.setItem("credentials",
+            Profiles.setItem("userAgent",
+                             String($("#userAgent").val()));
+            Profiles.setItem("rateLimit",
+                             String($("#rateLimit").val()));
+            Profiles.setItem("maxAttempts",
+                             String($("#maxAttempts").val()));
+            Profiles.setItem("retryDelay",
+                             String($("#retryDelay").val()));
+            Profiles.setItem("mode",
+                             String(Ui.getMode()));
+            Profiles.setItem("smartThreshold",
+                             String($("#smartThreshold").val()));
+            if (VaultView.isEnabled()) {
+                VaultView.save();
+            } else {
+                Profiles.setItem("credentials",
                                  String($("#credentials").val()));
-            localStorage.setItem("verbose",
-                                 String($("#verbose").is(":checked")));
+                AutologinTokens.save();
+            }
+            Profiles.setItem("region",
+                             String($("#region").val()));
+            Profiles.setItem("snapshotShards",
+                             SnapshotView.getShards().join(","));
+            Profiles.setItem("language",
+                             String($("#language").val()));
+            Profiles.setItem("logLevel",
+                             String($("#logLevel").val()));
+            Profiles.setItem("simulatorEnabled",
+                             String($("#simulatorEnabled").is(":checked")));
+            Profiles.setItem("simulatorNations",
+                             String($("#simulatorNations").val()));
+            Profiles.setItem("simulatorLatency",
+                             String($("#simulatorLatency").val()));
+            Profiles.setItem("simulatorFailureRate",
+                             String($("#simulatorFailureRate").val()));
+            Profiles.setItem("scheduleEnabled",
+                             String($("#scheduleEnabled").is(":checked")));
+            Profiles.setItem("scheduleInterval",
+                             String($("#scheduleInterval").val()));
+            TabView.clearConfigConflict();
         } catch {
             // No local storage
         }
     }
 
     /**
-     * Handler for the start button.
+     * Handler for the start button. Only the nations matching the selection
+     * are processed.
      */
     private async handleStart(): Promise<void> {
+        const run = Ui.validateRun();
+        if (run === null) {
+            return;
+        }
+
+        Ui.hideValidationAlert("selectionValidationAlert",
+                               "selectionFormGroup");
+        const credentials = SelectionView.select(run.credentials);
+        if (credentials.length === 0) {
+            Ui.showValidationAlert("selectionValidationAlert",
+                                   I18n.t("ui.selectionEmpty"),
+                                   "selectionFormGroup");
+            return;
+        }
+
+        const report = Preflight.check(credentials);
+        if (!await Ui.reviewPreflight(credentials.length, report)) {
+            return;
+        }
+
+        await this.startRun(run.parameters, report.credentials);
+    }
+
+    /**
+     * Starts a run using the saved configuration without asking for
+     * confirmation. Nations that need to be restored are added to the restore
+     * queue instead of being restored.
+     */
+    private async handleScheduledRun(): Promise<void> {
+        if (this._app.isRunning()) {
+            this._logger.warn(I18n.t("ui.scheduledRunBusy"));
+            return;
+        }
+        let run: {parameters: RunParameters, credentials: Credential[]};
+        try {
+            run = await Ui.loadSavedRun();
+        } catch (err) {
+            this._logger.error(I18n.t("ui.scheduledRunInvalid",
+                                      {reason: err.message}));
+            ScheduleView.notify(I18n.t("ui.scheduledRunFailedTitle"),
+                                err.message);
+            return;
+        }
+
+        const report = Preflight.check(run.credentials);
+        if (report.credentials.length === 0) {
+            return;
+        }
+        run.parameters.deferRestores = true;
+        this._logger.info(I18n.t("ui.scheduledRunStarting"));
+        if (!await this.startRun(run.parameters, report.credentials)) {
+            this._logger.warn(I18n.t("ui.scheduledRunOtherTab"));
+            return;
+        }
+
+        const results = this._app.getResults();
+        const deferred: {[id: string]: boolean} = {};
+        for (const result of results) {
+            if (result.outcome === Outcome.Deferred) {
+                deferred[App.toId(result.nation)] = true;
+            }
+        }
+        const queue = report.credentials.filter(
+            credential => deferred.hasOwnProperty(App.toId(credential.nation)));
+        ScheduleView.queue(queue.map(credential => credential.nation));
+
+        const count = (outcome: Outcome) => results.filter(
+            result => result.outcome === outcome).length;
+        let message = I18n.t("ui.scheduledRunSummary", {
+            succeeded: count(Outcome.Success),
+            failed: count(Outcome.Failure),
+            skipped: count(Outcome.Skipped)
+        });
+        if (queue.length > 0) {
+            message += " " + I18n.t("ui.scheduledRunQueue", {
+                count: queue.length,
+                nations: queue.map(credential => credential.nation)
+                              .join(", ")
+            });
+            this._logger.warn(message);
+        }
+        ScheduleView.notify(I18n.t("ui.scheduledRunFinishedTitle"),
+                            message);
+    }
+
+    /**
+     * Handler for the restore now button. Restores the nations in the
+     * restore queue using the current configuration. Nations whose
+     * passwords are no longer in the credentials text box stay in the queue.
+     */
+    private async handleRestoreQueue(): Promise<void> {
+        const run = Ui.validateRun();
+        if (run === null) {
+            $("#navbar").find("a[href='#configuration']").tab("show");
+            return;
+        }
+        const nations = ScheduleView.takeQueue();
+        const queued: {[id: string]: boolean} = {};
+        for (const nation of nations) {
+            queued[App.toId(nation)] = true;
+        }
+        const credentials = run.credentials.filter(
+            credential => queued.hasOwnProperty(App.toId(credential.nation)));
+        const found: {[id: string]: boolean} = {};
+        for (const credential of credentials) {
+            found[App.toId(credential.nation)] = true;
+        }
+        const missing = nations.filter(
+            nation => !found.hasOwnProperty(App.toId(nation)));
+        if (missing.length > 0) {
+            ScheduleView.queue(missing);
+            this._logger.warn(I18n.t("ui.resumeMissingPasswords",
+                                     {nations: missing.join(", ")}));
+        }
+        if (credentials.length === 0) {
+            return;
+        }
+        run.parameters.mode = Mode.Restore;
+        if (!await this.startRun(run.parameters, credentials)) {
+            ScheduleView.queue(
+                credentials.map(credential => credential.nation));
+        }
+    }
+
+    /**
+     * Reads the parameters and credentials for a scheduled run from the
+     * configuration saved in the active profile, so that unsaved changes to
+     * the form are not used. Credentials saved in the vault can only be
+     * read while it is unlocked.
+     *
+     * @return A promise fired with the parameters and credentials for the
+     *         run. The promise is rejected if the saved configuration is
+     *         missing or invalid.
+     */
+    private static async loadSavedRun()
+        : Promise<{parameters: RunParameters, credentials: Credential[]}>
+    {
+        const getNumber = (key: string) => {
+            const value = Profiles.getItem(key);
+            return value !== null && value !== "" ? Number(value) : NaN;
+        };
+        const userAgent = Profiles.getItem("userAgent");
+        const rateLimit = getNumber("rateLimit");
+        const maxAttempts = getNumber("maxAttempts");
+        const retryDelay = getNumber("retryDelay");
+        const mode = getNumber("mode");
+        const smartThresholdDays = getNumber("smartThreshold");
+        if (userAgent === null || userAgent === ""
+            || isNaN(rateLimit)
+            || !(maxAttempts >= 1 && Math.floor(maxAttempts) === maxAttempts)
+            || !(retryDelay >= 1)
+            || Mode[mode] === undefined
+            || !(smartThresholdDays >= 0))
+        {
+            throw new Error(I18n.t("ui.savedConfigurationInvalid"));
+        }
+
+        const text = VaultView.isEnabled()
+            ? await VaultView.readSaved()
+            : Profiles.getItem("credentials") || "";
+        const result = CredentialParser.parse(text);
+        if (result.credentials.length === 0
+            || result.diagnostics.some(
+                diagnostic => diagnostic.severity === Severity.Error))
+        {
+            throw new Error(I18n.t("ui.savedCredentialsInvalid"));
+        }
+
+        const snapshotShards = Profiles.getItem("snapshotShards");
+        const parameters: RunParameters = {
+            userAgent,
+            rateLimit,
+            mode,
+            retryPolicy: {
+                maxAttempts,
+                initialDelayMillis: retryDelay * 1000,
+                backoffFactor: Retry.DefaultPolicy.backoffFactor,
+                maxDelayMillis: Retry.DefaultPolicy.maxDelayMillis
+            },
+            smartThresholdDays,
+            snapshotShards: snapshotShards !== null && snapshotShards !== ""
+                ? snapshotShards.split(",") : []
+        };
+        return {
+            parameters,
+            credentials: AutologinTokens.apply(result.credentials)
+        };
+    }
+
+    /**
+     * Validates the configuration, showing alerts next to any invalid
+     * fields.
+     *
+     * @return The parameters and credentials for a run, or null if the
+     *         configuration is invalid.
+     */
+    private static validateRun(): {parameters: RunParameters,
+                                   credentials: Credential[]} | null
+    {
         const userAgentInput = $("#userAgent");
         const rateLimitInput = $("#rateLimit");
-        const verboseInput = $("#verbose");
 
         let passValidation = true;
 
@@ -249,11 +696,45 @@ export default class Ui {
                                "userAgentFormGroup");
         if (userAgentInput.val() === "") {
             Ui.showValidationAlert("userAgentValidationAlert",
-                                   "You must specify a user agent.",
+                                   I18n.t("ui.userAgentRequired"),
                                    "userAgentFormGroup");
             passValidation = false;
         }
 
+        Ui.hideValidationAlert("retryValidationAlert", "retryFormGroup");
+        const maxAttempts = Number($("#maxAttempts").val());
+        const retryDelay = Number($("#retryDelay").val());
+        if (!(maxAttempts >= 1 && Math.floor(maxAttempts) === maxAttempts)
+            || !(retryDelay >= 1))
+        {
+            Ui.showValidationAlert("retryValidationAlert",
+                                   I18n.t("ui.retryInvalid"),
+                                   "retryFormGroup");
+            passValidation = false;
+        }
+
+        Ui.hideValidationAlert("modeValidationAlert", "modeFormGroup");
+        const smartThresholdDays = Number($("#smartThreshold").val());
+        if (!(smartThresholdDays >= 0)) {
+            Ui.showValidationAlert("modeValidationAlert",
+                                   I18n.t("ui.smartThresholdInvalid"),
+                                   "modeFormGroup");
+            passValidation = false;
+        }
+
+        Ui.hideValidationAlert("simulatorValidationAlert",
+                               "simulatorFormGroup");
+        if (SimulatorView.isEnabled()) {
+            try {
+                SimulatorView.getConfig();
+            } catch (err) {
+                Ui.showValidationAlert("simulatorValidationAlert",
+                                       err.message,
+                                       "simulatorFormGroup");
+                passValidation = false;
+            }
+        }
+
         Ui.hideValidationAlert("credentialsValidationAlert",
                                "credentialsFormGroup");
         let credentials: Credential[] = [];
@@ -267,18 +748,179 @@ export default class Ui {
         }
 
         if (!passValidation) {
-            return;
+            return null;
         }
 
-        const userAgent = String(userAgentInput.val());
-        const mode: Mode = Ui.getMode();
-        const verbose = verboseInput.is(":checked");
+        const parameters: RunParameters = {
+            userAgent: String(userAgentInput.val()),
+            rateLimit: Number(rateLimitInput.val()),
+            mode: Ui.getMode(),
+            retryPolicy: {
+                maxAttempts,
+                initialDelayMillis: retryDelay * 1000,
+                backoffFactor: Retry.DefaultPolicy.backoffFactor,
+                maxDelayMillis: Retry.DefaultPolicy.maxDelayMillis
+            },
+            smartThresholdDays,
+            snapshotShards: SnapshotView.getShards()
+        };
+        return {parameters, credentials};
+    }
+
+    /**
+     * Takes the run lock, then switches the UI to the status tab and starts
+     * a run. The run is not started if another tab holds the run lock.
+     *
+     * @param parameters The parameters of the run.
+     * @param credentials The names and passwords of the nations.
+     * @param checkpoint The checkpoint of an interrupted run to resume, if
+     *                   any.
+     *
+     * @return A promise fired with whether the run was started, after it
+     *         finishes.
+     */
+    private async startRun(parameters: RunParameters,
+                           credentials: Credential[],
+                           checkpoint: Checkpoint | null = null)
+        : Promise<boolean>
+    {
+        const label = I18n.t("ui.runLabel", {
+            mode: I18n.t(`mode.${Mode[parameters.mode]}`),
+            count: credentials.length
+        });
+        if (!await this._runLock.acquire(label)) {
+            TabView.update();
+            $("#navbar").find("a[href='#configuration']").tab("show");
+            return false;
+        }
 
+        $("#resumeAlert").addClass("hidden");
         Ui.toggleUi(true);
+        ResultsView.toggleExport(false);
         $("#navbar").find("a[href='#status']").tab("show");
 
-        await this._app.start(userAgent, Number(rateLimitInput.val()),
-                              mode, credentials, verbose);
+        try {
+            await this._app.start(parameters, credentials, checkpoint);
+        } finally {
+            this._runLock.release();
+        }
+        return true;
+    }
+
+    /**
+     * Offers to resume an interrupted run, if there is one.
+     */
+    private static offerResume(): void {
+        const checkpoint = Checkpoints.load();
+        // The checkpoint of a run in progress in another tab is not
+        // interrupted
+        if (checkpoint === null || TabView.getOtherHolder() !== null) {
+            return;
+        }
+        const startedAt = new Date(checkpoint.startedAt).toLocaleString();
+        $("#resumeMessage").text(I18n.t("ui.resumeMessage", {
+            startedAt,
+            index: checkpoint.index,
+            total: checkpoint.nations.length
+        }));
+        $("#resumeError").text("");
+        $("#resumeAlert").removeClass("hidden");
+    }
+
+    /**
+     * Handler for the resume button. Resumes the interrupted run using the
+     * passwords in the credentials text box.
+     */
+    private async handleResume(): Promise<void> {
+        const checkpoint = Checkpoints.load();
+        if (checkpoint === null) {
+            $("#resumeAlert").addClass("hidden");
+            return;
+        }
+
+        const passwords: {[id: string]: string} = {};
+        const parsed = CredentialParser.parse(
+            String($("#credentials").val()));
+        for (const credential of parsed.credentials) {
+            const id = App.toId(credential.nation);
+            if (!passwords.hasOwnProperty(id)) {
+                passwords[id] = credential.password;
+            }
+        }
+
+        const credentials: Credential[] = [];
+        const missing: string[] = [];
+        for (const nation of checkpoint.nations) {
+            const id = App.toId(nation);
+            if (passwords.hasOwnProperty(id)) {
+                credentials.push({nation, password: passwords[id]});
+            } else {
+                missing.push(nation);
+            }
+        }
+        if (missing.length > 0) {
+            $("#resumeError").text(I18n.t("ui.resumeMissingPasswords",
+                                          {nations: missing.join(", ")}));
+            return;
+        }
+
+        await this.startRun(checkpoint.parameters,
+                            AutologinTokens.apply(credentials), checkpoint);
+    }
+
+    /**
+     * Handler for the discard button. Deletes the interrupted run.
+     */
+    private static handleDiscard(): void {
+        Checkpoints.clear();
+        $("#resumeAlert").addClass("hidden");
+    }
+
+    /**
+     * Shows the pre-flight review dialog and waits for the user to accept
+     * or reject the run.
+     *
+     * @param total The number of entries in the credentials text box.
+     * @param report The pre-flight report.
+     *
+     * @return Whether the user accepted the run.
+     */
+    private static reviewPreflight(total: number,
+                                   report: PreflightReport): Promise<boolean>
+    {
+        return new Promise((resolve) => {
+            const modal = $("#preflightModal");
+            const acceptButton = $("#preflightAcceptButton");
+            let accepted = false;
+
+            const count = report.credentials.length;
+            const skipped = report.issues.length;
+            $("#preflightSummary").text(skipped > 0
+                ? I18n.t("ui.preflightSummarySkipped",
+                         {count, total, skipped})
+                : I18n.t("ui.preflightSummary", {count, total}));
+
+            const issues = $("#preflightIssues");
+            issues.toggle(report.issues.length > 0);
+            const body = issues.find("tbody");
+            body.empty();
+            for (const issue of report.issues) {
+                $("<tr>")
+                    .append($("<td>").text(issue.nation))
+                    .append($("<td>").text(issue.message))
+                    .appendTo(body);
+            }
+
+            acceptButton.prop("disabled", count === 0);
+            acceptButton.off("click");
+            acceptButton.on("click", () => {
+                accepted = true;
+                modal.modal("hide");
+            });
+            modal.off("hidden.bs.modal");
+            modal.on("hidden.bs.modal", () => resolve(accepted));
+            modal.modal("show");
+        });
     }
 
     /**
@@ -287,10 +929,10 @@ export default class Ui {
     private handlePause(): void {
         if (this._app.isPaused()) {
             this._app.unpause();
-            $("#pauseButton").text("Pause");
+            $("#pauseButton").text(I18n.t("page.pause"));
         } else {
             this._app.pause();
-            $("#pauseButton").text("Resume");
+            $("#pauseButton").text(I18n.t("ui.resume"));
         }
     }
 
@@ -299,32 +941,36 @@ export default class Ui {
      */
     private handleCancel(): void {
         const pauseButton = $("#pauseButton");
-        pauseButton.text("Pause");
+        pauseButton.text(I18n.t("page.pause"));
         pauseButton.prop("disabled", true);
         $("#cancelButton").prop("disabled", true);
         this._app.cancel();
-    }
-
-    /**
-     * Handler fot the clear button.
-     */
-    private static handleClear(): void {
-        $("#log").html("");
+        ConfirmationView.cancel();
     }
 
     /**
      * Handler called when application finishes running.
      */
-    public static handleFinish(): void {
+    private static handleFinish(): void {
         Ui.toggleUi(false);
-        $("#restoreButton").prop("disabled", true);
+        ResultsView.toggleExport(true);
+        ConfirmationView.reset();
+        ProgressView.update();
+        SelectionView.update();
     }
 
     /**
-     * Handler called when tab is closed.
+     * Handler called when tab is closed. The configuration is not saved if
+     * it was saved in another tab in the meantime, so that those changes are
+     * not silently overwritten. Credentials in the vault have already been
+     * saved as they changed, since encrypting them again here may not finish
+     * before the page is gone.
      */
-    private static handleClose(): void {
-        if ($("#autoLoadSave").is(":checked")) {
+    private handleClose(): void {
+        this._runLock.release();
+        if ($("#autoLoadSave").is(":checked")
+            && !TabView.hasConfigConflict())
+        {
             Ui.handleSave();
         }
     }
@@ -336,44 +982,103 @@ export default class Ui {
         const loginModeInput = $("#modeLogin");
         const restoreModeInput = $("#modeRestore");
         const autoModeInput = $("#modeAuto");
+        const smartModeInput = $("#modeSmart");
         if (loginModeInput.is(":checked")) {
             return Mode.Login;
         } else if (restoreModeInput.is(":checked")) {
             return Mode.Restore;
         } else if (autoModeInput.is(":checked")) {
             return Mode.Auto;
+        } else if (smartModeInput.is(":checked")) {
+            return Mode.Smart;
         } else {
             throw new Error("No mode is checked");
         }
     }
 
     /**
-     * Gets the current credentials.
+     * Gets the current credentials. Any problems found while parsing them
+     * are shown below the credentials text box.
      */
     private static getCredentials(): Credential[] {
-        const text = String($("#credentials").val());
-        const credentials: Credential[] = [];
-        const lines = text.split("\n");
-        for (let i = 0; i < lines.length; i++) {
-            // Ignore empty lines or lines just containing whitespace
-            if (lines[i].trim() === "") {
-                continue;
-            }
-            const tuple = lines[i].split(",");
-            if (tuple.length !== 2) {
-                throw new Error(
-                    `Nation names and passwords text box does not`
-                    + ` contain a single nation name and a single`
-                    + ` password in the form 'nation,password' on`
-                    + ` line ${i + 1}`);
-            }
-            credentials.push({nation: tuple[0], password: tuple[1]});
+        const result = CredentialParser.parse(
+            String($("#credentials").val()));
+        Ui.showDiagnostics(result.diagnostics);
+        const errors = result.diagnostics.filter(
+            diagnostic => diagnostic.severity === Severity.Error);
+        if (errors.length > 0) {
+            throw new Error(I18n.t(errors.length === 1
+                                       ? "ui.credentialsInvalidEntry"
+                                       : "ui.credentialsInvalidEntries",
+                                   {count: errors.length}));
         }
-        if (credentials.length === 0) {
-            throw new Error(
-                "You must specify at least one nation name and"
-                + " password.");
+        if (result.credentials.length === 0) {
+            throw new Error(I18n.t("ui.credentialsRequired"));
+        }
+        return AutologinTokens.apply(result.credentials);
+    }
+
+    /**
+     * Shows the specified credential parser diagnostics below the
+     * credentials text box, replacing any previously shown.
+     *
+     * @param diagnostics The diagnostics.
+     */
+    private static showDiagnostics(diagnostics: Diagnostic[]): void {
+        const id = "credentialsDiagnosticsAlert";
+        $("#" + id).remove();
+        if (diagnostics.length === 0) {
+            return;
+        }
+
+        const maxShown = 50;
+        const list = $("<ul>");
+        for (const diagnostic of diagnostics.slice(0, maxShown)) {
+            $("<li>").text(I18n.t(diagnostic.severity === Severity.Error
+                                      ? "ui.diagnosticError"
+                                      : "ui.diagnosticWarning", {
+                location: diagnostic.location,
+                message: diagnostic.message
+            })).appendTo(list);
         }
-        return credentials;
+        if (diagnostics.length > maxShown) {
+            $("<li>").text(I18n.t("ui.diagnosticsMore",
+                                  {count: diagnostics.length - maxShown}))
+                     .appendTo(list);
+        }
+
+        const hasErrors = diagnostics.some(
+            diagnostic => diagnostic.severity === Severity.Error);
+        Ui.showAlert(id,
+                     list,
+                     (hasErrors ? "alert-danger" : "alert-warning")
+                     + " additional-top-spacing",
+                     "credentialsFormGroup");
+    }
+
+    /**
+     * Handler for importing credentials from a file. The parsed credentials
+     * are appended to the credentials text box.
+     *
+     * @param file The file to import.
+     */
+    private static handleImport(file: File): void {
+        const reader = new FileReader();
+        reader.onload = () => {
+            const format = CredentialParser.getFileFormat(file.name);
+            const result = CredentialParser.parse(
+                String(reader.result),
+                format !== null ? format : undefined);
+            Ui.showDiagnostics(result.diagnostics);
+            if (result.credentials.length === 0) {
+                return;
+            }
+
+            const credentialsInput = $("#credentials");
+            credentialsInput.val(CredentialParser.append(
+                String(credentialsInput.val()), result.credentials));
+            credentialsInput.trigger("change");
+        };
+        reader.readAsText(file);
     }
 }
@@ -0,0 +1,270 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import I18n from "./i18n";
+import Profiles from "./profiles";
+
+/**
+ * Represents the encrypted form of the credentials as saved in local
+ * storage.
+ */
+interface VaultData {
+    version: number,
+    iterations: number,
+    salt: string,
+    iv: string,
+    data: string
+}
+
+/**
+ * Stores the credentials text in the active profile, encrypted with a key
+ * derived from a user passphrase.
+ */
+export default class Vault {
+    public static readonly StorageKey = "credentialsVault";
+    private static readonly Iterations = 250000;
+
+    private _key: CryptoKey | null = null;
+    private _salt: Uint8Array | null = null;
+    private _iterations = Vault.Iterations;
+
+    /**
+     * Returns whether an encrypted vault is saved in the active profile.
+     *
+     * @return Whether an encrypted vault is saved in the active profile.
+     */
+    public static exists(): boolean {
+        return Profiles.getItem(Vault.StorageKey) !== null;
+    }
+
+    /**
+     * Returns whether the vault key is currently held in memory.
+     *
+     * @return Whether the vault is unlocked.
+     */
+    public isUnlocked(): boolean {
+        return this._key !== null;
+    }
+
+    /**
+     * Creates a new vault protected by the specified passphrase, replacing
+     * any existing vault, and saves the specified text in it.
+     *
+     * @param passphrase The passphrase.
+     * @param text The credentials text to save.
+     */
+    public async create(passphrase: string, text: string): Promise<void> {
+        const salt = crypto.getRandomValues(new Uint8Array(16));
+        this._key = await Vault.deriveKey(passphrase, salt, Vault.Iterations);
+        this._salt = salt;
+        this._iterations = Vault.Iterations;
+        await this.save(text);
+    }
+
+    /**
+     * Unlocks the saved vault using the specified passphrase.
+     *
+     * @param passphrase The passphrase.
+     *
+     * @return The decrypted credentials text.
+     */
+    public async unlock(passphrase: string): Promise<string> {
+        const raw = Profiles.getItem(Vault.StorageKey);
+        if (raw === null) {
+            throw new Error(I18n.t("vault.notSaved"));
+        }
+        const vault: VaultData = JSON.parse(raw);
+        const salt = Vault.fromBase64(vault.salt);
+        const key = await Vault.deriveKey(passphrase, salt, vault.iterations);
+
+        let plaintext: ArrayBuffer;
+        try {
+            plaintext = await crypto.subtle.decrypt(
+                {name: "AES-GCM", iv: Vault.fromBase64(vault.iv)},
+                key,
+                Vault.fromBase64(vault.data));
+        } catch (_) {
+            throw new Error(I18n.t("vault.incorrectPassphrase"));
+        }
+
+        this._key = key;
+        this._salt = salt;
+        this._iterations = vault.iterations;
+        return Vault.decodeUtf8(new Uint8Array(plaintext));
+    }
+
+    /**
+     * Decrypts the saved vault using the key held in memory, without asking
+     * for the passphrase.
+     *
+     * @return The decrypted credentials text.
+     */
+    public async read(): Promise<string> {
+        if (this._key === null) {
+            throw new Error(I18n.t("vault.lockedError"));
+        }
+        const raw = Profiles.getItem(Vault.StorageKey);
+        if (raw === null) {
+            throw new Error(I18n.t("vault.notSaved"));
+        }
+        const vault: VaultData = JSON.parse(raw);
+        const plaintext = await crypto.subtle.decrypt(
+            {name: "AES-GCM", iv: Vault.fromBase64(vault.iv)},
+            this._key,
+            Vault.fromBase64(vault.data));
+        return Vault.decodeUtf8(new Uint8Array(plaintext));
+    }
+
+    /**
+     * Encrypts and saves the specified text in the unlocked vault.
+     *
+     * @param text The credentials text to save.
+     */
+    public async save(text: string): Promise<void> {
+        if (this._key === null || this._salt === null) {
+            throw new Error(I18n.t("vault.lockedError"));
+        }
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const ciphertext = await crypto.subtle.encrypt(
+            {name: "AES-GCM", iv},
+            this._key,
+            Vault.encodeUtf8(text));
+        const vault: VaultData = {
+            version: 1,
+            iterations: this._iterations,
+            salt: Vault.toBase64(this._salt),
+            iv: Vault.toBase64(iv),
+            data: Vault.toBase64(new Uint8Array(ciphertext))
+        };
+        Profiles.setItem(Vault.StorageKey, JSON.stringify(vault));
+    }
+
+    /**
+     * Forgets the vault key, leaving the saved vault intact.
+     */
+    public lock(): void {
+        this._key = null;
+        this._salt = null;
+    }
+
+    /**
+     * Deletes the saved vault and forgets the vault key.
+     */
+    public wipe(): void {
+        this.lock();
+        Profiles.removeItem(Vault.StorageKey);
+    }
+
+    /**
+     * Derives an AES-GCM key from the specified passphrase using PBKDF2.
+     *
+     * @param passphrase The passphrase.
+     * @param salt The salt.
+     * @param iterations The number of PBKDF2 iterations.
+     *
+     * @return The derived key.
+     */
+    private static async deriveKey(passphrase: string, salt: Uint8Array,
+                                   iterations: number): Promise<CryptoKey>
+    {
+        const baseKey = await crypto.subtle.importKey(
+            "raw", Vault.encodeUtf8(passphrase), "PBKDF2", false,
+            ["deriveKey"]);
+        return crypto.subtle.deriveKey(
+            {name: "PBKDF2", salt, iterations, hash: "SHA-256"},
+            baseKey,
+            {name: "AES-GCM", length: 256},
+            false,
+            ["encrypt", "decrypt"]);
+    }
+
+    /**
+     * Encodes a string as UTF-8.
+     *
+     * @param text The string.
+     *
+     * @return The UTF-8 bytes.
+     */
+    private static encodeUtf8(text: string): Uint8Array {
+        const encoded = encodeURIComponent(text);
+        const bytes: number[] = [];
+        for (let i = 0; i < encoded.length; i++) {
+            if (encoded.charAt(i) === "%") {
+                bytes.push(parseInt(encoded.substr(i + 1, 2), 16));
+                i += 2;
+            } else {
+                bytes.push(encoded.charCodeAt(i));
+            }
+        }
+        return new Uint8Array(bytes);
+    }
+
+    /**
+     * Decodes UTF-8 bytes as a string.
+     *
+     * @param bytes The UTF-8 bytes.
+     *
+     * @return The string.
+     */
+    private static decodeUtf8(bytes: Uint8Array): string {
+        let encoded = "";
+        for (let i = 0; i < bytes.length; i++) {
+            encoded += (bytes[i] < 16 ? "%0" : "%") + bytes[i].toString(16);
+        }
+        return decodeURIComponent(encoded);
+    }
+
+    /**
+     * Encodes bytes as base64.
+     *
+     * @param bytes The bytes.
+     *
+     * @return The base64 string.
+     */
+    private static toBase64(bytes: Uint8Array): string {
+        return btoa(Vault.toBinary(bytes));
+    }
+
+    /**
+     * Decodes a base64 string.
+     *
+     * @param base64 The base64 string.
+     *
+     * @return The bytes.
+     */
+    private static fromBase64(base64: string): Uint8Array {
+        const binary = atob(base64);
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) {
+            bytes[i] = binary.charCodeAt(i);
+        }
+        return bytes;
+    }
+
+    /**
+     * Converts bytes to a binary string with one character per byte.
+     *
+     * @param bytes The bytes.
+     *
+     * @return The binary string.
+     */
+    private static toBinary(bytes: Uint8Array): string {
+        let binary = "";
+        for (let i = 0; i < bytes.length; i++) {
+            binary += String.fromCharCode(bytes[i]);
+        }
+        return binary;
+    }
+}
@@ -0,0 +1,397 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import AutologinTokens from "./autologin";
+import I18n from "./i18n";
+import Vault from "./vault";
+import Profiles from "./profiles";
+import * as $ from "jquery";
+
+/**
+ * Represents the decrypted contents of a vault that holds autologin tokens
+ * as well as the credentials text. The fields are checked before use, since
+ * the contents are only known to be a JSON object.
+ */
+interface VaultContents {
+    credentials?: {} | null,
+    autologin?: {} | null
+}
+
+/**
+ * Contains the UI logic for the encrypted credentials vault, which holds the
+ * contents of the credentials text box and any autologin tokens.
+ */
+export default class VaultView {
+    /**
+     * How long to wait after the credentials stop changing before saving
+     * them in the vault.
+     */
+    private static readonly SaveDelayMillis = 500;
+
+    private static readonly _vault = new Vault();
+    private static _saveTimeout: number | null = null;
+    private static _saveError: string | null = null;
+
+    /**
+     * Initializes the vault controls.
+     */
+    public static init(): void {
+        $("#vaultEnabled").on("click", () => {
+            const enable = $("#vaultEnabled").is(":checked");
+            // The checkbox reflects the saved state, not the click, until
+            // the user has gone through the relevant prompts
+            $("#vaultEnabled").prop("checked", !enable);
+            (enable ? VaultView.handleEnable() : VaultView.handleDisable())
+                .catch(err => console.error(err));
+        });
+        $("#changePassphraseButton").on("click", () => {
+            VaultView.handleChangePassphrase().catch(
+                err => console.error(err));
+        });
+        $("#wipeVaultButton").on("click", () => VaultView.handleWipe());
+        // Encryption is asynchronous and cannot finish while the page is
+        // being unloaded, so the vault is saved as the credentials change
+        // rather than when the page is closed
+        $("#credentials").on("input change", () => {
+            if ($("#autoLoadSave").is(":checked")) {
+                VaultView.scheduleSave();
+            }
+        });
+        VaultView.update();
+    }
+
+    /**
+     * Returns whether the credentials are saved in the vault rather than in
+     * plaintext.
+     *
+     * @return Whether vault mode is enabled.
+     */
+    public static isEnabled(): boolean {
+        try {
+            return Vault.exists();
+        } catch {
+            // No local storage
+            return false;
+        }
+    }
+
+    /**
+     * Prompts for the vault passphrase and loads the decrypted credentials
+     * into the credentials text box, along with any autologin tokens.
+     */
+    public static async load(): Promise<void> {
+        const passphrase = await VaultView.promptPassphrase(
+            I18n.t("vault.unlockTitle"),
+            I18n.t("vault.unlockMessage"),
+            false,
+            async (passphrase) => {
+                VaultView.setContents(
+                    await VaultView._vault.unlock(passphrase));
+            });
+        if (passphrase !== null) {
+            VaultView.update();
+        }
+    }
+
+    /**
+     * Reads the saved credentials text from the vault, if it is unlocked,
+     * without changing the credentials text box.
+     *
+     * @return The saved credentials text.
+     */
+    public static async readSaved(): Promise<string> {
+        return VaultView.parseContents(await VaultView._vault.read())
+            .credentials;
+    }
+
+    /**
+     * Encrypts and saves the contents of the credentials text box and any
+     * autologin tokens, if the vault is unlocked. A locked vault is left
+     * untouched so that the saved credentials are not overwritten. Failures
+     * are shown next to the vault controls.
+     */
+    public static save(): void {
+        if (VaultView._saveTimeout !== null) {
+            clearTimeout(VaultView._saveTimeout);
+            VaultView._saveTimeout = null;
+        }
+        if (!VaultView.isEnabled() || !VaultView._vault.isUnlocked()) {
+            return;
+        }
+        VaultView._vault.save(VaultView.getContents()).then(() => {
+            VaultView._saveError = null;
+            VaultView.update();
+        }, (err) => {
+            console.error(err);
+            VaultView._saveError = err instanceof Error ? err.message
+                                                        : String(err);
+            VaultView.update();
+        });
+    }
+
+    /**
+     * Forgets the vault key, for example when switching to another profile
+     * with its own vault.
+     */
+    public static lock(): void {
+        VaultView._vault.lock();
+        VaultView.update();
+    }
+
+    /**
+     * Updates the vault controls to reflect the current vault state.
+     */
+    public static update(): void {
+        const enabled = VaultView.isEnabled();
+        $("#vaultEnabled").prop("checked", enabled);
+        $("#changePassphraseButton").prop("disabled", !enabled);
+        $("#wipeVaultButton").prop("disabled", !enabled);
+        let status = "";
+        if (enabled && VaultView._saveError !== null) {
+            status = I18n.t("vault.saveFailed",
+                            {error: VaultView._saveError});
+        } else if (enabled) {
+            status = I18n.t(VaultView._vault.isUnlocked()
+                            ? "vault.unlocked" : "vault.locked");
+        }
+        $("#vaultStatus").text(status)
+                         .toggleClass("text-danger",
+                                      enabled && VaultView._saveError !== null)
+                         .toggleClass("text-muted",
+                                      !enabled
+                                      || VaultView._saveError === null);
+    }
+
+    /**
+     * Saves the vault once the credentials have stopped changing for a
+     * moment, replacing any save already scheduled.
+     */
+    private static scheduleSave(): void {
+        if (VaultView._saveTimeout !== null) {
+            clearTimeout(VaultView._saveTimeout);
+        }
+        VaultView._saveTimeout = window.setTimeout(
+            () => VaultView.save(), VaultView.SaveDelayMillis);
+    }
+
+    /**
+     * Handler for enabling vault mode. Encrypts the current credentials and
+     * autologin tokens and removes any plaintext copies from local storage.
+     */
+    private static async handleEnable(): Promise<void> {
+        const text = VaultView.getContents();
+        const passphrase = await VaultView.promptPassphrase(
+            I18n.t("vault.createTitle"),
+            I18n.t("vault.createMessage"),
+            true,
+            (passphrase) => VaultView._vault.create(passphrase, text));
+        if (passphrase === null) {
+            return;
+        }
+        try {
+            Profiles.removeItem("credentials");
+        } catch {
+            // No local storage
+        }
+        AutologinTokens.removeSaved();
+        VaultView.update();
+    }
+
+    /**
+     * Handler for disabling vault mode. Saves the credentials in plaintext
+     * and deletes the vault.
+     */
+    private static async handleDisable(): Promise<void> {
+        if (!VaultView._vault.isUnlocked()) {
+            await VaultView.load();
+            if (!VaultView._vault.isUnlocked()) {
+                return;
+            }
+        }
+        if (!window.confirm(I18n.t("vault.disableConfirm"))) {
+            return;
+        }
+        try {
+            Profiles.setItem("credentials",
+                             String($("#credentials").val()));
+            AutologinTokens.save();
+            VaultView._vault.wipe();
+        } catch {
+            // No local storage
+        }
+        VaultView.update();
+    }
+
+    /**
+     * Handler for the change passphrase button.
+     */
+    private static async handleChangePassphrase(): Promise<void> {
+        if (!VaultView._vault.isUnlocked()) {
+            await VaultView.load();
+            if (!VaultView._vault.isUnlocked()) {
+                return;
+            }
+        }
+        const text = VaultView.getContents();
+        await VaultView.promptPassphrase(
+            I18n.t("vault.changeTitle"),
+            I18n.t("vault.changeMessage"),
+            true,
+            (passphrase) => VaultView._vault.create(passphrase, text));
+        VaultView.update();
+    }
+
+    /**
+     * Handler for the wipe vault button.
+     */
+    private static handleWipe(): void {
+        if (!window.confirm(I18n.t("vault.wipeConfirm"))) {
+            return;
+        }
+        try {
+            VaultView._vault.wipe();
+        } catch {
+            // No local storage
+        }
+        $("#credentials").val("").trigger("input");
+        AutologinTokens.clear();
+        VaultView.update();
+    }
+
+    /**
+     * Gets the text to encrypt: the contents of the credentials text box
+     * and, if there are any, the autologin tokens.
+     *
+     * @return The text to encrypt.
+     */
+    private static getContents(): string {
+        const credentials = String($("#credentials").val());
+        const autologin = AutologinTokens.getAll();
+        if (Object.keys(autologin).length === 0) {
+            return credentials;
+        }
+        return JSON.stringify({credentials, autologin});
+    }
+
+    /**
+     * Loads decrypted text into the credentials text box and the autologin
+     * tokens.
+     *
+     * @param text The decrypted text.
+     */
+    private static setContents(text: string): void {
+        const contents = VaultView.parseContents(text);
+        $("#credentials").val(contents.credentials);
+        AutologinTokens.setAll(contents.autologin);
+        $("#credentials").trigger("input");
+    }
+
+    /**
+     * Splits decrypted text into the credentials text and the autologin
+     * tokens.
+     *
+     * @param text The decrypted text.
+     *
+     * @return The credentials text and the autologin tokens.
+     */
+    private static parseContents(text: string)
+        : {credentials: string, autologin: {[id: string]: string}}
+    {
+        // Vaults without autologin tokens hold only the credentials text,
+        // which cannot start with "{"
+        let contents: VaultContents | null = null;
+        if (text.charAt(0) === "{") {
+            try {
+                contents = JSON.parse(text);
+            } catch {
+                // Not JSON
+            }
+        }
+        if (contents !== null && typeof contents.credentials === "string") {
+            const autologin = contents.autologin;
+            return {
+                credentials: contents.credentials,
+                // The tokens themselves are checked by AutologinTokens.setAll
+                autologin: typeof autologin === "object" && autologin !== null
+                    ? autologin as {[id: string]: string} : {}
+            };
+        }
+        return {credentials: text, autologin: {}};
+    }
+
+    /**
+     * Shows the passphrase dialog and waits until a passphrase is accepted
+     * or the dialog is dismissed.
+     *
+     * @param title The title of the dialog.
+     * @param message The message shown in the dialog.
+     * @param confirm Whether the passphrase must be entered twice.
+     * @param accept Called with the entered passphrase. If the returned
+     *               promise is rejected, the error is shown and the dialog
+     *               stays open.
+     *
+     * @return The accepted passphrase, or null if the dialog was dismissed.
+     */
+    private static promptPassphrase(
+        title: string, message: string, confirm: boolean,
+        accept: (passphrase: string) => Promise<void>): Promise<string | null>
+    {
+        return new Promise((resolve) => {
+            const modal = $("#passphraseModal");
+            const form = $("#passphraseForm");
+            const passphraseInput = $("#passphrase");
+            const confirmInput = $("#passphraseConfirm");
+            const error = $("#passphraseError");
+
+            let accepted: string | null = null;
+            $("#passphraseTitle").text(title);
+            $("#passphraseMessage").text(message);
+            passphraseInput.val("");
+            confirmInput.val("").toggle(confirm);
+            error.text("");
+
+            form.off("submit");
+            form.on("submit", (e) => {
+                e.preventDefault();
+                const passphrase = String(passphraseInput.val());
+                if (passphrase === "") {
+                    error.text(I18n.t("vault.passphraseRequired"));
+                    return;
+                }
+                if (confirm && passphrase !== confirmInput.val()) {
+                    error.text(I18n.t("vault.passphraseMismatch"));
+                    return;
+                }
+                error.text("");
+                form.find("button").prop("disabled", true);
+                accept(passphrase).then(() => {
+                    accepted = passphrase;
+                    modal.modal("hide");
+                }, (err) => {
+                    error.text(err instanceof Error ? err.message
+                                   : String(err));
+                }).then(() => form.find("button").prop("disabled", false));
+            });
+            modal.off("shown.bs.modal hidden.bs.modal");
+            modal.on("shown.bs.modal", () => passphraseInput.trigger("focus"));
+            modal.on("hidden.bs.modal", () => {
+                passphraseInput.val("");
+                confirmInput.val("");
+                resolve(accepted);
+            });
+            modal.modal("show");
+        });
+    }
+}
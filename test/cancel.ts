@@ -0,0 +1,43 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as assert from "assert";
+import {Mode} from "../src/ts/app";
+import I18n from "../src/ts/i18n";
+import {Outcome} from "../src/ts/results";
+import Harness from "./harness";
+import Simulation from "./simulation";
+
+Harness.test("cancelling skips the nations not yet processed", async () => {
+    const {results, cancelled} = await Simulation.run({
+        nations: "Alpha,secret,10\nBeta,secret,10\nGamma,secret,10",
+        credentials: [{nation: "Alpha", password: "secret"},
+                      {nation: "Beta", password: "secret"},
+                      {nation: "Gamma", password: "secret"}],
+        mode: Mode.Login,
+        onProgress: (app, progress) => {
+            if (progress.length > 0 && app.isRunning()
+                && progress[0].outcome === Outcome.Success)
+            {
+                app.cancel();
+            }
+        }
+    });
+    assert.strictEqual(cancelled, true);
+    assert.deepStrictEqual(results.map(result => result.outcome),
+                           [Outcome.Success, Outcome.Skipped,
+                            Outcome.Skipped]);
+    assert.strictEqual(results[2].reason, I18n.t("app.cancelled"));
+});
@@ -0,0 +1,88 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as assert from "assert";
+import * as childProcess from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import Harness from "./harness";
+
+/**
+ * Represents the output of a finished command line run.
+ */
+interface CliRun {
+    status: number,
+    stdout: string
+}
+
+/**
+ * Runs the command line front end against the simulator.
+ *
+ * @param nations The simulated nations, one "nation,password,days" on each
+ *                line.
+ * @param credentials The contents of the credentials file.
+ * @param args Further command line arguments.
+ *
+ * @return The exit status and standard output of the run.
+ */
+function runCli(nations: string, credentials: string,
+                args: string[]): CliRun
+{
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "nslogin-test-"));
+    const nationsFile = path.join(dir, "nations.csv");
+    const credentialsFile = path.join(dir, "credentials.csv");
+    fs.writeFileSync(nationsFile, nations);
+    fs.writeFileSync(credentialsFile, credentials);
+    try {
+        const result = childProcess.spawnSync(
+            process.execPath,
+            [path.join(__dirname, "..", "src", "ts", "cli.js"),
+             credentialsFile, "--user-agent", "nslogin-web tests",
+             "--simulate", nationsFile, "--rate-limit", "600"].concat(args),
+            {encoding: "utf8", timeout: 60000});
+        return {status: result.status, stdout: result.stdout};
+    } finally {
+        fs.unlinkSync(nationsFile);
+        fs.unlinkSync(credentialsFile);
+        fs.rmdirSync(dir);
+    }
+}
+
+Harness.test("command line run succeeds against the simulator",
+             async () => {
+    const run = runCli("Alpha,secret,10\nBeta,secret,20\n",
+                       "Alpha,secret\nBeta,secret\n",
+                       ["--mode", "login", "--json"]);
+    assert.strictEqual(run.status, 0);
+    const results: {nation: string, outcome: string}[] =
+        JSON.parse(run.stdout);
+    assert.deepStrictEqual(
+        results.map(result => [result.nation, result.outcome]),
+        [["Alpha", "Success"], ["Beta", "Success"]]);
+});
+
+Harness.test("command line run reports failures in its exit status",
+             async () => {
+    const run = runCli("Alpha,secret,10\n", "Alpha,wrong\n",
+                       ["--mode", "login", "--attempts", "1"]);
+    assert.strictEqual(run.status, 1);
+});
+
+Harness.test("command line run rejects invalid options", async () => {
+    const run = runCli("Alpha,secret,10\n", "Alpha,secret\n",
+                       ["--mode", "sideways"]);
+    assert.strictEqual(run.status, 2);
+});
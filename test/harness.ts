@@ -0,0 +1,63 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as util from "util";
+
+/**
+ * Represents a registered test.
+ */
+interface Test {
+    name: string,
+    run: () => Promise<void>
+}
+
+/**
+ * Registers tests and runs them one at a time, printing the result of each.
+ */
+export default class Harness {
+    private static readonly _tests: Test[] = [];
+
+    /**
+     * Registers a test. The test fails if the returned promise is rejected.
+     *
+     * @param name The name of the test.
+     * @param run Runs the test.
+     */
+    public static test(name: string, run: () => Promise<void>): void {
+        Harness._tests.push({name, run});
+    }
+
+    /**
+     * Runs the registered tests in the order they were registered.
+     *
+     * @return The number of tests that failed.
+     */
+    public static async run(): Promise<number> {
+        let failures = 0;
+        for (const test of Harness._tests) {
+            try {
+                await test.run();
+                process.stdout.write(`ok - ${test.name}\n`);
+            } catch (err) {
+                failures++;
+                process.stdout.write(`not ok - ${test.name}\n`
+                                     + `${util.inspect(err)}\n`);
+            }
+        }
+        process.stdout.write(`${Harness._tests.length - failures} passed,`
+                             + ` ${failures} failed\n`);
+        return failures;
+    }
+}
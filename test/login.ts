@@ -0,0 +1,49 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as assert from "assert";
+import {Mode} from "../src/ts/app";
+import {Action, Outcome} from "../src/ts/results";
+import Harness from "./harness";
+import Simulation from "./simulation";
+
+Harness.test("login succeeds with the right password", async () => {
+    const {results} = await Simulation.run({
+        nations: "Alpha,secret,10",
+        credentials: [{nation: "Alpha", password: "secret"}],
+        mode: Mode.Login
+    });
+    assert.strictEqual(results.length, 1);
+    assert.strictEqual(results[0].action, Action.Login);
+    assert.strictEqual(results[0].outcome, Outcome.Success);
+});
+
+Harness.test("login fails with the wrong password", async () => {
+    const {results} = await Simulation.run({
+        nations: "Alpha,secret,10",
+        credentials: [{nation: "Alpha", password: "wrong"}],
+        mode: Mode.Login
+    });
+    assert.strictEqual(results[0].outcome, Outcome.Failure);
+});
+
+Harness.test("login fails for a nation that does not exist", async () => {
+    const {results} = await Simulation.run({
+        nations: "Alpha,secret,dead",
+        credentials: [{nation: "Alpha", password: "secret"}],
+        mode: Mode.Login
+    });
+    assert.strictEqual(results[0].outcome, Outcome.Failure);
+});
@@ -0,0 +1,48 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as assert from "assert";
+import I18n from "../src/ts/i18n";
+import CredentialParser, {Format} from "../src/ts/parser";
+import Harness from "./harness";
+
+Harness.test("JSON credentials are parsed with their tags", async () => {
+    const result = CredentialParser.parse(
+        "[{\"nation\": \" Alpha \", \"password\": \"secret\","
+        + " \"tags\": [\"puppets\"]}]", Format.Json);
+    assert.deepStrictEqual(result.diagnostics, []);
+    assert.deepStrictEqual(result.credentials,
+                           [{nation: "Alpha", password: "secret",
+                             tags: ["puppets"]}]);
+});
+
+Harness.test("JSON entries of the wrong shape are reported", async () => {
+    const result = CredentialParser.parse(
+        "[null, {\"nation\": \"Alpha\"},"
+        + " {\"nation\": \"Beta\", \"password\": \"secret\", \"tags\": [1]}]",
+        Format.Json);
+    assert.deepStrictEqual(result.credentials, []);
+    assert.deepStrictEqual(
+        result.diagnostics.map(diagnostic => diagnostic.message),
+        [I18n.t("parser.expectedObject"), I18n.t("parser.expectedObject"),
+         I18n.t("parser.invalidTags")]);
+});
+
+Harness.test("JSON that is not an array is reported", async () => {
+    const result = CredentialParser.parse("{}", Format.Json);
+    assert.deepStrictEqual(
+        result.diagnostics.map(diagnostic => diagnostic.message),
+        [I18n.t("parser.expectedArray")]);
+});
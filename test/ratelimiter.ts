@@ -0,0 +1,61 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as assert from "assert";
+import RateLimiter, {RequestKind} from "../src/ts/ratelimiter";
+import {ResponseError} from "../src/ts/retry";
+import Harness from "./harness";
+
+Harness.test("remaining requests are estimated until reported", async () => {
+    const limiter = new RateLimiter(0);
+    const status = limiter.getStatus();
+    assert.strictEqual(status.remaining, RateLimiter.WindowLimit);
+    assert.strictEqual(status.remainingReported, false);
+});
+
+Harness.test("remaining requests follow successful responses",
+             async () => {
+    const limiter = new RateLimiter(0);
+    limiter.recordResponse({
+        statusCode: 200,
+        headers: {"ratelimit-remaining": "3", "ratelimit-reset": "10"}
+    });
+    const status = limiter.getStatus();
+    assert.strictEqual(status.remaining, 3);
+    assert.strictEqual(status.remainingReported, true);
+});
+
+Harness.test("requests wait for the window to reset once none remain",
+             async () => {
+    const limiter = new RateLimiter(0);
+    const before = Date.now();
+    limiter.recordResponse({
+        statusCode: 200,
+        headers: {"x-ratelimit-remaining": "0", "ratelimit-reset": "10"}
+    });
+    assert.ok(limiter.getNextAllowed(RequestKind.Api) >= before + 10000);
+});
+
+Harness.test("remaining requests follow error responses", async () => {
+    const limiter = new RateLimiter(0);
+    const err = new Error("Forbidden") as ResponseError;
+    err.responseMetadata = {
+        statusCode: 403,
+        headers: {"ratelimit-remaining": "20"}
+    };
+    await limiter.schedule(RequestKind.Api, () => Promise.reject(err))
+        .catch(() => undefined);
+    assert.strictEqual(limiter.getStatus().remaining, 20);
+});
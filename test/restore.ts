@@ -0,0 +1,75 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as assert from "assert";
+import {Mode} from "../src/ts/app";
+import I18n from "../src/ts/i18n";
+import {Action, Outcome} from "../src/ts/results";
+import Harness from "./harness";
+import Simulation from "./simulation";
+
+Harness.test("restore brings back a nation that ceased to exist",
+             async () => {
+    const {results} = await Simulation.run({
+        nations: "Alpha,secret,dead",
+        credentials: [{nation: "Alpha", password: "secret"}],
+        mode: Mode.Restore
+    });
+    assert.strictEqual(results[0].action, Action.Restore);
+    assert.strictEqual(results[0].outcome, Outcome.Success);
+    assert.strictEqual(results[0].reason, I18n.t("app.restored"));
+});
+
+Harness.test("restore skips a nation that still exists", async () => {
+    const {results} = await Simulation.run({
+        nations: "Alpha,secret,10",
+        credentials: [{nation: "Alpha", password: "secret"}],
+        mode: Mode.Restore
+    });
+    assert.strictEqual(results[0].reason, I18n.t("app.alreadyExisted"));
+});
+
+Harness.test("restore with the wrong password fails", async () => {
+    const {results} = await Simulation.run({
+        nations: "Alpha,secret,dead",
+        credentials: [{nation: "Alpha", password: "wrong"}],
+        mode: Mode.Restore
+    });
+    assert.strictEqual(results[0].outcome, Outcome.Failure);
+    assert.strictEqual(results[0].reason, I18n.t("app.notRestorable"));
+});
+
+Harness.test("declined restore is left for later", async () => {
+    const {results} = await Simulation.run({
+        nations: "Alpha,secret,dead",
+        credentials: [{nation: "Alpha", password: "secret"}],
+        mode: Mode.Restore,
+        confirm: false
+    });
+    assert.strictEqual(results[0].outcome, Outcome.Deferred);
+});
+
+Harness.test("auto mode logs in or restores as needed", async () => {
+    const {results} = await Simulation.run({
+        nations: "Alpha,secret,10\nBeta,secret,dead",
+        credentials: [{nation: "Alpha", password: "secret"},
+                      {nation: "Beta", password: "secret"}],
+        mode: Mode.Auto
+    });
+    assert.deepStrictEqual(
+        results.map(result => [result.action, result.outcome]),
+        [[Action.Login, Outcome.Success],
+         [Action.Restore, Outcome.Success]]);
+});
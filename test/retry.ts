@@ -0,0 +1,155 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as assert from "assert";
+import {Credential, Mode} from "../src/ts/app";
+import {Backend, RestoreResponse} from "../src/ts/backend";
+import {Outcome} from "../src/ts/results";
+import Retry, {ResponseError} from "../src/ts/retry";
+import {NationShardData} from "../src/ts/snapshot";
+import Harness from "./harness";
+import Simulation from "./simulation";
+
+/**
+ * Wraps a backend so that the first few pings fail with a server error.
+ */
+class FlakyBackend implements Backend {
+    private readonly _backend: Backend;
+    private _failures: number;
+
+    /**
+     * Initializes a new instance of the FlakyBackend class.
+     *
+     * @param backend The backend to wrap.
+     * @param failures The number of pings that fail before pings are passed
+     *                 on to the wrapped backend.
+     */
+    constructor(backend: Backend, failures: number) {
+        this._backend = backend;
+        this._failures = failures;
+    }
+
+    public nationExists(nation: string): Promise<boolean> {
+        return this._backend.nationExists(nation);
+    }
+
+    public async ping(credential: Credential,
+                      useAutologin: boolean): Promise<string | null>
+    {
+        if (this._failures > 0) {
+            this._failures--;
+            throw createError(503, {});
+        }
+        return this._backend.ping(credential, useAutologin);
+    }
+
+    public getLastLogin(nation: string): Promise<number> {
+        return this._backend.getLastLogin(nation);
+    }
+
+    public submitRestore(credential: Credential): Promise<RestoreResponse> {
+        return this._backend.submitRestore(credential);
+    }
+
+    public getNationShards(credential: Credential, shards: string[],
+                           authenticate: boolean)
+        : Promise<NationShardData>
+    {
+        return this._backend.getNationShards(credential, shards,
+                                             authenticate);
+    }
+
+    public getRegionNations(region: string): Promise<string[]> {
+        return this._backend.getRegionNations(region);
+    }
+
+    public cleanup(): void {
+        this._backend.cleanup();
+    }
+}
+
+/**
+ * Creates an error with the same shape as the errors returned by the API.
+ *
+ * @param statusCode The HTTP status code.
+ * @param headers The response headers.
+ *
+ * @return The error.
+ */
+function createError(statusCode: number,
+                     headers: {[name: string]: string}): ResponseError
+{
+    const err = new Error(`${statusCode}`) as ResponseError;
+    err.responseMetadata = {statusCode, headers};
+    return err;
+}
+
+Harness.test("status codes are read from API errors", async () => {
+    assert.strictEqual(Retry.getStatusCode(createError(404, {})), 404);
+    assert.strictEqual(Retry.getStatusCode(new Error("Network error")),
+                       null);
+    assert.strictEqual(Retry.getStatusCode(undefined), null);
+});
+
+Harness.test("server errors are transient, others are not", async () => {
+    assert.strictEqual(Retry.isTransient(createError(503, {})), true);
+    assert.strictEqual(Retry.isTransient(createError(429, {})), true);
+    assert.strictEqual(Retry.isTransient(createError(403, {})), false);
+    assert.strictEqual(Retry.isTransient(new Error("Request cancelled")),
+                       false);
+});
+
+Harness.test("retry delay is read from the response headers", async () => {
+    assert.strictEqual(
+        Retry.getRetryAfterMillis(createError(429, {"retry-after": "7"})),
+        7000);
+    assert.strictEqual(Retry.getRetryAfterMillis(createError(429, {})),
+                       null);
+});
+
+Harness.test("login is retried after a server error", async () => {
+    const {results} = await Simulation.run({
+        nations: "Alpha,secret,10",
+        credentials: [{nation: "Alpha", password: "secret"}],
+        mode: Mode.Login,
+        maxAttempts: 3,
+        wrap: backend => new FlakyBackend(backend, 1)
+    });
+    assert.strictEqual(results[0].outcome, Outcome.Success);
+    assert.strictEqual(results[0].attempts, 2);
+});
+
+Harness.test("login fails once the attempts run out", async () => {
+    const {results} = await Simulation.run({
+        nations: "Alpha,secret,10",
+        credentials: [{nation: "Alpha", password: "secret"}],
+        mode: Mode.Login,
+        maxAttempts: 2,
+        wrap: backend => new FlakyBackend(backend, 2)
+    });
+    assert.strictEqual(results[0].outcome, Outcome.Failure);
+    assert.strictEqual(results[0].attempts, 2);
+});
+
+Harness.test("wrong password is not retried", async () => {
+    const {results} = await Simulation.run({
+        nations: "Alpha,secret,10",
+        credentials: [{nation: "Alpha", password: "wrong"}],
+        mode: Mode.Login,
+        maxAttempts: 3
+    });
+    assert.strictEqual(results[0].outcome, Outcome.Failure);
+    assert.strictEqual(results[0].attempts, 1);
+});
@@ -0,0 +1,115 @@
+/**
+ * Copyright (C) 2017 Auralia
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import App, {Credential, Mode} from "../src/ts/app";
+import {Backend} from "../src/ts/backend";
+import Logger from "../src/ts/logger";
+import {Result} from "../src/ts/results";
+import SimulatorBackend from "../src/ts/simulator";
+
+/**
+ * Represents the options of a simulated run.
+ */
+export interface SimulationOptions {
+    /**
+     * The simulated nations, in the format accepted by
+     * SimulatorBackend.parseNations.
+     */
+    nations: string,
+    credentials: Credential[],
+    mode: Mode,
+    /**
+     * The maximum number of attempts for each nation. Defaults to 1.
+     */
+    maxAttempts?: number,
+    /**
+     * The probability that a simulated request fails. Defaults to 0.
+     */
+    failureRate?: number,
+    /**
+     * Whether restores are confirmed. Defaults to true.
+     */
+    confirm?: boolean,
+    /**
+     * Replaces the simulator with a backend that wraps it, if specified.
+     */
+    wrap?: (backend: Backend) => Backend,
+    /**
+     * Called whenever a per-nation result changes, if specified.
+     */
+    onProgress?: (app: App, results: Result[]) => void
+}
+
+/**
+ * Represents the results of a simulated run.
+ */
+export interface SimulationResults {
+    results: Result[],
+    cancelled: boolean
+}
+
+/**
+ * Contains helper functions for running the app against the simulator.
+ */
+export default class Simulation {
+    /**
+     * Runs the app against the simulator as quickly as the rate limit
+     * allows, with a short delay between attempts.
+     *
+     * @param options The options of the run.
+     *
+     * @return The results of the run.
+     */
+    public static async run(options: SimulationOptions)
+        : Promise<SimulationResults>
+    {
+        const simulator = new SimulatorBackend({
+            nations: SimulatorBackend.parseNations(options.nations),
+            latencyMillis: 0,
+            failureRate: options.failureRate || 0
+        });
+        const backend = options.wrap ? options.wrap(simulator) : simulator;
+        let cancelled = false;
+        const app: App = new App(
+            new Logger(),
+            {confirm: async () => options.confirm !== false},
+            () => backend,
+            {
+                onProgress: (results: Result[]) => {
+                    if (options.onProgress) {
+                        options.onProgress(app, results);
+                    }
+                },
+                onSnapshot: () => undefined,
+                onAutologin: () => undefined,
+                onFinish: (_: Result[], wasCancelled: boolean) => {
+                    cancelled = wasCancelled;
+                }
+            });
+        await app.start({
+            userAgent: "nslogin-web tests",
+            rateLimit: 0,
+            mode: options.mode,
+            retryPolicy: {
+                maxAttempts: options.maxAttempts || 1,
+                initialDelayMillis: 10,
+                backoffFactor: 1,
+                maxDelayMillis: 10
+            },
+            smartThresholdDays: 7
+        }, options.credentials);
+        return {results: app.getResults(), cancelled};
+    }
+}